@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import {
+    createApiError,
+    NanoGPTError,
+    QuotaExhaustedError,
+    RateLimitedError,
+    UpstreamTimeoutError,
+} from "./errors.ts";
+
+describe("createApiError", () => {
+    test("402 is quota exhaustion", () => {
+        const error = createApiError(402, JSON.stringify({ error: { message: "Payment required" } }));
+        expect(error).toBeInstanceOf(QuotaExhaustedError);
+        expect(error.status).toBe(402);
+    });
+
+    test("429 with rate limit wording is a rate limit", () => {
+        const error = createApiError(429, JSON.stringify({ error: { message: "Rate limit exceeded" } }));
+        expect(error).toBeInstanceOf(RateLimitedError);
+        expect(error).not.toBeInstanceOf(QuotaExhaustedError);
+    });
+
+    test("429 keeps the Retry-After delay", () => {
+        const error = createApiError(429, "Too many requests", 5000);
+        expect(error).toBeInstanceOf(RateLimitedError);
+        expect((error as RateLimitedError).retryAfterMs).toBe(5000);
+        expect(error.userMessage).toContain("5 seconds");
+    });
+
+    test("429 with balance wording is quota exhaustion", () => {
+        const error = createApiError(429, JSON.stringify({ error: "Insufficient balance" }));
+        expect(error).toBeInstanceOf(QuotaExhaustedError);
+    });
+
+    test("gateway timeouts are upstream timeouts", () => {
+        expect(createApiError(504, "Gateway Timeout")).toBeInstanceOf(UpstreamTimeoutError);
+        expect(createApiError(524, "")).toBeInstanceOf(UpstreamTimeoutError);
+    });
+
+    test("other 5xx errors are generic with the detail in the user message", () => {
+        const error = createApiError(500, JSON.stringify({ message: "Internal server error" }));
+        expect(error).toBeInstanceOf(NanoGPTError);
+        expect(error).not.toBeInstanceOf(RateLimitedError);
+        expect(error).not.toBeInstanceOf(QuotaExhaustedError);
+        expect(error.status).toBe(500);
+        expect(error.userMessage).toContain("Internal server error");
+    });
+});
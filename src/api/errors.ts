@@ -0,0 +1,128 @@
+/**
+ * Typed errors raised by NanoGPTClient. Each carries a `userMessage` that is
+ * safe to show in Discord, while `message` keeps the raw detail for logs.
+ */
+export class NanoGPTError extends Error {
+    readonly status?: number;
+    readonly userMessage: string;
+
+    constructor(message: string, userMessage: string, status?: number) {
+        super(message);
+        this.name = "NanoGPTError";
+        this.status = status;
+        this.userMessage = userMessage;
+    }
+}
+
+export class RateLimitedError extends NanoGPTError {
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, retryAfterMs?: number) {
+        const wait = retryAfterMs ? ` in ${Math.ceil(retryAfterMs / 1000)} seconds` : " in a moment";
+        super(message, `NanoGPT is rate limiting requests right now. Please try again${wait}.`, 429);
+        this.name = "RateLimitedError";
+        this.retryAfterMs = retryAfterMs;
+    }
+}
+
+export class QuotaExhaustedError extends NanoGPTError {
+    constructor(message: string, status?: number) {
+        super(message, "The NanoGPT subscription quota has been used up. Check `/usage` or try again after the limit resets.", status);
+        this.name = "QuotaExhaustedError";
+    }
+}
+
+export class InvalidModelError extends NanoGPTError {
+    constructor(message: string, status?: number) {
+        super(message, "That model isn't available. Use `/models` to see the models you can use.", status);
+        this.name = "InvalidModelError";
+    }
+}
+
+export class ContentRefusedError extends NanoGPTError {
+    constructor(message: string, status?: number) {
+        super(message, "The request was refused by the provider's content policy. Try rephrasing your prompt.", status);
+        this.name = "ContentRefusedError";
+    }
+}
+
+export class UpstreamTimeoutError extends NanoGPTError {
+    constructor(message: string, status?: number) {
+        super(message, "NanoGPT took too long to respond. Please try again.", status);
+        this.name = "UpstreamTimeoutError";
+    }
+}
+
+// Error text that can only mean the account has run out of credit or quota
+const QUOTA_WORDING = /insufficient (balance|funds|credits?)|out of (credits?|balance)|(balance|credits?) (is )?(too low|exhausted|depleted)|quota (exceeded|exhausted|reached)|exceeded your (current )?quota/;
+
+/**
+ * Pull a human-readable message out of an API error body, which may be
+ * `{ error: { message } }`, `{ error: "..." }`, `{ message }` or plain text.
+ */
+function extractErrorMessage(body: string): string {
+    try {
+        const parsed = JSON.parse(body);
+        if (typeof parsed?.error === "string") return parsed.error;
+        if (typeof parsed?.error?.message === "string") return parsed.error.message;
+        if (typeof parsed?.message === "string") return parsed.message;
+    } catch {
+        // Not JSON, fall through to the raw text
+    }
+    return body;
+}
+
+/**
+ * Map a failed HTTP response to the most specific NanoGPTError subclass.
+ */
+export function createApiError(status: number, body: string, retryAfterMs?: number): NanoGPTError {
+    const detail = extractErrorMessage(body).trim();
+    const message = `NanoGPT API error (${status}): ${detail}`;
+    const lower = detail.toLowerCase();
+
+    if (status === 402) {
+        return new QuotaExhaustedError(message, status);
+    }
+
+    // "Rate limit exceeded" is an ordinary 429; only balance wording means the quota is gone
+    if (status === 429) {
+        return QUOTA_WORDING.test(lower)
+            ? new QuotaExhaustedError(message, status)
+            : new RateLimitedError(message, retryAfterMs);
+    }
+
+    if (QUOTA_WORDING.test(lower)) {
+        return new QuotaExhaustedError(message, status);
+    }
+
+    if (status === 408 || status === 504 || status === 524) {
+        return new UpstreamTimeoutError(message, status);
+    }
+
+    if (/content (policy|filter|management)|moderation|safety system|flagged|refus/.test(lower)) {
+        return new ContentRefusedError(message, status);
+    }
+
+    if ((status === 400 || status === 404) && /model/.test(lower)) {
+        return new InvalidModelError(message, status);
+    }
+
+    const summary = detail.length > 200 ? detail.substring(0, 200) + "..." : detail;
+    return new NanoGPTError(
+        message,
+        `The NanoGPT API returned an error (${status})${summary ? `: ${summary}` : "."}`,
+        status
+    );
+}
+
+/**
+ * Build the message a command should show when something goes wrong.
+ */
+export function formatErrorForUser(error: unknown): string {
+    if (error instanceof NanoGPTError) {
+        return error.userMessage;
+    }
+
+    const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    return `An error occurred: ${errorMessage}`;
+}
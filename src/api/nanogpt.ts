@@ -1,8 +1,18 @@
-const NANOGPT_API_KEY = process.env.NANOGPT_API_KEY;
-const BASE_URL = "https://nano-gpt.com/api";
+import { createApiError, NanoGPTError, QuotaExhaustedError, UpstreamTimeoutError } from "./errors.ts";
 
-if (!NANOGPT_API_KEY) {
-    throw new Error("NANOGPT_API_KEY environment variable is required");
+const DEFAULT_BASE_URL = "https://nano-gpt.com/api";
+const DEFAULT_TIMEOUT_MS = 120000;
+const DEFAULT_MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+const RETRYABLE_STATUSES = [408, 429, 500, 502, 503, 504, 524];
+
+export interface NanoGPTClientOptions {
+    apiKey?: string;
+    baseUrl?: string; // e.g. http://localhost:8787/api for the bundled mock server
+    timeoutMs?: number; // Per attempt, until the response body has been read (streams: until headers arrive)
+    maxRetries?: number;
 }
 
 export interface TextPart {
@@ -38,6 +48,12 @@ export interface ChatCompletionOptions {
     webSearchVariant?: WebSearchVariant;
 }
 
+export interface ChatUsage {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+}
+
 export interface ChatCompletionResponse {
     id: string;
     object: string;
@@ -51,11 +67,24 @@ export interface ChatCompletionResponse {
         };
         finish_reason: string;
     }[];
-    usage?: {
-        prompt_tokens: number;
-        completion_tokens: number;
-        total_tokens: number;
-    };
+    usage?: ChatUsage;
+}
+
+// A single server-sent event from a streamed chat completion
+export interface ChatCompletionChunk {
+    id: string;
+    object: string;
+    created: number;
+    model: string;
+    choices: {
+        index: number;
+        delta: {
+            role?: string;
+            content?: string;
+        };
+        finish_reason: string | null;
+    }[];
+    usage?: ChatUsage;
 }
 
 export interface SubscriptionUsage {
@@ -88,6 +117,10 @@ export interface Model {
     id: string;
     name?: string;
     description?: string;
+    context_length?: number;
+    capabilities?: {
+        vision?: boolean;
+    };
 }
 
 export interface ImageModel {
@@ -119,6 +152,20 @@ export interface ImageGenerationResponse {
     remainingBalance?: number;
 }
 
+export interface EmbeddingsResponse {
+    object: "list";
+    data: {
+        object: "embedding";
+        index: number;
+        embedding: number[];
+    }[];
+    model: string;
+    usage?: {
+        prompt_tokens: number;
+        total_tokens: number;
+    };
+}
+
 export interface ScrapeResult {
     url: string;
     success: boolean;
@@ -181,60 +228,297 @@ function getModelWithWebSearch(
     return `${model}:online/${suffix}`;
 }
 
-class NanoGPTClient {
-    private apiKey: string;
+function parseEnvNumber(name: string): number | undefined {
+    const value = process.env[name];
+    if (!value) return undefined;
+    const parsed = Number(value);
+    return Number.isNaN(parsed) ? undefined : parsed;
+}
 
-    constructor(apiKey: string) {
-        this.apiKey = apiKey;
+/**
+ * Parse a Retry-After header, which is either a number of seconds or an HTTP date.
+ */
+function parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined;
+
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+        return Math.max(0, seconds * 1000);
     }
 
-    private async request<T>(
+    const date = Date.parse(value);
+    if (!Number.isNaN(date)) {
+        return Math.max(0, date - Date.now());
+    }
+
+    return undefined;
+}
+
+/**
+ * Exponential backoff with jitter, unless the server told us how long to wait.
+ */
+function getRetryDelay(attempt: number, retryAfterMs?: number): number {
+    if (retryAfterMs !== undefined) {
+        return retryAfterMs;
+    }
+    const exponential = Math.min(MAX_RETRY_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+    return exponential / 2 + Math.random() * (exponential / 2);
+}
+
+const STREAM_DONE = Symbol("done");
+
+/**
+ * Payload of one server-sent event line: parsed JSON, STREAM_DONE for the
+ * `[DONE]` sentinel, or undefined for lines that carry no data.
+ */
+function parseEventLine<T>(rawLine: string): T | typeof STREAM_DONE | undefined {
+    const line = rawLine.trim();
+
+    // Skip blank separators, comments and non-data fields
+    if (!line.startsWith("data:")) return undefined;
+
+    const payload = line.substring(5).trim();
+    if (payload === "[DONE]") return STREAM_DONE;
+
+    try {
+        return JSON.parse(payload) as T;
+    } catch {
+        console.warn("[NanoGPT] Skipping malformed stream chunk:", payload.substring(0, 100));
+        return undefined;
+    }
+}
+
+/**
+ * Read the next chunk of a stream, failing with UpstreamTimeoutError when
+ * nothing arrives within idleTimeoutMs.
+ */
+async function readWithTimeout(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+    idleTimeoutMs: number
+) {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(
+            () => reject(new UpstreamTimeoutError(`NanoGPT stream sent nothing for ${idleTimeoutMs}ms`)),
+            idleTimeoutMs
+        );
+    });
+
+    try {
+        return await Promise.race([reader.read(), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Parse an OpenAI-style server-sent event stream into JSON payloads.
+ * Stops at the `data: [DONE]` sentinel or when the stream closes; a final
+ * line without a trailing newline still counts. A stream that goes quiet for
+ * idleTimeoutMs fails with UpstreamTimeoutError.
+ */
+async function* parseEventStream<T>(body: ReadableStream<Uint8Array>, idleTimeoutMs: number): AsyncGenerator<T> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let finished = false;
+
+    try {
+        while (true) {
+            const { done, value } = await readWithTimeout(reader, idleTimeoutMs);
+            if (done) {
+                finished = true;
+                break;
+            }
+
+            buffer += decoder.decode(value, { stream: true });
+
+            let newlineIndex: number;
+            while ((newlineIndex = buffer.indexOf("\n")) !== -1) {
+                const event = parseEventLine<T>(buffer.substring(0, newlineIndex));
+                buffer = buffer.substring(newlineIndex + 1);
+
+                if (event === STREAM_DONE) return;
+                if (event !== undefined) yield event;
+            }
+        }
+
+        // The last line may end without a newline, and is often the usage chunk
+        const event = parseEventLine<T>(buffer + decoder.decode());
+        if (event !== undefined && event !== STREAM_DONE) yield event;
+    } finally {
+        // Stopping early (at [DONE], on error or when the consumer quits) closes the connection
+        if (!finished) {
+            await reader.cancel().catch(() => {});
+        }
+        reader.releaseLock();
+    }
+}
+
+export class NanoGPTClient {
+    private apiKey: string | undefined;
+    private baseUrl: string;
+    private timeoutMs: number;
+    private maxRetries: number;
+
+    constructor(options: NanoGPTClientOptions = {}) {
+        this.apiKey = options.apiKey ?? process.env.NANOGPT_API_KEY;
+        this.baseUrl = (options.baseUrl ?? process.env.NANOGPT_BASE_URL ?? DEFAULT_BASE_URL).replace(/\/+$/, "");
+        this.timeoutMs = options.timeoutMs ?? parseEnvNumber("NANOGPT_TIMEOUT_MS") ?? DEFAULT_TIMEOUT_MS;
+        this.maxRetries = options.maxRetries ?? parseEnvNumber("NANOGPT_MAX_RETRIES") ?? DEFAULT_MAX_RETRIES;
+    }
+
+    /**
+     * Send a request with a per-attempt timeout, retrying rate limits, 5xx
+     * responses and network failures with backoff. `consume` runs under the
+     * same timeout so slow bodies count against it too.
+     */
+    private async fetchWithRetry<T>(
         endpoint: string,
-        options: RequestInit = {}
+        options: RequestInit,
+        consume: (response: Response) => Promise<T>
     ): Promise<T> {
-        const url = `${BASE_URL}${endpoint}`;
+        // Checked lazily so commands that never hit the API still load without a key
+        if (!this.apiKey) {
+            throw new Error("NANOGPT_API_KEY environment variable is required");
+        }
+
+        const url = `${this.baseUrl}${endpoint}`;
         const headers = {
             Authorization: `Bearer ${this.apiKey}`,
             "Content-Type": "application/json",
             ...options.headers,
         };
 
-        const response = await fetch(url, {
-            ...options,
-            headers,
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            throw new Error(`NanoGPT API error (${response.status}): ${errorText}`);
+        for (let attempt = 0; ; attempt++) {
+            const controller = new AbortController();
+            const timer = setTimeout(() => controller.abort(), this.timeoutMs);
+            let response: Response | undefined;
+
+            try {
+                response = await fetch(url, {
+                    ...options,
+                    headers,
+                    signal: controller.signal,
+                });
+
+                if (!response.ok) {
+                    const errorText = await response.text();
+                    const retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+                    const error = createApiError(response.status, errorText, retryAfterMs);
+
+                    const delay = getRetryDelay(attempt, retryAfterMs);
+                    const canRetry = RETRYABLE_STATUSES.includes(response.status)
+                        && !(error instanceof QuotaExhaustedError)
+                        && attempt < this.maxRetries
+                        && delay <= MAX_RETRY_DELAY_MS;
+
+                    if (!canRetry) {
+                        throw error;
+                    }
+
+                    console.warn(`[NanoGPT] ${endpoint} returned ${response.status}, retrying in ${Math.round(delay)}ms`);
+                    await Bun.sleep(delay);
+                    continue;
+                }
+
+                return await consume(response);
+            } catch (error) {
+                if (error instanceof NanoGPTError) {
+                    throw error;
+                }
+
+                const timedOut = controller.signal.aborted;
+
+                // Only retry failures that happened before we got a response
+                if ((timedOut || !response) && attempt < this.maxRetries) {
+                    const delay = getRetryDelay(attempt);
+                    console.warn(`[NanoGPT] ${endpoint} ${timedOut ? "timed out" : "failed"}, retrying in ${Math.round(delay)}ms`);
+                    await Bun.sleep(delay);
+                    continue;
+                }
+
+                if (timedOut) {
+                    throw new UpstreamTimeoutError(`NanoGPT request to ${endpoint} timed out after ${this.timeoutMs}ms`);
+                }
+
+                throw error;
+            } finally {
+                clearTimeout(timer);
+            }
         }
+    }
 
-        return response.json() as Promise<T>;
+    private async request<T>(
+        endpoint: string,
+        options: RequestInit = {}
+    ): Promise<T> {
+        return this.fetchWithRetry(endpoint, options, (response) => response.json() as Promise<T>);
     }
 
-    async chat(
+    private buildChatBody(
         messages: ChatMessage[],
         model: string,
-        options: ChatCompletionOptions = {}
-    ): Promise<ChatCompletionResponse> {
+        options: ChatCompletionOptions
+    ): Record<string, unknown> {
         const finalModel = getModelWithWebSearch(
             model,
             options.webSearch || "none",
             options.webSearchVariant
         );
 
+        return {
+            model: finalModel,
+            messages,
+            temperature: options.temperature ?? 0.7,
+            max_tokens: options.max_tokens ?? 4000,
+            top_p: options.top_p ?? 1,
+        };
+    }
+
+    async chat(
+        messages: ChatMessage[],
+        model: string,
+        options: ChatCompletionOptions = {}
+    ): Promise<ChatCompletionResponse> {
         return this.request<ChatCompletionResponse>("/v1/chat/completions", {
             method: "POST",
-            body: JSON.stringify({
-                model: finalModel,
-                messages,
-                temperature: options.temperature ?? 0.7,
-                max_tokens: options.max_tokens ?? 4000,
-                top_p: options.top_p ?? 1,
-            }),
+            body: JSON.stringify(this.buildChatBody(messages, model, options)),
         });
     }
 
+    /**
+     * Streaming variant of chat(). Yields completion chunks as they arrive;
+     * the final chunk carries token usage when the upstream provides it.
+     */
+    async *chatStream(
+        messages: ChatMessage[],
+        model: string,
+        options: ChatCompletionOptions = {}
+    ): AsyncGenerator<ChatCompletionChunk> {
+        // The timeout covers waiting for headers, then each gap between chunks;
+        // long generations keep streaming as long as chunks keep arriving
+        const body = await this.fetchWithRetry(
+            "/v1/chat/completions",
+            {
+                method: "POST",
+                headers: { Accept: "text/event-stream" },
+                body: JSON.stringify({
+                    ...this.buildChatBody(messages, model, options),
+                    stream: true,
+                    stream_options: { include_usage: true },
+                }),
+            },
+            async (response) => response.body
+        );
+
+        if (!body) {
+            throw new NanoGPTError("NanoGPT API returned an empty stream", "NanoGPT returned an empty response. Please try again.");
+        }
+
+        yield* parseEventStream<ChatCompletionChunk>(body, this.timeoutMs);
+    }
+
     async getModels(): Promise<Model[]> {
         const response = await this.request<{ data: Model[] } | Model[]>(
             "/subscription/v1/models"
@@ -287,6 +571,17 @@ class NanoGPTClient {
         return response.data || [];
     }
 
+    async embeddings(input: string | string[], model: string): Promise<EmbeddingsResponse> {
+        const response = await this.request<EmbeddingsResponse>("/v1/embeddings", {
+            method: "POST",
+            body: JSON.stringify({ input, model }),
+        });
+
+        // The API may return items out of order; callers rely on input order
+        response.data.sort((a, b) => a.index - b.index);
+        return response;
+    }
+
     async scrapeUrls(urls: string[], stealthMode: boolean = false): Promise<ScrapeUrlsResponse> {
         return this.request<ScrapeUrlsResponse>("/scrape-urls", {
             method: "POST",
@@ -298,4 +593,4 @@ class NanoGPTClient {
     }
 }
 
-export const nanogpt = new NanoGPTClient(NANOGPT_API_KEY);
+export const nanogpt = new NanoGPTClient();
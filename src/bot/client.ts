@@ -5,6 +5,8 @@ import {
     ChatInputCommandInteraction,
 } from "discord.js";
 import { commands } from "./commands/index.ts";
+import { handleThreadMessage } from "./threads.ts";
+import { handleMentionMessage } from "./mentions.ts";
 
 const DISCORD_TOKEN = process.env.DISCORD_TOKEN;
 
@@ -13,7 +15,11 @@ if (!DISCORD_TOKEN) {
 }
 
 export const client = new Client({
-    intents: [GatewayIntentBits.Guilds],
+    intents: [
+        GatewayIntentBits.Guilds,
+        GatewayIntentBits.GuildMessages,
+        GatewayIntentBits.MessageContent, // Privileged: enable in the Developer Portal
+    ],
 });
 
 client.once(Events.ClientReady, (readyClient) => {
@@ -38,6 +44,24 @@ client.on(Events.InteractionCreate, async (interaction) => {
         return;
     }
 
+    // Route persistent buttons to the command that owns them. Buttons handled
+    // by a message collector (e.g. /models pagination) have no owner prefix.
+    if (interaction.isButton()) {
+        const [commandName] = interaction.customId.split(":");
+        const command = commands.get(commandName);
+
+        if (!command?.handleButton || !interaction.customId.includes(":")) {
+            return;
+        }
+
+        try {
+            await command.handleButton(interaction);
+        } catch (error) {
+            console.error(`[Bot] Button error for ${interaction.customId}:`, error);
+        }
+        return;
+    }
+
     if (!interaction.isChatInputCommand()) return;
 
     const command = commands.get(interaction.commandName);
@@ -68,6 +92,18 @@ client.on(Events.InteractionCreate, async (interaction) => {
     }
 });
 
+client.on(Events.MessageCreate, async (message) => {
+    if (message.author.bot) return;
+
+    try {
+        // Thread conversations take priority over mention triggers
+        if (await handleThreadMessage(message)) return;
+        await handleMentionMessage(message);
+    } catch (error) {
+        console.error("[Bot] Error handling message:", error);
+    }
+});
+
 export async function startBot() {
     console.log("[Bot] Connecting to Discord...");
     await client.login(DISCORD_TOKEN);
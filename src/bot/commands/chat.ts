@@ -1,17 +1,60 @@
 import {
     SlashCommandBuilder,
     ChatInputCommandInteraction,
-    EmbedBuilder,
-    Attachment,
     AutocompleteInteraction,
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
+    ChannelType,
+    MessageComponentInteraction,
+    StringSelectMenuBuilder,
 } from "discord.js";
 import { nanogpt, type ChatMessage, type TextPart, type ImagePart, type WebSearchProvider, type WebSearchVariant } from "../../api/nanogpt.ts";
-import { getDefaultModel, getContext, getAllContexts } from "../../db/index.ts";
+import { formatErrorForUser } from "../../api/errors.ts";
+import {
+    ContextQuotaError,
+    getDefaultModel,
+    createThread,
+    getThread,
+    markThreadStarted,
+    addThreadMessage,
+    getThreadMessages,
+    saveChatReply,
+    getChatReply,
+    deleteChatReply,
+    type ChatReplyRow,
+} from "../../db/index.ts";
 import { canUseFeature } from "../../utils/features.ts";
+import {
+    parseContextNames,
+    resolveContexts,
+    buildContextsPrompt,
+    getContextSizeWarning,
+    getContextChoices,
+    loadChatAttachment,
+    buildAttachmentPrompt,
+    cacheChatAttachment,
+    getCachedChatAttachment,
+    saveChatAttachment,
+    MAX_CONTEXTS_PER_MESSAGE,
+    type ChatAttachment,
+} from "../../utils/contexts.ts";
+import { estimateTokens } from "../../utils/history.ts";
+import { isSupportedFile, getSupportedExtensions } from "../../utils/documents.ts";
+import { streamChatReply, interactionTarget, type StreamedReply } from "../../utils/streaming.ts";
+import { getModelsCached } from "../../utils/models.ts";
+import { collectImageInputs, formatImageCount, loadImageSource, ImageInputError, type ImageSource } from "../../utils/images.ts";
+import type { ContextDocument } from "../../utils/retrieval.ts";
 
 const SYSTEM_PROMPT = process.env.SYSTEM_PROMPT || "You are a helpful AI assistant.";
 
-const VALID_IMAGE_TYPES = ["image/png", "image/jpeg", "image/jpg", "image/webp"];
+// Sent after a reply that stopped at the output limit
+const CONTINUE_PROMPT = "Continue exactly where your last message stopped. Don't repeat anything you already wrote.";
+
+// Select menus hold at most 25 options
+const MODELS_PER_PAGE = 25;
+const MODEL_PICKER_TIMEOUT = 2 * 60 * 1000; // 2 minutes
 
 export const data = new SlashCommandBuilder()
     .setName("chat")
@@ -25,7 +68,7 @@ export const data = new SlashCommandBuilder()
     .addStringOption((option) =>
         option
             .setName("context")
-            .setDescription("Name of a saved context to include")
+            .setDescription("Saved contexts or collections to include, comma-separated")
             .setRequired(false)
             .setAutocomplete(true)
     )
@@ -66,83 +109,66 @@ export const data = new SlashCommandBuilder()
     .addAttachmentOption((option) =>
         option
             .setName("image")
-            .setDescription("Image to analyze (png, jpg, jpeg, webp)")
+            .setDescription("Image to analyze (png, jpg, webp, gif)")
+            .setRequired(false)
+    )
+    .addAttachmentOption((option) =>
+        option
+            .setName("image2")
+            .setDescription("Another image to analyze")
+            .setRequired(false)
+    )
+    .addAttachmentOption((option) =>
+        option
+            .setName("image3")
+            .setDescription("Another image to analyze")
+            .setRequired(false)
+    )
+    .addAttachmentOption((option) =>
+        option
+            .setName("image4")
+            .setDescription("Another image to analyze")
+            .setRequired(false)
+    )
+    .addStringOption((option) =>
+        option
+            .setName("imageurl")
+            .setDescription("HTTPS image URLs to analyze, separated by spaces")
+            .setRequired(false)
+    )
+    .addStringOption((option) =>
+        option
+            .setName("imagesfrom")
+            .setDescription("Link or ID of a message in this channel to take images from")
+            .setRequired(false)
+    )
+    .addAttachmentOption((option) =>
+        option
+            .setName("file")
+            .setDescription("Document to ask about, used for this message only")
             .setRequired(false)
     );
 
 export async function autocomplete(interaction: AutocompleteInteraction) {
-    const focusedValue = interaction.options.getFocused().toLowerCase();
+    const focusedValue = interaction.options.getFocused();
     const guildId = interaction.guildId || "dm";
     const userId = interaction.user.id;
 
     try {
-        // Get both user and server contexts
-        const userContexts = getAllContexts(guildId, userId) || [];
-        const serverContexts = getAllContexts(guildId) || [];
-
-        // Combine and dedupe (user contexts take priority)
-        const allContexts: { name: string; label: string }[] = [];
-        const seenNames = new Set<string>();
-
-        for (const ctx of userContexts) {
-            if (!seenNames.has(ctx.name)) {
-                seenNames.add(ctx.name);
-                allContexts.push({ name: ctx.name, label: `${ctx.name} (personal)` });
-            }
-        }
-
-        for (const ctx of serverContexts) {
-            if (!seenNames.has(ctx.name)) {
-                seenNames.add(ctx.name);
-                allContexts.push({ name: ctx.name, label: `${ctx.name} (server)` });
-            }
-        }
-
-        // Filter by search term and limit to 25
-        const filtered = allContexts
-            .filter(ctx => ctx.name.toLowerCase().includes(focusedValue))
-            .slice(0, 25);
-
-        await interaction.respond(
-            filtered.map(ctx => ({ name: ctx.label, value: ctx.name }))
-        );
+        await interaction.respond(getContextChoices(guildId, userId, focusedValue));
     } catch (error) {
         console.error("[Chat Autocomplete] Error:", error);
         await interaction.respond([]);
     }
 }
 
-async function processImageAttachment(attachment: Attachment): Promise<ImagePart | null> {
-    const contentType = attachment.contentType;
-
-    if (!contentType || !VALID_IMAGE_TYPES.includes(contentType)) {
-        return null;
-    }
-
-    try {
-        const response = await fetch(attachment.url);
-        const buffer = await response.arrayBuffer();
-        const base64 = Buffer.from(buffer).toString("base64");
-
-        return {
-            type: "image_url",
-            image_url: {
-                url: `data:${contentType};base64,${base64}`,
-            },
-        };
-    } catch (error) {
-        console.error("[Chat] Error processing image:", error);
-        return null;
-    }
-}
-
 export async function execute(interaction: ChatInputCommandInteraction) {
     const userMessage = interaction.options.getString("message", true);
     const contextName = interaction.options.getString("context");
     const modelOverride = interaction.options.getString("model");
     const searchProvider = interaction.options.getString("searchprovider") as WebSearchProvider | null;
     const searchVariant = interaction.options.getString("searchvariant") as WebSearchVariant | null;
-    const imageAttachment = interaction.options.getAttachment("image");
+    const fileAttachment = interaction.options.getAttachment("file");
 
     const guildId = interaction.guildId || "dm";
     const userId = interaction.user.id;
@@ -159,6 +185,15 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         }
     }
 
+    // Validate the file type before paying for a download
+    if (fileAttachment && !isSupportedFile(fileAttachment.name)) {
+        await interaction.reply({
+            content: `Unsupported file type. Supported types: ${getSupportedExtensions().join(", ")}`,
+            ephemeral: true,
+        });
+        return;
+    }
+
     // Defer the reply since API calls can take time
     await interaction.deferReply();
 
@@ -166,130 +201,649 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         // Determine the model to use
         const model = modelOverride || getDefaultModel(guildId, userId);
 
-        // Build the system prompt with optional context
-        let systemContent = SYSTEM_PROMPT;
+        // Images are checked against the model before anything is downloaded
+        const { parts: imageParts, sources: imageSources } = await collectImageInputs(interaction, model);
 
+        let contexts: ContextDocument[] = [];
         if (contextName) {
-            // Look for user context first, then fall back to server context
-            const context = getContext(guildId, contextName, userId);
-            if (context) {
-                systemContent += `\n\n--- CONTEXT: ${context.name} (${context.source_filename}) ---\n${context.content}`;
-            } else {
+            // Look for user contexts first, then fall back to server contexts and collections
+            const resolved = resolveContexts(guildId, parseContextNames(contextName), userId);
+            if (resolved.missing.length > 0) {
                 await interaction.editReply({
-                    content: `Context "${contextName}" not found. Use /context list to see available contexts.`,
+                    content: `Context "${resolved.missing.join('", "')}" not found. Use /context list to see available contexts.`,
                 });
                 return;
             }
-        }
-
-        // Build messages array
-        const messages: ChatMessage[] = [
-            { role: "system", content: systemContent },
-        ];
 
-        // Process image if provided
-        if (imageAttachment) {
-            const imagePart = await processImageAttachment(imageAttachment);
-
-            if (!imagePart) {
+            if (resolved.contexts.length > MAX_CONTEXTS_PER_MESSAGE) {
                 await interaction.editReply({
-                    content: `Invalid image format. Supported formats: ${VALID_IMAGE_TYPES.join(", ")}`,
+                    content: `Too many contexts (${resolved.contexts.length}). You can attach up to ${MAX_CONTEXTS_PER_MESSAGE} documents per message.`,
                 });
                 return;
             }
+            contexts = resolved.contexts;
+        }
 
-            // Multipart message with text and image
-            const contentParts: (TextPart | ImagePart)[] = [
-                { type: "text", text: userMessage },
-                imagePart,
-            ];
-            messages.push({ role: "user", content: contentParts });
-        } else {
-            // Simple text message
-            messages.push({ role: "user", content: userMessage });
+        // An attached file is parsed for this message only and not stored
+        const file = fileAttachment ? await loadChatAttachment(fileAttachment) : null;
+
+        const request: ChatRequest = {
+            model,
+            prompt: userMessage,
+            contextName,
+            images: imageSources,
+            file: fileAttachment ? { name: fileAttachment.name, url: fileAttachment.url } : null,
+            turns: [],
+            searchProvider,
+            searchVariant,
+        };
+
+        const prompt = await buildChatPrompt(request, { contexts, file, imageParts });
+        const { reply, messageId } = await streamAndSaveReply(interaction, request, prompt);
+
+        if (file) {
+            cacheChatAttachment(messageId, file);
         }
 
-        // Make the API call
-        const response = await nanogpt.chat(messages, model, {
-            webSearch: searchProvider || undefined,
-            webSearchVariant: searchVariant || undefined
+        await addReplyComponents(interaction, request, reply, messageId, true);
+    } catch (error) {
+        console.error("[Chat] Error:", error);
+
+        await interaction.editReply({
+            content: error instanceof ImageInputError ? error.message : formatErrorForUser(error),
         });
+    }
+}
 
-        const assistantMessage =
-            response.choices[0]?.message?.content || "No response received.";
+/**
+ * Everything needed to send a /chat prompt again. Contexts, the attached file
+ * and images are kept as references and loaded again by loadChatInputs, so
+ * stored replies stay small.
+ */
+interface ChatRequest {
+    model: string;
+    prompt: string;
+    contextName: string | null;
+    images: ImageSource[];
+    file: { name: string; url: string } | null;
+    turns: ChatMessage[]; // Text turns after the prompt, from continuing earlier replies
+    searchProvider: WebSearchProvider | null;
+    searchVariant: WebSearchVariant | null;
+}
+
+/**
+ * The loaded contexts, file and images a request refers to.
+ */
+interface ChatInputs {
+    contexts: ContextDocument[];
+    file: ChatAttachment | null;
+    imageParts: ImagePart[];
+}
+
+interface ChatPrompt {
+    messages: ChatMessage[];
+    footerDetails: string; // Footer text after "Model: <model>"
+}
+
+/**
+ * Stored request that can no longer be sent as it was. The message is safe to show users.
+ */
+class ReplyUnavailableError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ReplyUnavailableError";
+    }
+}
+
+function toChatRequest(saved: ChatReplyRow): ChatRequest {
+    return {
+        model: saved.model,
+        prompt: saved.prompt,
+        contextName: saved.context_name,
+        images: JSON.parse(saved.image_sources),
+        file: saved.file_name && saved.file_url ? { name: saved.file_name, url: saved.file_url } : null,
+        turns: JSON.parse(saved.turns),
+        searchProvider: saved.search_provider as WebSearchProvider | null,
+        searchVariant: saved.search_variant as WebSearchVariant | null,
+    };
+}
 
-        // Build footer with model and search info
-        let footerText = `Model: ${model}`;
-        if (searchProvider) {
-            const variantText = searchVariant ? `/${searchVariant}` : "";
-            footerText += ` | Search: ${searchProvider}${variantText}`;
+/**
+ * Load the contexts, file and images of a stored request again. Contexts
+ * deleted since are skipped; Discord attachment links expire, so a file or
+ * image that can't be downloaded any more fails with ReplyUnavailableError.
+ */
+async function loadChatInputs(request: ChatRequest, guildId: string, userId: string): Promise<ChatInputs> {
+    const contexts = request.contextName
+        ? resolveContexts(guildId, parseContextNames(request.contextName), userId).contexts
+        : [];
+
+    let file: ChatAttachment | null = null;
+    if (request.file) {
+        try {
+            file = await loadChatAttachment(request.file);
+        } catch (error) {
+            console.error("[Chat] Error reloading attached file:", error);
+            throw new ReplyUnavailableError(`The attached file "${request.file.name}" is no longer available. Run /chat again with the file.`);
         }
-        if (imageAttachment) {
-            footerText += " | Image";
+    }
+
+    const imageParts: ImagePart[] = [];
+    for (const source of request.images) {
+        try {
+            imageParts.push(await loadImageSource(source));
+        } catch (error) {
+            console.error("[Chat] Error reloading image:", error);
+            throw new ReplyUnavailableError("The images of this prompt are no longer available. Run /chat again with the images.");
         }
+    }
+
+    return { contexts, file, imageParts };
+}
+
+/**
+ * Build the messages for a request from its loaded inputs: the system prompt
+ * with contexts and the attached file, the prompt with its images, and any
+ * continuation turns.
+ */
+async function buildChatPrompt(request: ChatRequest, inputs: ChatInputs): Promise<ChatPrompt> {
+    let systemContent = SYSTEM_PROMPT;
+    let citations: string | null = null;
+    let estimatedTokens = 0;
+
+    if (inputs.contexts.length > 0) {
+        const contextPrompt = await buildContextsPrompt(inputs.contexts, request.prompt);
+        systemContent += contextPrompt.text;
+        citations = contextPrompt.citations;
+        estimatedTokens += contextPrompt.estimatedTokens;
+    }
+
+    if (inputs.file) {
+        const filePrompt = buildAttachmentPrompt(inputs.file);
+        systemContent += filePrompt;
+        estimatedTokens += estimateTokens(filePrompt);
+    }
+
+    const sizeWarning = estimatedTokens > 0 ? await getContextSizeWarning(estimatedTokens, request.model) : null;
+
+    // Build messages array
+    const messages: ChatMessage[] = [
+        { role: "system", content: systemContent },
+    ];
+
+    // Add images if provided
+    if (inputs.imageParts.length > 0) {
+        // Multipart message with text and images
+        const contentParts: (TextPart | ImagePart)[] = [
+            { type: "text", text: request.prompt },
+            ...inputs.imageParts,
+        ];
+        messages.push({ role: "user", content: contentParts });
+    } else {
+        // Simple text message
+        messages.push({ role: "user", content: request.prompt });
+    }
+
+    messages.push(...request.turns);
+
+    // Build footer with search, image, file and source info
+    let footerDetails = "";
+    if (request.searchProvider) {
+        const variantText = request.searchVariant ? `/${request.searchVariant}` : "";
+        footerDetails += ` | Search: ${request.searchProvider}${variantText}`;
+    }
+    if (inputs.imageParts.length > 0) {
+        footerDetails += ` | ${formatImageCount(inputs.imageParts.length)}`;
+    }
+    if (inputs.file) {
+        footerDetails += ` | File: ${inputs.file.filename}${inputs.file.truncated ? " (truncated)" : ""}`;
+    }
+    if (citations) {
+        footerDetails += ` | Sources: ${citations}`;
+    }
+    if (sizeWarning) {
+        footerDetails += ` | ${sizeWarning}`;
+    }
+
+    return { messages, footerDetails };
+}
+
+type ReplyInteraction = ChatInputCommandInteraction | MessageComponentInteraction;
+
+/**
+ * Stream a completion into the deferred reply of an interaction and store the
+ * request under the reply's message id so the reply buttons can send it again.
+ */
+async function streamAndSaveReply(
+    interaction: ReplyInteraction,
+    request: ChatRequest,
+    prompt: ChatPrompt,
+    label?: string
+): Promise<{ reply: StreamedReply; messageId: string }> {
+    let footerText = `Model: ${request.model}${prompt.footerDetails}`;
+    if (label) {
+        footerText += ` | ${label}`;
+    }
+
+    // Stream the response, progressively editing the reply
+    const stream = nanogpt.chatStream(prompt.messages, request.model, {
+        webSearch: request.searchProvider || undefined,
+        webSearchVariant: request.searchVariant || undefined
+    });
+
+    const target = interactionTarget(interaction);
+    const reply = await streamChatReply(target, stream, footerText);
+    const replyMessage = await interaction.fetchReply();
+
+    saveChatReply({
+        message_id: replyMessage.id,
+        guild_id: interaction.guildId || "dm",
+        channel_id: interaction.channelId || replyMessage.channelId,
+        user_id: interaction.user.id,
+        model: request.model,
+        prompt: request.prompt,
+        context_name: request.contextName,
+        image_sources: JSON.stringify(request.images),
+        file_name: request.file?.name ?? null,
+        file_url: request.file?.url ?? null,
+        turns: JSON.stringify(request.turns),
+        response: reply.content,
+        finish_reason: reply.finishReason,
+        search_provider: request.searchProvider,
+        search_variant: request.searchVariant,
+        part_ids: JSON.stringify(target.followUpIds),
+    });
+
+    return { reply, messageId: replyMessage.id };
+}
 
-        // Handle long responses by splitting into chunks
-        const MAX_LENGTH = 4000; // Leave room for embed formatting
+/**
+ * Offer to continue the exchange in a thread where the channel supports it,
+ * then attach the reply buttons.
+ */
+async function addReplyComponents(
+    interaction: ReplyInteraction,
+    request: ChatRequest,
+    reply: StreamedReply,
+    messageId: string,
+    offerThread: boolean
+) {
+    const channelType = interaction.channel?.type;
+    const canThread = offerThread
+        && interaction.inGuild()
+        && (channelType === ChannelType.GuildText || channelType === ChannelType.GuildAnnouncement);
+
+    if (canThread) {
+        createThread(
+            messageId,
+            interaction.guildId,
+            interaction.channelId,
+            interaction.user.id,
+            request.model,
+            request.contextName,
+            request.searchProvider,
+            request.searchVariant
+        );
+        addThreadMessage(messageId, "user", request.prompt, interaction.user.id, interaction.user.displayName);
+        addThreadMessage(messageId, "assistant", reply.content);
+    }
+
+    await interaction.editReply({
+        components: createReplyComponents({
+            canContinue: reply.finishReason === "length",
+            thread: canThread,
+            saveFile: getCachedChatAttachment(messageId) !== null,
+        }),
+    });
+}
+
+function createReplyComponents(options: { canContinue: boolean; thread: boolean; saveFile: boolean }): ActionRowBuilder<ButtonBuilder>[] {
+    const actions = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId("chat:regenerate")
+            .setLabel("Regenerate")
+            .setStyle(ButtonStyle.Secondary)
+    );
+
+    // Only offered when the model stopped at its output limit
+    if (options.canContinue) {
+        actions.addComponents(
+            new ButtonBuilder()
+                .setCustomId("chat:continue")
+                .setLabel("Continue")
+                .setStyle(ButtonStyle.Primary)
+        );
+    }
+
+    actions.addComponents(
+        new ButtonBuilder()
+            .setCustomId("chat:model")
+            .setLabel("Try another model")
+            .setStyle(ButtonStyle.Secondary),
+        new ButtonBuilder()
+            .setCustomId("chat:delete")
+            .setLabel("Delete")
+            .setStyle(ButtonStyle.Danger)
+    );
+
+    const extras: ButtonBuilder[] = [];
+
+    if (options.thread) {
+        extras.push(
+            new ButtonBuilder()
+                .setCustomId("chat:thread")
+                .setLabel("Continue in thread")
+                .setStyle(ButtonStyle.Secondary)
+        );
+    }
+    if (options.saveFile) {
+        extras.push(
+            new ButtonBuilder()
+                .setCustomId("chat:save-file")
+                .setLabel("Save this as a context")
+                .setStyle(ButtonStyle.Secondary)
+        );
+    }
+
+    return extras.length > 0 ? [actions, new ActionRowBuilder<ButtonBuilder>().addComponents(extras)] : [actions];
+}
+
+export async function handleButton(interaction: ButtonInteraction) {
+    switch (interaction.customId) {
+        case "chat:thread":
+            await handleStartThread(interaction);
+            break;
+        case "chat:save-file":
+            await handleSaveFile(interaction);
+            break;
+        case "chat:regenerate":
+        case "chat:continue":
+        case "chat:model":
+        case "chat:delete":
+            await handleReplyAction(interaction);
+            break;
+    }
+}
+
+async function handleStartThread(interaction: ButtonInteraction) {
+    const thread = getThread(interaction.message.id);
+
+    if (!thread) {
+        await interaction.reply({
+            content: "This conversation is no longer available to continue.",
+            ephemeral: true,
+        });
+        return;
+    }
 
-        if (assistantMessage.length <= MAX_LENGTH) {
-            const embed = new EmbedBuilder()
-                .setDescription(assistantMessage)
-                .setFooter({ text: footerText })
-                .setTimestamp();
+    // Only the original user can start the thread
+    if (interaction.user.id !== thread.user_id) {
+        await interaction.reply({
+            content: "Only the command author can use these buttons.",
+            ephemeral: true,
+        });
+        return;
+    }
 
-            await interaction.editReply({ embeds: [embed] });
+    if (thread.started_at) {
+        await interaction.reply({
+            content: `This conversation already continues in <#${thread.id}>.`,
+            ephemeral: true,
+        });
+        return;
+    }
+
+    try {
+        // Name the thread after the prompt that started it
+        const prompt = getThreadMessages(thread.id)[0]?.content || "";
+        const name = prompt.replace(/\s+/g, " ").trim().substring(0, 90);
+
+        const created = await interaction.message.startThread({
+            name: name || "Conversation",
+            autoArchiveDuration: 1440,
+        });
+
+        markThreadStarted(thread.id);
+
+        // The other buttons stay; the save button only while the attached file is still cached
+        const saved = getChatReply(interaction.message.id);
+        await interaction.update({
+            components: createReplyComponents({
+                canContinue: saved?.finish_reason === "length",
+                thread: false,
+                saveFile: getCachedChatAttachment(interaction.message.id) !== null,
+            }),
+        });
+        await created.send({
+            content: `<@${interaction.user.id}> Conversation continued here with **${thread.model}**. Send a message in this thread to keep chatting; everyone here shares the same history.`,
+            allowedMentions: { users: [interaction.user.id] },
+        });
+    } catch (error) {
+        console.error("[Chat Thread] Error:", error);
+
+        const errorReply = {
+            content: "Failed to create a thread. Make sure I have permission to create public threads here.",
+            ephemeral: true,
+        };
+
+        if (interaction.replied || interaction.deferred) {
+            await interaction.followUp(errorReply);
         } else {
-            // Split into multiple messages
-            const chunks: string[] = [];
-            let remaining = assistantMessage;
-
-            while (remaining.length > 0) {
-                if (remaining.length <= MAX_LENGTH) {
-                    chunks.push(remaining);
-                    break;
-                }
-
-                // Find a good break point
-                let breakPoint = remaining.lastIndexOf("\n\n", MAX_LENGTH);
-                if (breakPoint === -1 || breakPoint < MAX_LENGTH / 2) {
-                    breakPoint = remaining.lastIndexOf("\n", MAX_LENGTH);
-                }
-                if (breakPoint === -1 || breakPoint < MAX_LENGTH / 2) {
-                    breakPoint = remaining.lastIndexOf(" ", MAX_LENGTH);
-                }
-                if (breakPoint === -1) {
-                    breakPoint = MAX_LENGTH;
-                }
-
-                chunks.push(remaining.substring(0, breakPoint));
-                remaining = remaining.substring(breakPoint).trim();
-            }
+            await interaction.reply(errorReply);
+        }
+    }
+}
+
+async function handleSaveFile(interaction: ButtonInteraction) {
+    await interaction.deferReply({ ephemeral: true });
+
+    try {
+        // Saved to the clicker's personal contexts, so anyone can use the button
+        const content = await saveChatAttachment(interaction.message.id, interaction.guildId || "dm", interaction.user.id);
+        await interaction.editReply({ content });
+    } catch (error) {
+        console.error("[Chat Save File] Error:", error);
 
-            // Send first chunk as the reply
-            const firstEmbed = new EmbedBuilder()
-                .setDescription(chunks[0])
-                .setFooter({ text: `${footerText} (1/${chunks.length})` })
-                .setTimestamp();
+        await interaction.editReply({
+            content: error instanceof ContextQuotaError ? error.message : formatErrorForUser(error),
+        });
+    }
+}
 
-            await interaction.editReply({ embeds: [firstEmbed] });
+async function handleReplyAction(interaction: ButtonInteraction) {
+    const saved = getChatReply(interaction.message.id);
 
-            // Send remaining chunks as follow-up messages
-            for (let i = 1; i < chunks.length; i++) {
-                const embed = new EmbedBuilder()
-                    .setDescription(chunks[i])
-                    .setFooter({ text: `${footerText} (${i + 1}/${chunks.length})` });
+    if (!saved) {
+        await interaction.reply({
+            content: "This reply is no longer available. Run /chat again.",
+            ephemeral: true,
+        });
+        return;
+    }
 
-                await interaction.followUp({ embeds: [embed] });
+    // Every action sends another request or removes the reply, so only the author may use them
+    if (interaction.user.id !== saved.user_id) {
+        await interaction.reply({
+            content: "Only the command author can use these buttons.",
+            ephemeral: true,
+        });
+        return;
+    }
+
+    const request = toChatRequest(saved);
+
+    switch (interaction.customId) {
+        case "chat:regenerate":
+            await sendNewReply(interaction, request, "Regenerated", true);
+            break;
+        case "chat:continue":
+            if (saved.finish_reason !== "length") {
+                await interaction.reply({ content: "This reply is already complete.", ephemeral: true });
+                return;
             }
+            request.turns = [
+                ...request.turns,
+                { role: "assistant", content: saved.response },
+                { role: "user", content: CONTINUE_PROMPT },
+            ];
+            await sendNewReply(interaction, request, "Continued", false);
+            break;
+        case "chat:model":
+            await handleRetryWithModel(interaction, saved, request);
+            break;
+        case "chat:delete":
+            await handleDelete(interaction, saved);
+            break;
+    }
+}
+
+/**
+ * Send a request again as a new public reply under the clicked one, with its
+ * contexts, file and images loaded again.
+ */
+async function sendNewReply(
+    interaction: MessageComponentInteraction,
+    request: ChatRequest,
+    label: string,
+    offerThread: boolean
+) {
+    await interaction.deferReply();
+
+    try {
+        const inputs = await loadChatInputs(request, interaction.guildId || "dm", interaction.user.id);
+        const prompt = await buildChatPrompt(request, inputs);
+        const { reply, messageId } = await streamAndSaveReply(interaction, request, prompt, label);
+
+        // The reloaded file can be saved from the new reply too
+        if (inputs.file) {
+            cacheChatAttachment(messageId, inputs.file);
         }
-    } catch (error) {
-        console.error("[Chat] Error:", error);
 
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+        await addReplyComponents(interaction, request, reply, messageId, offerThread);
+    } catch (error) {
+        console.error("[Chat Reply] Error:", error);
 
         await interaction.editReply({
-            content: `An error occurred: ${errorMessage}`,
+            content: error instanceof ReplyUnavailableError ? error.message : formatErrorForUser(error),
         });
     }
 }
 
+function createModelPicker(models: string[], page: number): ActionRowBuilder<StringSelectMenuBuilder | ButtonBuilder>[] {
+    const totalPages = Math.ceil(models.length / MODELS_PER_PAGE);
+    const options = models
+        .slice(page * MODELS_PER_PAGE, (page + 1) * MODELS_PER_PAGE)
+        .map((model) => ({ label: model.substring(0, 100), value: model }));
+
+    const rows: ActionRowBuilder<StringSelectMenuBuilder | ButtonBuilder>[] = [
+        new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+            new StringSelectMenuBuilder()
+                .setCustomId("chat_model_select")
+                .setPlaceholder(`Pick a model (page ${page + 1}/${totalPages})`)
+                .addOptions(options)
+        ),
+    ];
+
+    if (totalPages > 1) {
+        rows.push(
+            new ActionRowBuilder<ButtonBuilder>().addComponents(
+                new ButtonBuilder()
+                    .setCustomId("chat_model_prev")
+                    .setLabel("◀ Previous")
+                    .setStyle(ButtonStyle.Secondary)
+                    .setDisabled(page === 0),
+                new ButtonBuilder()
+                    .setCustomId("chat_model_next")
+                    .setLabel("Next ▶")
+                    .setStyle(ButtonStyle.Secondary)
+                    .setDisabled(page === totalPages - 1)
+            )
+        );
+    }
+
+    return rows;
+}
+
+/**
+ * Let the author pick another model from an ephemeral, paginated select menu
+ * and send the same request to it as a new reply.
+ */
+async function handleRetryWithModel(interaction: ButtonInteraction, saved: ChatReplyRow, request: ChatRequest) {
+    await interaction.deferReply({ ephemeral: true });
+
+    // Models known not to accept images are left out when the prompt has some
+    const needsVision = request.images.length > 0;
+    const models = (await getModelsCached())
+        .filter((model) => !(needsVision && model.capabilities?.vision === false))
+        .map((model) => model.id || model.name || "")
+        .filter((model) => model && model !== saved.model);
+
+    if (models.length === 0) {
+        await interaction.editReply({ content: "No other models are available right now." });
+        return;
+    }
+
+    let page = 0;
+    const picker = await interaction.editReply({
+        content: `Send this prompt to another model instead of **${saved.model}**:`,
+        components: createModelPicker(models, page),
+    });
+
+    const collector = picker.createMessageComponentCollector({ time: MODEL_PICKER_TIMEOUT });
+
+    collector.on("collect", async (component) => {
+        try {
+            if (component.isStringSelectMenu()) {
+                collector.stop("selected");
+                const model = component.values[0];
+
+                await interaction.editReply({ content: `Retrying with **${model}**…`, components: [] });
+                await sendNewReply(component, { ...request, model }, "Retried", true);
+                return;
+            }
+
+            if (component.customId === "chat_model_prev") {
+                page = Math.max(0, page - 1);
+            } else if (component.customId === "chat_model_next") {
+                page = Math.min(Math.ceil(models.length / MODELS_PER_PAGE) - 1, page + 1);
+            }
+
+            await component.update({ components: createModelPicker(models, page) });
+        } catch (error) {
+            console.error("[Chat Retry] Error:", error);
+        }
+    });
+
+    collector.on("end", async (_collected, reason) => {
+        if (reason === "selected") return;
+        try {
+            await interaction.editReply({ content: "No model picked.", components: [] });
+        } catch {
+            // Ephemeral reply may already be gone
+        }
+    });
+}
+
+/**
+ * Delete every message of a reply along with its stored request.
+ */
+async function handleDelete(interaction: ButtonInteraction, saved: ChatReplyRow) {
+    await interaction.deferUpdate();
+
+    try {
+        const partIds: string[] = JSON.parse(saved.part_ids);
+        for (const id of partIds) {
+            // Parts someone already removed are skipped
+            await interaction.message.channel.messages.delete(id).catch(() => {});
+        }
+        await interaction.message.delete();
+        deleteChatReply(saved.message_id);
+    } catch (error) {
+        console.error("[Chat Delete] Error:", error);
+
+        await interaction.followUp({
+            content: "Failed to delete the reply. Make sure I can still see this channel.",
+            ephemeral: true,
+        });
+    }
+}
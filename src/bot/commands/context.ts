@@ -3,19 +3,51 @@ import {
     ChatInputCommandInteraction,
     EmbedBuilder,
     Attachment,
+    AttachmentBuilder,
     PermissionFlagsBits,
     GuildMember,
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonStyle,
+    StringSelectMenuBuilder,
+    ModalBuilder,
+    TextInputBuilder,
+    TextInputStyle,
 } from "discord.js";
 import {
     addContext,
     getContext,
     getAllContexts,
     removeContext,
+    getContextTags,
+    updateContextTags,
+    getCollection,
+    getAllCollections,
+    createCollection,
+    deleteCollection,
+    addToCollection,
+    removeFromCollection,
+    getCollectionContexts,
+    updateContext,
+    getContextVersions,
+    getContextVersion,
+    getContextQuotas,
+    getContextUsage,
+    setContextQuota,
+    ContextQuotaError,
+    type ContextQuotaKey,
 } from "../../db/index.ts";
+import { createUnifiedDiff } from "../../utils/diff.ts";
+import { formatErrorForUser } from "../../api/errors.ts";
+import { searchContext, getChunkPages, formatPageRange } from "../../utils/retrieval.ts";
+import { indexAndEmbedContext, scrapePageForContext, MAX_CONTEXT_CONTENT_SIZE } from "../../utils/contexts.ts";
+import { canUseFeature } from "../../utils/features.ts";
 import {
     downloadAndParse,
     isSupportedFile,
     getSupportedExtensions,
+    findPageMarkers,
+    isConvertedFileType,
 } from "../../utils/documents.ts";
 
 const SCOPE_CHOICES = [
@@ -23,6 +55,13 @@ const SCOPE_CHOICES = [
     { name: "Server (shared)", value: "server" },
 ] as const;
 
+const QUOTA_CHOICES: { name: string; value: ContextQuotaKey }[] = [
+    { name: "Documents per user", value: "user_documents" },
+    { name: "Characters per user", value: "user_characters" },
+    { name: "Documents per server", value: "guild_documents" },
+    { name: "Characters per server", value: "guild_characters" },
+];
+
 // Whitelist of user IDs allowed to manage server contexts (comma-separated in env)
 const CONTEXT_ADMIN_USERS = (process.env.CONTEXT_ADMIN_USERS || "").split(",").filter(Boolean);
 
@@ -41,6 +80,17 @@ function canManageServerContext(interaction: ChatInputCommandInteraction): boole
     return false;
 }
 
+const MAX_COLLECTION_NAME_LENGTH = 50;
+const MAX_TAG_LENGTH = 30;
+
+function parseTags(value: string | null): string[] {
+    if (!value) return [];
+    return value
+        .split(",")
+        .map((tag) => tag.trim().toLowerCase().substring(0, MAX_TAG_LENGTH))
+        .filter(Boolean);
+}
+
 export const data = new SlashCommandBuilder()
     .setName("context")
     .setDescription("Manage document contexts for AI conversations")
@@ -51,7 +101,31 @@ export const data = new SlashCommandBuilder()
             .addAttachmentOption((option) =>
                 option
                     .setName("file")
-                    .setDescription("The document to add (PDF, TXT, MD, etc.)")
+                    .setDescription("The document, source file or .zip/.tar.gz archive to add")
+                    .setRequired(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("A name for this context")
+                    .setRequired(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("scope")
+                    .setDescription("Who can access this context (default: user)")
+                    .setRequired(false)
+                    .addChoices(...SCOPE_CHOICES)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("add-url")
+            .setDescription("Scrape a web page and save it as context")
+            .addStringOption((option) =>
+                option
+                    .setName("url")
+                    .setDescription("The page to scrape")
                     .setRequired(true)
             )
             .addStringOption((option) =>
@@ -67,11 +141,35 @@ export const data = new SlashCommandBuilder()
                     .setRequired(false)
                     .addChoices(...SCOPE_CHOICES)
             )
+            .addBooleanOption((option) =>
+                option
+                    .setName("stealth")
+                    .setDescription("Use stealth mode for tougher targets (5x cost)")
+                    .setRequired(false)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("refresh")
+            .setDescription("Re-scrape a context added from a URL and update its content")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("The name of the context to refresh")
+                    .setRequired(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("scope")
+                    .setDescription("Where to look for the context (default: user)")
+                    .setRequired(false)
+                    .addChoices(...SCOPE_CHOICES)
+            )
     )
     .addSubcommand((subcommand) =>
         subcommand
             .setName("list")
-            .setDescription("List all saved contexts")
+            .setDescription("List all saved contexts and collections")
             .addStringOption((option) =>
                 option
                     .setName("scope")
@@ -79,6 +177,12 @@ export const data = new SlashCommandBuilder()
                     .setRequired(false)
                     .addChoices(...SCOPE_CHOICES)
             )
+            .addStringOption((option) =>
+                option
+                    .setName("tag")
+                    .setDescription("Only list contexts with this tag")
+                    .setRequired(false)
+            )
     )
     .addSubcommand((subcommand) =>
         subcommand
@@ -97,6 +201,304 @@ export const data = new SlashCommandBuilder()
                     .setRequired(false)
                     .addChoices(...SCOPE_CHOICES)
             )
+            .addIntegerOption((option) =>
+                option
+                    .setName("page")
+                    .setDescription("Open at this page of a PDF context")
+                    .setRequired(false)
+                    .setMinValue(1)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("find")
+                    .setDescription("Open at the first page containing this text")
+                    .setRequired(false)
+                    .setMaxLength(100)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("search")
+            .setDescription("Find the passages of a context that best match a query")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("The name of the context to search")
+                    .setRequired(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("query")
+                    .setDescription("What to look for")
+                    .setRequired(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("scope")
+                    .setDescription("Where to look for the context (default: user)")
+                    .setRequired(false)
+                    .addChoices(...SCOPE_CHOICES)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("update")
+            .setDescription("Upload a new version of a context (previous versions are kept)")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("The name of the context to update")
+                    .setRequired(true)
+            )
+            .addAttachmentOption((option) =>
+                option
+                    .setName("file")
+                    .setDescription("The new version of the document")
+                    .setRequired(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("scope")
+                    .setDescription("Where to look for the context (default: user)")
+                    .setRequired(false)
+                    .addChoices(...SCOPE_CHOICES)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("history")
+            .setDescription("List the versions of a context")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("The name of the context")
+                    .setRequired(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("scope")
+                    .setDescription("Where to look for the context (default: user)")
+                    .setRequired(false)
+                    .addChoices(...SCOPE_CHOICES)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("rollback")
+            .setDescription("Restore an earlier version of a context as a new version")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("The name of the context")
+                    .setRequired(true)
+            )
+            .addIntegerOption((option) =>
+                option
+                    .setName("version")
+                    .setDescription("The version to restore (see /context history)")
+                    .setRequired(true)
+                    .setMinValue(1)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("scope")
+                    .setDescription("Where to look for the context (default: user)")
+                    .setRequired(false)
+                    .addChoices(...SCOPE_CHOICES)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("diff")
+            .setDescription("Show a unified diff between two versions of a context")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("The name of the context")
+                    .setRequired(true)
+            )
+            .addIntegerOption((option) =>
+                option
+                    .setName("from")
+                    .setDescription("Older version (default: the one before the current)")
+                    .setRequired(false)
+                    .setMinValue(1)
+            )
+            .addIntegerOption((option) =>
+                option
+                    .setName("to")
+                    .setDescription("Newer version (default: the current)")
+                    .setRequired(false)
+                    .setMinValue(1)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("scope")
+                    .setDescription("Where to look for the context (default: user)")
+                    .setRequired(false)
+                    .addChoices(...SCOPE_CHOICES)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("tag")
+            .setDescription("Add or remove tags on a context")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("The name of the context to tag")
+                    .setRequired(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("add")
+                    .setDescription("Tags to add, comma-separated")
+                    .setRequired(false)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("remove")
+                    .setDescription("Tags to remove, comma-separated")
+                    .setRequired(false)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("scope")
+                    .setDescription("Where to look for the context (default: user)")
+                    .setRequired(false)
+                    .addChoices(...SCOPE_CHOICES)
+            )
+    )
+    .addSubcommandGroup((group) =>
+        group
+            .setName("collection")
+            .setDescription("Group contexts into collections that can be attached to a chat together")
+            .addSubcommand((subcommand) =>
+                subcommand
+                    .setName("create")
+                    .setDescription("Create a collection")
+                    .addStringOption((option) =>
+                        option
+                            .setName("collection")
+                            .setDescription("A name for the collection")
+                            .setRequired(true)
+                            .setMaxLength(MAX_COLLECTION_NAME_LENGTH)
+                    )
+                    .addStringOption((option) =>
+                        option
+                            .setName("scope")
+                            .setDescription("Who can use this collection (default: user)")
+                            .setRequired(false)
+                            .addChoices(...SCOPE_CHOICES)
+                    )
+            )
+            .addSubcommand((subcommand) =>
+                subcommand
+                    .setName("add")
+                    .setDescription("Add a context to a collection")
+                    .addStringOption((option) =>
+                        option
+                            .setName("collection")
+                            .setDescription("The collection to add to")
+                            .setRequired(true)
+                    )
+                    .addStringOption((option) =>
+                        option
+                            .setName("name")
+                            .setDescription("The context to add")
+                            .setRequired(true)
+                    )
+                    .addStringOption((option) =>
+                        option
+                            .setName("scope")
+                            .setDescription("Scope of the collection (default: user)")
+                            .setRequired(false)
+                            .addChoices(...SCOPE_CHOICES)
+                    )
+            )
+            .addSubcommand((subcommand) =>
+                subcommand
+                    .setName("remove")
+                    .setDescription("Remove a context from a collection")
+                    .addStringOption((option) =>
+                        option
+                            .setName("collection")
+                            .setDescription("The collection to remove from")
+                            .setRequired(true)
+                    )
+                    .addStringOption((option) =>
+                        option
+                            .setName("name")
+                            .setDescription("The context to remove")
+                            .setRequired(true)
+                    )
+                    .addStringOption((option) =>
+                        option
+                            .setName("scope")
+                            .setDescription("Scope of the collection (default: user)")
+                            .setRequired(false)
+                            .addChoices(...SCOPE_CHOICES)
+                    )
+            )
+            .addSubcommand((subcommand) =>
+                subcommand
+                    .setName("delete")
+                    .setDescription("Delete a collection (its contexts are kept)")
+                    .addStringOption((option) =>
+                        option
+                            .setName("collection")
+                            .setDescription("The collection to delete")
+                            .setRequired(true)
+                    )
+                    .addStringOption((option) =>
+                        option
+                            .setName("scope")
+                            .setDescription("Scope of the collection (default: user)")
+                            .setRequired(false)
+                            .addChoices(...SCOPE_CHOICES)
+                    )
+            )
+    )
+    .addSubcommandGroup((group) =>
+        group
+            .setName("quota")
+            .setDescription("Context storage quotas for this server")
+            .addSubcommand((subcommand) =>
+                subcommand
+                    .setName("view")
+                    .setDescription("Show your context storage usage and this server's quotas")
+            )
+            .addSubcommand((subcommand) =>
+                subcommand
+                    .setName("set")
+                    .setDescription("Override a quota for this server (admin only)")
+                    .addStringOption((option) =>
+                        option
+                            .setName("limit")
+                            .setDescription("The quota to change")
+                            .setRequired(true)
+                            .addChoices(...QUOTA_CHOICES)
+                    )
+                    .addIntegerOption((option) =>
+                        option
+                            .setName("value")
+                            .setDescription("The new limit (0 for unlimited)")
+                            .setRequired(true)
+                            .setMinValue(0)
+                    )
+            )
+            .addSubcommand((subcommand) =>
+                subcommand
+                    .setName("reset")
+                    .setDescription("Restore the default for a quota, or all quotas (admin only)")
+                    .addStringOption((option) =>
+                        option
+                            .setName("limit")
+                            .setDescription("The quota to reset (default: all)")
+                            .setRequired(false)
+                            .addChoices(...QUOTA_CHOICES)
+                    )
+            )
     )
     .addSubcommand((subcommand) =>
         subcommand
@@ -118,27 +520,98 @@ export const data = new SlashCommandBuilder()
     );
 
 export async function execute(interaction: ChatInputCommandInteraction) {
+    const group = interaction.options.getSubcommandGroup(false);
     const subcommand = interaction.options.getSubcommand();
     const guildId = interaction.guildId || "dm";
     const userId = interaction.user.id;
     const scope = interaction.options.getString("scope") || "user";
 
+    if (group === "collection") {
+        await handleCollection(interaction, subcommand, guildId, userId, scope);
+        return;
+    }
+
+    if (group === "quota") {
+        await handleQuota(interaction, subcommand, guildId, userId);
+        return;
+    }
+
     switch (subcommand) {
         case "add":
             await handleAdd(interaction, guildId, userId, scope);
             break;
+        case "add-url":
+            await handleAddUrl(interaction, guildId, userId, scope);
+            break;
+        case "refresh":
+            await handleRefresh(interaction, guildId, userId, scope);
+            break;
         case "list":
             await handleList(interaction, guildId, userId, scope);
             break;
         case "view":
             await handleView(interaction, guildId, userId, scope);
             break;
+        case "search":
+            await handleSearch(interaction, guildId, userId, scope);
+            break;
+        case "tag":
+            await handleTag(interaction, guildId, userId, scope);
+            break;
+        case "update":
+            await handleUpdate(interaction, guildId, userId, scope);
+            break;
+        case "history":
+            await handleHistory(interaction, guildId, userId, scope);
+            break;
+        case "rollback":
+            await handleRollback(interaction, guildId, userId, scope);
+            break;
+        case "diff":
+            await handleDiff(interaction, guildId, userId, scope);
+            break;
         case "remove":
             await handleRemove(interaction, guildId, userId, scope);
             break;
     }
 }
 
+/**
+ * Download and parse an uploaded document, passing on any parser notes (such
+ * as files skipped from an archive) and truncating it to the size limit.
+ */
+async function loadAttachment(
+    interaction: ChatInputCommandInteraction,
+    attachment: Attachment
+): Promise<{ content: string; fileType: string; title: string | null; author: string | null }> {
+    const parsed = await downloadAndParse(attachment.url, attachment.name);
+
+    if (parsed.notes?.length) {
+        await interaction.followUp({ content: parsed.notes.join("\n").substring(0, 2000), ephemeral: true });
+    }
+
+    let content = parsed.content;
+    if (content.length > MAX_CONTEXT_CONTENT_SIZE) {
+        content = content.substring(0, MAX_CONTEXT_CONTENT_SIZE);
+        await interaction.followUp({
+            content: `Note: Document was truncated to ${MAX_CONTEXT_CONTENT_SIZE} characters due to size limits.`,
+            ephemeral: true,
+        });
+    }
+
+    return { content, fileType: parsed.fileType, title: parsed.title ?? null, author: parsed.author ?? null };
+}
+
+/**
+ * Find a context the user may modify in the given scope. Personal lookups
+ * don't fall back to server contexts.
+ */
+function getManagedContext(guildId: string, name: string, userId: string, isUserScope: boolean) {
+    const context = getContext(guildId, name, isUserScope ? userId : undefined);
+    if (!context || (isUserScope && context.user_id !== userId)) return null;
+    return context;
+}
+
 async function handleAdd(
     interaction: ChatInputCommandInteraction,
     guildId: string,
@@ -172,45 +645,51 @@ async function handleAdd(
     const existing = getContext(guildId, name, isUserScope ? userId : undefined);
     if (existing) {
         await interaction.editReply({
-            content: `A context named "${name}" already exists. Use /context remove to delete it first.`,
+            content: `A context named "${name}" already exists. Use /context update to upload a new version, or /context remove to delete it first.`,
         });
         return;
     }
 
     try {
-        // Download and parse the document
-        const parsed = await downloadAndParse(attachment.url, attachment.name);
-
-        // Limit content size
-        const MAX_CONTENT_SIZE = 100000; // ~100KB of text
-        let content = parsed.content;
-        if (content.length > MAX_CONTENT_SIZE) {
-            content = content.substring(0, MAX_CONTENT_SIZE);
-            await interaction.followUp({
-                content: `Note: Document was truncated to ${MAX_CONTENT_SIZE} characters due to size limits.`,
-                ephemeral: true,
-            });
-        }
+        const { content, fileType, title, author } = await loadAttachment(interaction, attachment);
 
         // Save to database
-        addContext(guildId, name, content, attachment.name, parsed.fileType, isUserScope ? userId : undefined);
+        const contextId = addContext(
+            guildId,
+            name,
+            content,
+            attachment.name,
+            fileType,
+            isUserScope ? userId : undefined,
+            undefined,
+            userId,
+            { title, author }
+        );
+
+        // Split into passages so chats only send the relevant parts
+        const { chunkCount, searchMode } = await indexAndEmbedContext(contextId, content);
 
         const embed = new EmbedBuilder()
             .setTitle("Context Added")
             .setDescription(`Successfully added context **${name}**`)
             .addFields(
                 { name: "File", value: attachment.name, inline: true },
-                { name: "Type", value: parsed.fileType.toUpperCase(), inline: true },
+                { name: "Type", value: fileType.toUpperCase(), inline: true },
                 { name: "Scope", value: isUserScope ? "Personal" : "Server", inline: true },
                 {
                     name: "Size",
                     value: `${content.length.toLocaleString()} characters`,
                     inline: true,
-                }
+                },
+                { name: "Passages", value: `${chunkCount.toLocaleString()} (${searchMode} search)`, inline: true }
             )
             .setFooter({ text: `Use /chat context:${name} to include this in your prompts` })
             .setTimestamp();
 
+        if (title || author) {
+            embed.addFields({ name: "Document", value: [title, author && `by ${author}`].filter(Boolean).join(" ").substring(0, 1024) });
+        }
+
         await interaction.editReply({ embeds: [embed] });
     } catch (error) {
         console.error("[Context Add] Error:", error);
@@ -219,96 +698,1085 @@ async function handleAdd(
             error instanceof Error ? error.message : "Unknown error occurred";
 
         await interaction.editReply({
-            content: `Failed to process document: ${errorMessage}`,
+            content: error instanceof ContextQuotaError ? error.message : `Failed to process document: ${errorMessage}`,
         });
     }
 }
 
-async function handleList(
+async function handleAddUrl(
     interaction: ChatInputCommandInteraction,
     guildId: string,
     userId: string,
     scope: string
 ) {
-    await interaction.deferReply({ ephemeral: true });
-
+    const url = interaction.options.getString("url", true).trim();
+    const name = interaction.options.getString("name", true);
+    const stealthMode = interaction.options.getBoolean("stealth") ?? false;
     const isUserScope = scope === "user";
-    const contexts = getAllContexts(guildId, isUserScope ? userId : undefined);
 
-    if (!contexts || contexts.length === 0) {
-        await interaction.editReply({
-            content: `No ${isUserScope ? "personal" : "server"} contexts saved. Use /context add to add a document as context.`,
-        });
+    // Scraping costs credits, so it follows the /scrape feature toggle
+    const featureCheck = canUseFeature(interaction, "SCRAPE");
+    if (!featureCheck.allowed) {
+        await interaction.reply({ content: featureCheck.reason, ephemeral: true });
         return;
     }
 
-    const embed = new EmbedBuilder()
-        .setTitle(`${isUserScope ? "Personal" : "Server"} Contexts`)
-        .setDescription(
-            contexts
-                .map((ctx) => {
-                    const date = new Date(ctx.created_at * 1000);
-                    return `- **${ctx.name}** (${ctx.file_type}) - ${ctx.content.length.toLocaleString()} chars - ${ctx.source_filename}`;
-                })
-                .join("\n")
-        )
-        .setFooter({ text: `Total: ${contexts.length} context(s)` })
-        .setTimestamp();
-
-    await interaction.editReply({ embeds: [embed] });
-}
+    // Check permission for server-scoped contexts
+    if (!isUserScope && !canManageServerContext(interaction)) {
+        await interaction.reply({
+            content: "You don't have permission to add server-wide contexts. Only administrators or whitelisted users can do this.",
+            ephemeral: true,
+        });
+        return;
+    }
 
-async function handleView(
-    interaction: ChatInputCommandInteraction,
-    guildId: string,
-    userId: string,
-    scope: string
-) {
-    const name = interaction.options.getString("name", true);
-    const isUserScope = scope === "user";
+    if (!/^https?:\/\//i.test(url)) {
+        await interaction.reply({ content: "Please provide an http(s) URL.", ephemeral: true });
+        return;
+    }
 
     await interaction.deferReply({ ephemeral: true });
 
-    const context = getContext(guildId, name, isUserScope ? userId : undefined);
-
-    if (!context) {
+    // Check if context name already exists
+    const existing = getContext(guildId, name, isUserScope ? userId : undefined);
+    if (existing) {
         await interaction.editReply({
-            content: `Context "${name}" not found in ${isUserScope ? "personal" : "server"} contexts. Use /context list to see available contexts.`,
+            content: `A context named "${name}" already exists. Use /context update to upload a new version, or /context remove to delete it first.`,
         });
         return;
     }
 
-    // Truncate content for display
-    const MAX_DISPLAY = 2000;
-    let displayContent = context.content;
-    let truncated = false;
+    try {
+        const page = await scrapePageForContext(url, stealthMode);
 
-    if (displayContent.length > MAX_DISPLAY) {
-        displayContent = displayContent.substring(0, MAX_DISPLAY);
-        truncated = true;
-    }
+        const contextId = addContext(guildId, name, page.content, page.url, "md", isUserScope ? userId : undefined, page.url, userId);
+        const { chunkCount, searchMode } = await indexAndEmbedContext(contextId, page.content);
 
-    const embed = new EmbedBuilder()
-        .setTitle(`Context: ${context.name}`)
-        .setDescription(`\`\`\`\n${displayContent}\n\`\`\``)
-        .addFields(
-            { name: "Source", value: context.source_filename, inline: true },
+        const embed = new EmbedBuilder()
+            .setTitle("Context Added")
+            .setDescription(`Successfully added context **${name}** from [${page.title}](${page.url})`)
+            .addFields(
+                { name: "Scope", value: isUserScope ? "Personal" : "Server", inline: true },
+                {
+                    name: "Size",
+                    value: `${page.content.length.toLocaleString()} characters${page.truncated ? " (truncated)" : ""}`,
+                    inline: true,
+                },
+                { name: "Passages", value: `${chunkCount.toLocaleString()} (${searchMode} search)`, inline: true }
+            )
+            .setFooter({ text: `Use /context refresh name:${name} to re-scrape the page later` })
+            .setTimestamp();
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+        console.error("[Context Add URL] Error:", error);
+
+        await interaction.editReply({
+            content: error instanceof ContextQuotaError ? error.message : formatErrorForUser(error),
+        });
+    }
+}
+
+async function handleRefresh(
+    interaction: ChatInputCommandInteraction,
+    guildId: string,
+    userId: string,
+    scope: string
+) {
+    const name = interaction.options.getString("name", true);
+    const isUserScope = scope === "user";
+
+    const featureCheck = canUseFeature(interaction, "SCRAPE");
+    if (!featureCheck.allowed) {
+        await interaction.reply({ content: featureCheck.reason, ephemeral: true });
+        return;
+    }
+
+    // Check permission for server-scoped contexts
+    if (!isUserScope && !canManageServerContext(interaction)) {
+        await interaction.reply({
+            content: "You don't have permission to refresh server-wide contexts. Only administrators or whitelisted users can do this.",
+            ephemeral: true,
+        });
+        return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+
+    const context = getManagedContext(guildId, name, userId, isUserScope);
+
+    if (!context) {
+        await interaction.editReply({
+            content: `Context "${name}" not found in ${isUserScope ? "personal" : "server"} contexts.`,
+        });
+        return;
+    }
+
+    if (!context.source_url) {
+        await interaction.editReply({
+            content: `Context **${context.name}** was not added from a URL, so it can't be refreshed.`,
+        });
+        return;
+    }
+
+    try {
+        const page = await scrapePageForContext(context.source_url);
+
+        if (page.content === context.content) {
+            await interaction.editReply({
+                content: `Context **${context.name}** is already up to date with ${context.source_url}.`,
+            });
+            return;
+        }
+
+        const version = updateContext(
+            context.id,
+            { content: page.content, sourceFilename: context.source_url, fileType: "md", sourceUrl: context.source_url },
+            userId,
+            "Refreshed from URL"
+        );
+        const { chunkCount, searchMode } = await indexAndEmbedContext(context.id, page.content);
+
+        const embed = new EmbedBuilder()
+            .setTitle("Context Refreshed")
+            .setDescription(`Updated **${context.name}** to version ${version} from ${context.source_url}`)
+            .addFields(
+                {
+                    name: "Size",
+                    value: `${context.content.length.toLocaleString()} → ${page.content.length.toLocaleString()} characters${page.truncated ? " (truncated)" : ""}`,
+                    inline: true,
+                },
+                { name: "Passages", value: `${chunkCount.toLocaleString()} (${searchMode} search)`, inline: true }
+            )
+            .setTimestamp();
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+        console.error("[Context Refresh] Error:", error);
+
+        await interaction.editReply({
+            content: error instanceof ContextQuotaError ? error.message : formatErrorForUser(error),
+        });
+    }
+}
+
+async function handleList(
+    interaction: ChatInputCommandInteraction,
+    guildId: string,
+    userId: string,
+    scope: string
+) {
+    const tag = parseTags(interaction.options.getString("tag"))[0];
+
+    await interaction.deferReply({ ephemeral: true });
+
+    const isUserScope = scope === "user";
+    const scopeLabel = isUserScope ? "personal" : "server";
+    const contexts = (getAllContexts(guildId, isUserScope ? userId : undefined) || [])
+        .map((ctx) => ({ ...ctx, tags: getContextTags(ctx.id) }))
+        .filter((ctx) => !tag || ctx.tags.includes(tag));
+    const collections = tag ? [] : getAllCollections(guildId, isUserScope ? userId : undefined);
+
+    if (contexts.length === 0 && collections.length === 0) {
+        await interaction.editReply({
+            content: tag
+                ? `No ${scopeLabel} contexts are tagged "${tag}".`
+                : `No ${scopeLabel} contexts saved. Use /context add to add a document as context.`,
+        });
+        return;
+    }
+
+    const embed = new EmbedBuilder()
+        .setTitle(`${isUserScope ? "Personal" : "Server"} Contexts${tag ? ` tagged "${tag}"` : ""}`)
+        .setDescription(
+            contexts.length > 0
+                ? contexts
+                    .map((ctx) => {
+                        const tags = ctx.tags.length > 0 ? ` [${ctx.tags.join(", ")}]` : "";
+                        return `- **${ctx.name}** (${ctx.file_type}) - ${ctx.content.length.toLocaleString()} chars - ${ctx.source_filename}${tags}`;
+                    })
+                    .join("\n")
+                : "No contexts."
+        )
+        .setFooter({ text: `Total: ${contexts.length} context(s)${collections.length > 0 ? `, ${collections.length} collection(s)` : ""}` })
+        .setTimestamp();
+
+    if (collections.length > 0) {
+        embed.addFields({
+            name: "Collections",
+            value: collections
+                .map((collection) => `- **${collection.name}** - ${collection.context_count} context(s)`)
+                .join("\n")
+                .substring(0, 1024),
+        });
+    }
+
+    await interaction.editReply({ embeds: [embed] });
+}
+
+type ContextRow = NonNullable<ReturnType<typeof getContext>>;
+
+// Characters of content per viewer page, leaving room for the code fence in the embed
+const VIEW_PAGE_SIZE = 1800;
+
+// Discord allows at most 25 options in a select menu
+const MAX_JUMP_OPTIONS = 25;
+
+const VIEWER_TIMEOUT = 10 * 60 * 1000; // 10 minutes
+
+interface ViewerPage {
+    text: string;
+    start: number; // Offset of the page in the context content
+    pdfPages: string | null; // e.g. "p. 4" for PDF contexts
+}
+
+interface ViewerSearch {
+    query: string;
+    matches: number[]; // Viewer page indices containing the query
+}
+
+/**
+ * Split content into viewer pages, breaking at paragraphs, lines or spaces
+ * where possible.
+ */
+function paginateContent(content: string): ViewerPage[] {
+    const markers = findPageMarkers(content);
+    const pages: ViewerPage[] = [];
+    let start = 0;
+
+    do {
+        let end = Math.min(start + VIEW_PAGE_SIZE, content.length);
+        if (end < content.length) {
+            const window = content.substring(start, end);
+            const breakAt = [window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(" ")]
+                .find((index) => index > VIEW_PAGE_SIZE / 2);
+            if (breakAt !== undefined) end = start + breakAt + 1;
+        }
+
+        const raw = content.substring(start, end);
+        const textStart = start + raw.length - raw.trimStart().length;
+
+        // PDF pages shown: the one in progress where the text starts, through the last one begun here
+        const first = markers.filter((marker) => marker.index <= textStart).pop()?.page
+            ?? markers.find((marker) => marker.index < end)?.page;
+        const last = markers.filter((marker) => marker.index < end).pop()?.page;
+
+        pages.push({
+            text: raw.trim(),
+            start,
+            pdfPages: first !== undefined && last !== undefined ? formatPageRange({ first, last }) : null,
+        });
+        start = end;
+    } while (start < content.length);
+
+    return pages;
+}
+
+/**
+ * Filename for downloading a context. Converted formats (PDF, Office,
+ * archives, web pages) are stored as markdown text.
+ */
+function getDownloadFilename(context: ContextRow): string {
+    const base = context.name.replace(/[^\w.-]+/g, "_").substring(0, 80) || "context";
+    return `${base}.${isConvertedFileType(context.file_type) ? "md" : context.file_type}`;
+}
+
+function createViewerEmbed(context: ContextRow, pages: ViewerPage[], current: number, search: ViewerSearch | null): EmbedBuilder {
+    const page = pages[current];
+    const pdfPageCount = findPageMarkers(context.content).length;
+
+    // Escape fences in the content so it can't close the code block early
+    const text = page.text.replace(/```/g, "`\u200b``");
+
+    const footer = [`Page ${current + 1}/${pages.length}`];
+    if (page.pdfPages) footer.push(`PDF ${page.pdfPages}`);
+    if (search) {
+        footer.push(search.matches.length > 0
+            ? `"${search.query}" on ${search.matches.length} page(s)`
+            : `"${search.query}" not found`);
+    }
+
+    const embed = new EmbedBuilder()
+        .setTitle(`Context: ${context.name}`)
+        .setDescription(`\`\`\`\n${text}\n\`\`\``)
+        .addFields(
+            { name: "Source", value: context.source_filename, inline: true },
             { name: "Type", value: context.file_type.toUpperCase(), inline: true },
             { name: "Scope", value: context.user_id ? "Personal" : "Server", inline: true },
             {
                 name: "Total Size",
                 value: `${context.content.length.toLocaleString()} characters`,
                 inline: true,
-            }
+            },
+            { name: "Tags", value: getContextTags(context.id).join(", ") || "None", inline: true }
         )
-        .setFooter({
-            text: truncated
-                ? `Showing first ${MAX_DISPLAY} characters`
-                : "Full content shown",
-        })
+        .setFooter({ text: footer.join(" | ").substring(0, 2048) })
         .setTimestamp();
 
-    await interaction.editReply({ embeds: [embed] });
+    if (context.title) embed.addFields({ name: "Title", value: context.title.substring(0, 1024), inline: true });
+    if (context.author) embed.addFields({ name: "Author", value: context.author.substring(0, 1024), inline: true });
+    if (pdfPageCount > 0) embed.addFields({ name: "Pages", value: pdfPageCount.toLocaleString(), inline: true });
+
+    return embed;
+}
+
+function createViewerComponents(pages: ViewerPage[], current: number, search: ViewerSearch | null) {
+    const buttons = new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId("context_view_prev")
+            .setLabel("◀ Previous")
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(current === 0),
+        new ButtonBuilder()
+            .setCustomId("context_view_next")
+            .setLabel("Next ▶")
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(current === pages.length - 1),
+        new ButtonBuilder()
+            .setCustomId("context_view_search")
+            .setLabel("Search")
+            .setEmoji("🔍")
+            .setStyle(ButtonStyle.Primary)
+    );
+
+    if (search && search.matches.length > 0) {
+        buttons.addComponents(
+            new ButtonBuilder()
+                .setCustomId("context_view_match")
+                .setLabel("Next match")
+                .setStyle(ButtonStyle.Secondary)
+                .setDisabled(search.matches.length === 1 && search.matches[0] === current)
+        );
+    }
+
+    buttons.addComponents(
+        new ButtonBuilder()
+            .setCustomId("context_view_download")
+            .setLabel("Download")
+            .setStyle(ButtonStyle.Success)
+    );
+
+    const rows: ActionRowBuilder<ButtonBuilder | StringSelectMenuBuilder>[] = [buttons];
+    if (pages.length <= 1) return rows;
+
+    // Offer a window of pages around the current one when there are too many to list
+    const first = Math.max(0, Math.min(current - Math.floor(MAX_JUMP_OPTIONS / 2), pages.length - MAX_JUMP_OPTIONS));
+    const options = pages.slice(first, first + MAX_JUMP_OPTIONS).map((page, offset) => {
+        const index = first + offset;
+        return {
+            label: `Page ${index + 1}`,
+            description: (page.pdfPages ? `PDF ${page.pdfPages}: ` : "") + page.text.replace(/\s+/g, " ").substring(0, 60),
+            value: String(index),
+            default: index === current,
+        };
+    });
+
+    rows.push(
+        new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+            new StringSelectMenuBuilder()
+                .setCustomId("context_view_jump")
+                .setPlaceholder("Jump to page")
+                .addOptions(options)
+        )
+    );
+    return rows;
+}
+
+function searchPages(pages: ViewerPage[], query: string): ViewerSearch {
+    const needle = query.toLowerCase();
+    return {
+        query,
+        matches: pages
+            .map((page, index) => (page.text.toLowerCase().includes(needle) ? index : -1))
+            .filter((index) => index !== -1),
+    };
+}
+
+/**
+ * First matching page after the current one, wrapping around to the start.
+ */
+function nextMatch(search: ViewerSearch, current: number): number {
+    return search.matches.find((index) => index > current) ?? search.matches[0] ?? current;
+}
+
+async function handleView(
+    interaction: ChatInputCommandInteraction,
+    guildId: string,
+    userId: string,
+    scope: string
+) {
+    const name = interaction.options.getString("name", true);
+    const pdfPage = interaction.options.getInteger("page");
+    const find = interaction.options.getString("find");
+    const isUserScope = scope === "user";
+
+    await interaction.deferReply({ ephemeral: true });
+
+    const context = getContext(guildId, name, isUserScope ? userId : undefined);
+
+    if (!context) {
+        await interaction.editReply({
+            content: `Context "${name}" not found in ${isUserScope ? "personal" : "server"} contexts. Use /context list to see available contexts.`,
+        });
+        return;
+    }
+
+    const pages = paginateContent(context.content);
+    let current = 0;
+    let search: ViewerSearch | null = null;
+
+    if (pdfPage !== null) {
+        const markers = findPageMarkers(context.content);
+        const marker = markers.find((entry) => entry.page === pdfPage);
+
+        if (!marker) {
+            await interaction.editReply({
+                content: markers.length > 0
+                    ? `**${context.name}** has ${markers.length} pages; there is no page ${pdfPage}.`
+                    : `**${context.name}** has no page numbers. Only PDF contexts can be opened at a page.`,
+            });
+            return;
+        }
+
+        current = pages.findLastIndex((page) => page.start <= marker.index);
+    }
+
+    if (find) {
+        search = searchPages(pages, find);
+        current = search.matches.length > 0 ? nextMatch(search, current - 1) : current;
+    }
+
+    const render = () => ({
+        embeds: [createViewerEmbed(context, pages, current, search)],
+        components: createViewerComponents(pages, current, search),
+    });
+
+    const message = await interaction.editReply(render());
+
+    const collector = message.createMessageComponentCollector({ time: VIEWER_TIMEOUT });
+
+    collector.on("collect", async (component) => {
+        try {
+            if (component.isStringSelectMenu() && component.customId === "context_view_jump") {
+                current = parseInt(component.values[0], 10);
+                await component.update(render());
+                return;
+            }
+
+            if (!component.isButton()) return;
+
+            switch (component.customId) {
+                case "context_view_prev":
+                    current = Math.max(0, current - 1);
+                    await component.update(render());
+                    break;
+                case "context_view_next":
+                    current = Math.min(pages.length - 1, current + 1);
+                    await component.update(render());
+                    break;
+                case "context_view_match":
+                    if (search) current = nextMatch(search, current);
+                    await component.update(render());
+                    break;
+                case "context_view_download":
+                    await component.reply({
+                        files: [new AttachmentBuilder(Buffer.from(context.content, "utf-8"), { name: getDownloadFilename(context) })],
+                        ephemeral: true,
+                    });
+                    break;
+                case "context_view_search": {
+                    const modalId = `context_view_search_${component.id}`;
+                    await component.showModal(
+                        new ModalBuilder()
+                            .setCustomId(modalId)
+                            .setTitle(`Search ${context.name}`.substring(0, 45))
+                            .addComponents(
+                                new ActionRowBuilder<TextInputBuilder>().addComponents(
+                                    new TextInputBuilder()
+                                        .setCustomId("query")
+                                        .setLabel("Text to find")
+                                        .setStyle(TextInputStyle.Short)
+                                        .setMaxLength(100)
+                                        .setRequired(true)
+                                        .setValue(search?.query ?? "")
+                                )
+                            )
+                    );
+
+                    const submission = await component
+                        .awaitModalSubmit({ time: 2 * 60 * 1000, filter: (modal) => modal.customId === modalId })
+                        .catch(() => null);
+                    if (!submission?.isFromMessage()) return;
+
+                    search = searchPages(pages, submission.fields.getTextInputValue("query").trim());
+                    if (search.matches.length > 0) current = nextMatch(search, current - 1);
+                    await submission.update(render());
+                    break;
+                }
+            }
+        } catch (error) {
+            console.error("[Context View] Error:", error);
+        }
+    });
+
+    collector.on("end", async () => {
+        // Keep the page that was open, without the controls
+        try {
+            await interaction.editReply({ embeds: [createViewerEmbed(context, pages, current, search)], components: [] });
+        } catch {
+            // Message may have been deleted
+        }
+    });
+}
+
+async function handleSearch(
+    interaction: ChatInputCommandInteraction,
+    guildId: string,
+    userId: string,
+    scope: string
+) {
+    const name = interaction.options.getString("name", true);
+    const query = interaction.options.getString("query", true);
+    const isUserScope = scope === "user";
+
+    await interaction.deferReply({ ephemeral: true });
+
+    const context = getContext(guildId, name, isUserScope ? userId : undefined);
+
+    if (!context) {
+        await interaction.editReply({
+            content: `Context "${name}" not found in ${isUserScope ? "personal" : "server"} contexts. Use /context list to see available contexts.`,
+        });
+        return;
+    }
+
+    try {
+        const { passages, method } = await searchContext(context, query);
+
+        if (passages.length === 0) {
+            await interaction.editReply({
+                content: `No passages in **${context.name}** match "${query}".`,
+            });
+            return;
+        }
+
+        // Keeps every field under 1024 characters and the embed under 6000
+        const MAX_PASSAGE_DISPLAY = 900;
+
+        const pages = getChunkPages(context.content);
+        const passageLabel = (chunkIndex: number) => {
+            const range = pages.get(chunkIndex);
+            return `Passage #${chunkIndex + 1}${range ? `, ${formatPageRange(range)}` : ""}`;
+        };
+
+        const embed = new EmbedBuilder()
+            .setTitle(`Search: ${context.name}`)
+            .setDescription(`Best matches for "${query.substring(0, 200)}"`)
+            .addFields(
+                passages.map((passage) => ({
+                    name: passage.score !== undefined
+                        ? `${passageLabel(passage.chunkIndex)} (similarity ${passage.score.toFixed(2)})`
+                        : passageLabel(passage.chunkIndex),
+                    value: passage.content.length > MAX_PASSAGE_DISPLAY
+                        ? passage.content.substring(0, MAX_PASSAGE_DISPLAY) + "..."
+                        : passage.content,
+                }))
+            )
+            .setFooter({ text: `${method === "semantic" ? "Semantic" : "Keyword"} search | ${passages.length} passage(s)` })
+            .setTimestamp();
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+        console.error("[Context Search] Error:", error);
+
+        const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+        await interaction.editReply({
+            content: `Failed to search context: ${errorMessage}`,
+        });
+    }
+}
+
+async function handleTag(
+    interaction: ChatInputCommandInteraction,
+    guildId: string,
+    userId: string,
+    scope: string
+) {
+    const name = interaction.options.getString("name", true);
+    const add = parseTags(interaction.options.getString("add"));
+    const remove = parseTags(interaction.options.getString("remove"));
+    const isUserScope = scope === "user";
+
+    // Check permission for server-scoped contexts
+    if (!isUserScope && !canManageServerContext(interaction)) {
+        await interaction.reply({
+            content: "You don't have permission to tag server-wide contexts. Only administrators or whitelisted users can do this.",
+            ephemeral: true,
+        });
+        return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+
+    const context = getManagedContext(guildId, name, userId, isUserScope);
+
+    if (!context) {
+        await interaction.editReply({
+            content: `Context "${name}" not found in ${isUserScope ? "personal" : "server"} contexts.`,
+        });
+        return;
+    }
+
+    const tags = add.length > 0 || remove.length > 0
+        ? updateContextTags(context.id, add, remove)
+        : getContextTags(context.id);
+
+    await interaction.editReply({
+        content: tags.length > 0
+            ? `Tags on **${context.name}**: ${tags.map((tag) => `\`${tag}\``).join(", ")}`
+            : `**${context.name}** has no tags. Use the \`add\` option to tag it.`,
+    });
+}
+
+async function handleUpdate(
+    interaction: ChatInputCommandInteraction,
+    guildId: string,
+    userId: string,
+    scope: string
+) {
+    const name = interaction.options.getString("name", true);
+    const attachment = interaction.options.getAttachment("file", true);
+    const isUserScope = scope === "user";
+
+    // Check permission for server-scoped contexts
+    if (!isUserScope && !canManageServerContext(interaction)) {
+        await interaction.reply({
+            content: "You don't have permission to update server-wide contexts. Only administrators or whitelisted users can do this.",
+            ephemeral: true,
+        });
+        return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+
+    if (!isSupportedFile(attachment.name)) {
+        await interaction.editReply({
+            content: `Unsupported file type. Supported types: ${getSupportedExtensions().join(", ")}`,
+        });
+        return;
+    }
+
+    const context = getManagedContext(guildId, name, userId, isUserScope);
+
+    if (!context) {
+        await interaction.editReply({
+            content: `Context "${name}" not found in ${isUserScope ? "personal" : "server"} contexts. Use /context add to create it.`,
+        });
+        return;
+    }
+
+    try {
+        const { content, fileType, title, author } = await loadAttachment(interaction, attachment);
+
+        if (content === context.content) {
+            await interaction.editReply({
+                content: `The uploaded file is identical to the current version of **${context.name}**.`,
+            });
+            return;
+        }
+
+        // A file upload replaces the page, so the context stops tracking its URL
+        const version = updateContext(context.id, { content, sourceFilename: attachment.name, fileType, title, author }, userId);
+        const { chunkCount, searchMode } = await indexAndEmbedContext(context.id, content);
+
+        const embed = new EmbedBuilder()
+            .setTitle("Context Updated")
+            .setDescription(`**${context.name}** is now at version ${version}`)
+            .addFields(
+                { name: "File", value: attachment.name, inline: true },
+                {
+                    name: "Size",
+                    value: `${context.content.length.toLocaleString()} → ${content.length.toLocaleString()} characters`,
+                    inline: true,
+                },
+                { name: "Passages", value: `${chunkCount.toLocaleString()} (${searchMode} search)`, inline: true }
+            )
+            .setFooter({ text: `Use /context diff name:${context.name} to see what changed` })
+            .setTimestamp();
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+        console.error("[Context Update] Error:", error);
+
+        const errorMessage =
+            error instanceof Error ? error.message : "Unknown error occurred";
+
+        await interaction.editReply({
+            content: error instanceof ContextQuotaError ? error.message : `Failed to process document: ${errorMessage}`,
+        });
+    }
+}
+
+async function handleHistory(
+    interaction: ChatInputCommandInteraction,
+    guildId: string,
+    userId: string,
+    scope: string
+) {
+    const name = interaction.options.getString("name", true);
+    const isUserScope = scope === "user";
+
+    await interaction.deferReply({ ephemeral: true });
+
+    const context = getContext(guildId, name, isUserScope ? userId : undefined);
+
+    if (!context) {
+        await interaction.editReply({
+            content: `Context "${name}" not found in ${isUserScope ? "personal" : "server"} contexts. Use /context list to see available contexts.`,
+        });
+        return;
+    }
+
+    const versions = getContextVersions(context.id);
+    const MAX_LISTED = 20;
+
+    const lines = versions.slice(0, MAX_LISTED).map((version, index) => {
+        const current = index === 0 ? " (current)" : "";
+        const uploader = version.uploaded_by ? `<@${version.uploaded_by}>` : "unknown";
+        const note = version.note ? ` - ${version.note}` : "";
+        return `**v${version.version}**${current} - ${version.size.toLocaleString()} chars - ${version.source_filename || "unknown source"} - by ${uploader} <t:${version.created_at}:R>${note}`;
+    });
+
+    const embed = new EmbedBuilder()
+        .setTitle(`History: ${context.name}`)
+        .setDescription(lines.join("\n"))
+        .setFooter({
+            text: versions.length > MAX_LISTED
+                ? `Showing the latest ${MAX_LISTED} of ${versions.length} versions`
+                : `${versions.length} version(s)`,
+        })
+        .setTimestamp();
+
+    await interaction.editReply({ embeds: [embed], allowedMentions: { parse: [] } });
+}
+
+async function handleRollback(
+    interaction: ChatInputCommandInteraction,
+    guildId: string,
+    userId: string,
+    scope: string
+) {
+    const name = interaction.options.getString("name", true);
+    const targetVersion = interaction.options.getInteger("version", true);
+    const isUserScope = scope === "user";
+
+    // Check permission for server-scoped contexts
+    if (!isUserScope && !canManageServerContext(interaction)) {
+        await interaction.reply({
+            content: "You don't have permission to roll back server-wide contexts. Only administrators or whitelisted users can do this.",
+            ephemeral: true,
+        });
+        return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+
+    const context = getManagedContext(guildId, name, userId, isUserScope);
+
+    if (!context) {
+        await interaction.editReply({
+            content: `Context "${name}" not found in ${isUserScope ? "personal" : "server"} contexts.`,
+        });
+        return;
+    }
+
+    const target = getContextVersion(context.id, targetVersion);
+
+    if (!target) {
+        await interaction.editReply({
+            content: `Version ${targetVersion} of **${context.name}** does not exist. Use /context history to see its versions.`,
+        });
+        return;
+    }
+
+    if (target.content === context.content) {
+        await interaction.editReply({
+            content: `**${context.name}** already matches version ${targetVersion}.`,
+        });
+        return;
+    }
+
+    try {
+        // Rolling back adds a version rather than discarding later ones, so it can be undone
+        const version = updateContext(
+            context.id,
+            {
+                content: target.content,
+                sourceFilename: target.source_filename || context.source_filename,
+                fileType: target.file_type || context.file_type,
+                sourceUrl: context.source_url,
+            },
+            userId,
+            `Rollback to v${targetVersion}`
+        );
+        await indexAndEmbedContext(context.id, target.content);
+
+        await interaction.editReply({
+            content: `Restored **${context.name}** to the content of version ${targetVersion} as version ${version}.`,
+        });
+    } catch (error) {
+        console.error("[Context Rollback] Error:", error);
+
+        await interaction.editReply({
+            content: error instanceof ContextQuotaError ? error.message : formatErrorForUser(error),
+        });
+    }
+}
+
+async function handleDiff(
+    interaction: ChatInputCommandInteraction,
+    guildId: string,
+    userId: string,
+    scope: string
+) {
+    const name = interaction.options.getString("name", true);
+    const isUserScope = scope === "user";
+
+    await interaction.deferReply({ ephemeral: true });
+
+    const context = getContext(guildId, name, isUserScope ? userId : undefined);
+
+    if (!context) {
+        await interaction.editReply({
+            content: `Context "${name}" not found in ${isUserScope ? "personal" : "server"} contexts. Use /context list to see available contexts.`,
+        });
+        return;
+    }
+
+    const latest = getContextVersions(context.id)[0].version;
+    const to = interaction.options.getInteger("to") ?? latest;
+    const from = interaction.options.getInteger("from") ?? to - 1;
+
+    if (from < 1) {
+        await interaction.editReply({
+            content: `**${context.name}** has only one version, so there is nothing to compare yet.`,
+        });
+        return;
+    }
+
+    if (from === to) {
+        await interaction.editReply({ content: "Pick two different versions to compare." });
+        return;
+    }
+
+    const fromVersion = getContextVersion(context.id, from);
+    const toVersion = getContextVersion(context.id, to);
+
+    if (!fromVersion || !toVersion) {
+        await interaction.editReply({
+            content: `Version ${!fromVersion ? from : to} of **${context.name}** does not exist. Use /context history to see its versions.`,
+        });
+        return;
+    }
+
+    const diff = createUnifiedDiff(
+        fromVersion.content,
+        toVersion.content,
+        `${context.name} v${from}`,
+        `${context.name} v${to}`
+    );
+
+    if (!diff) {
+        await interaction.editReply({
+            content: `Versions ${from} and ${to} of **${context.name}** are identical.`,
+        });
+        return;
+    }
+
+    const added = diff.split("\n").filter((line) => line.startsWith("+") && !line.startsWith("+++")).length;
+    const removed = diff.split("\n").filter((line) => line.startsWith("-") && !line.startsWith("---")).length;
+    const filename = `${context.name.replace(/[^a-z0-9_-]+/gi, "_")}-v${from}-v${to}.diff`;
+
+    await interaction.editReply({
+        content: `Changes in **${context.name}** from version ${from} to ${to}: +${added} / -${removed} lines.`,
+        files: [new AttachmentBuilder(Buffer.from(diff, "utf-8"), { name: filename })],
+    });
+}
+
+async function handleCollection(
+    interaction: ChatInputCommandInteraction,
+    subcommand: string,
+    guildId: string,
+    userId: string,
+    scope: string
+) {
+    const collectionName = interaction.options.getString("collection", true).trim();
+    const isUserScope = scope === "user";
+    const scopeLabel = isUserScope ? "personal" : "server";
+
+    // Check permission for server-scoped collections
+    if (!isUserScope && !canManageServerContext(interaction)) {
+        await interaction.reply({
+            content: "You don't have permission to manage server-wide collections. Only administrators or whitelisted users can do this.",
+            ephemeral: true,
+        });
+        return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+
+    const scopeUserId = isUserScope ? userId : undefined;
+    // Only look in the requested scope, not the server fallback
+    const existing = getCollection(guildId, collectionName, scopeUserId);
+    const collection = existing && (existing.user_id ?? undefined) === scopeUserId ? existing : null;
+
+    if (subcommand === "create") {
+        if (!collectionName) {
+            await interaction.editReply({ content: "Collection name cannot be empty." });
+            return;
+        }
+
+        // Names in the chat `context` option are looked up as contexts first
+        if (collection || getContext(guildId, collectionName, scopeUserId)) {
+            await interaction.editReply({
+                content: `A ${scopeLabel} context or collection named "${collectionName}" already exists.`,
+            });
+            return;
+        }
+
+        createCollection(guildId, collectionName, scopeUserId);
+
+        await interaction.editReply({
+            content: `Created ${scopeLabel} collection **${collectionName}**. Add documents with \`/context collection add\`.`,
+        });
+        return;
+    }
+
+    if (!collection) {
+        await interaction.editReply({
+            content: `Collection "${collectionName}" not found in ${scopeLabel} collections. Use /context list to see available collections.`,
+        });
+        return;
+    }
+
+    if (subcommand === "delete") {
+        deleteCollection(collection.id);
+        await interaction.editReply({
+            content: `Collection **${collection.name}** has been deleted. Its contexts were kept.`,
+        });
+        return;
+    }
+
+    // add/remove: server collections may only hold server contexts, since
+    // everyone in the server can use them
+    const name = interaction.options.getString("name", true);
+    const context = getContext(guildId, name, scopeUserId);
+
+    if (!context) {
+        await interaction.editReply({
+            content: `Context "${name}" not found. Use /context list to see available contexts.`,
+        });
+        return;
+    }
+
+    if (subcommand === "add") {
+        const added = addToCollection(collection.id, context.id);
+        const count = getCollectionContexts(collection.id).length;
+
+        await interaction.editReply({
+            content: added
+                ? `Added **${context.name}** to collection **${collection.name}** (${count} context(s)).`
+                : `**${context.name}** is already in collection **${collection.name}**.`,
+        });
+        return;
+    }
+
+    const removed = removeFromCollection(collection.id, context.id);
+
+    await interaction.editReply({
+        content: removed
+            ? `Removed **${context.name}** from collection **${collection.name}**.`
+            : `**${context.name}** is not in collection **${collection.name}**.`,
+    });
+}
+
+function formatQuotaUsage(used: number, quota: { limit: number; overridden: boolean }, unit: string): string {
+    const limit = quota.limit > 0 ? quota.limit.toLocaleString() : "unlimited";
+    const percent = quota.limit > 0 ? ` (${Math.min(100, Math.round((used / quota.limit) * 100))}%)` : "";
+    return `${used.toLocaleString()} / ${limit} ${unit}${percent}${quota.overridden ? " - server override" : ""}`;
+}
+
+async function handleQuota(
+    interaction: ChatInputCommandInteraction,
+    subcommand: string,
+    guildId: string,
+    userId: string
+) {
+    if (subcommand !== "view" && !canManageServerContext(interaction)) {
+        await interaction.reply({
+            content: "You don't have permission to change context quotas. Only administrators or whitelisted users can do this.",
+            ephemeral: true,
+        });
+        return;
+    }
+
+    if (subcommand === "set") {
+        const key = interaction.options.getString("limit", true) as ContextQuotaKey;
+        const value = interaction.options.getInteger("value", true);
+        const label = QUOTA_CHOICES.find((choice) => choice.value === key)?.name ?? key;
+
+        setContextQuota(guildId, key, value);
+        await interaction.reply({
+            content: `**${label}** is now ${value > 0 ? value.toLocaleString() : "unlimited"} for this server. Existing contexts are kept; new uploads are checked against the new limit.`,
+            ephemeral: true,
+        });
+        return;
+    }
+
+    if (subcommand === "reset") {
+        const key = interaction.options.getString("limit") as ContextQuotaKey | null;
+        const keys = key ? [key] : QUOTA_CHOICES.map((choice) => choice.value);
+        keys.forEach((quotaKey) => setContextQuota(guildId, quotaKey, null));
+
+        await interaction.reply({
+            content: key
+                ? `**${QUOTA_CHOICES.find((choice) => choice.value === key)?.name ?? key}** is back to the default.`
+                : "All context quotas are back to their defaults.",
+            ephemeral: true,
+        });
+        return;
+    }
+
+    const quotas = getContextQuotas(guildId);
+    const personal = getContextUsage(guildId, userId);
+
+    const embed = new EmbedBuilder()
+        .setTitle("Context Quotas")
+        .addFields({
+            name: "Your personal contexts",
+            value: [
+                formatQuotaUsage(personal.documents, quotas.user_documents, "documents"),
+                formatQuotaUsage(personal.characters, quotas.user_characters, "characters"),
+            ].join("\n"),
+        })
+        .setFooter({ text: `Each document is also limited to ${MAX_CONTEXT_CONTENT_SIZE.toLocaleString()} characters` })
+        .setTimestamp();
+
+    // DMs only have personal quotas
+    if (guildId !== "dm") {
+        const server = getContextUsage(guildId);
+        embed.addFields({
+            name: "Server total (personal and shared)",
+            value: [
+                formatQuotaUsage(server.documents, quotas.guild_documents, "documents"),
+                formatQuotaUsage(server.characters, quotas.guild_characters, "characters"),
+            ].join("\n"),
+        });
+    }
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
 }
 
 async function handleRemove(
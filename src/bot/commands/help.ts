@@ -19,11 +19,15 @@ export async function execute(interaction: ChatInputCommandInteraction) {
                     "Chat with the AI assistant.",
                     "**Options:**",
                     "• `message` (required) - Your message to the AI",
-                    "• `context` - Name of a saved context to include",
+                    "• `context` - Saved contexts or collections to include, comma-separated",
                     "• `model` - Override the default model for this message",
                     "• `websearch` - Enable web search for real-time info ($0.006/req)",
                     "• `deepsearch` - Enable deep web search for comprehensive info ($0.06/req)",
-                    "• `image` - Attach an image to analyze (png, jpg, jpeg, webp)",
+                    "• `image` - Attach images to analyze (png, jpg, jpeg, webp, gif; up to 4 with `image2`-`image4`)",
+                    "• `imageurl` / `imagesfrom` - Add images by HTTPS URL or from a message in this channel",
+                    "• `file` - Attach a document to ask about without saving it (also on `/memory chat`)",
+                    "Reply buttons: **Regenerate**, **Continue** (when the answer was cut off), **Try another model** and **Delete**.",
+                    "Use **Continue in thread** on a reply to keep chatting in a thread.",
                 ].join("\n"),
                 inline: false,
             },
@@ -32,9 +36,15 @@ export async function execute(interaction: ChatInputCommandInteraction) {
                 value: [
                     "Manage document contexts for AI conversations.",
                     "**Subcommands:**",
-                    "• `/context add` - Upload a document (PDF, TXT, MD, etc.)",
-                    "• `/context list` - List all saved contexts",
-                    "• `/context view` - View a context's content",
+                    "• `/context add` - Upload a document, source file or code archive",
+                    "• `/context update` - Upload a new version (`history`, `diff` and `rollback` manage versions)",
+                    "• `/context add-url` - Save a web page as context (`/context refresh` re-scrapes it)",
+                    "• `/context list` - List saved contexts and collections (filter by `tag`)",
+                    "• `/context view` - Page through, search and download a context",
+                    "• `/context search` - Find the passages that best match a query",
+                    "• `/context tag` - Add or remove tags on a context",
+                    "• `/context collection create/add/remove/delete` - Group contexts into collections",
+                    "• `/context quota view` - Show your storage usage and the server's quotas",
                     "• `/context remove` - Remove a saved context",
                     "**Scope:** Use `scope:user` (personal, default) or `scope:server` (shared)",
                 ].join("\n"),
@@ -84,7 +94,21 @@ export async function execute(interaction: ChatInputCommandInteraction) {
                     "• `/memory chat` - Chat with persistent memory (same options as /chat)",
                     "• `/memory view` - View recent conversation history",
                     "• `/memory stats` - Show your memory statistics",
-                    "• `/memory clear` - Clear your conversation memory",
+                    "• `/memory clear` - Clear the active session's memory",
+                    "• `/memory new` / `/memory switch` - Start or switch named sessions",
+                    "• `/memory list` / `/memory rename` / `/memory delete` - Manage your sessions",
+                    "• `/memory export` / `/memory import` - Download or seed session transcripts",
+                ].join("\n"),
+                inline: false,
+            },
+            {
+                name: "/mentions",
+                value: [
+                    "Talk to the bot by @mentioning it or replying to its messages (admins opt in per server).",
+                    "**Subcommands:**",
+                    "• `/mentions enable` / `/mentions disable` - Turn mention replies on or off",
+                    "• `/mentions allow` / `/mentions disallow` - Manage the channel allowlist",
+                    "• `/mentions status` - Show the current settings",
                 ].join("\n"),
                 inline: false,
             },
@@ -6,6 +6,7 @@ import {
     AutocompleteInteraction,
 } from "discord.js";
 import { nanogpt, type ImageGenerationOptions } from "../../api/nanogpt.ts";
+import { formatErrorForUser } from "../../api/errors.ts";
 import { canUseFeature } from "../../utils/features.ts";
 
 const VALID_IMAGE_TYPES = ["image/png", "image/jpeg", "image/jpg", "image/webp"];
@@ -240,10 +241,8 @@ export async function execute(interaction: ChatInputCommandInteraction) {
     } catch (error) {
         console.error("[Imagine] Error:", error);
 
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-
         await interaction.editReply({
-            content: `An error occurred: ${errorMessage}`,
+            content: formatErrorForUser(error),
         });
     }
 }
@@ -1,4 +1,4 @@
-import { Collection, ChatInputCommandInteraction, SlashCommandBuilder, AutocompleteInteraction } from "discord.js";
+import { Collection, ChatInputCommandInteraction, SlashCommandBuilder, AutocompleteInteraction, ButtonInteraction } from "discord.js";
 
 import * as chat from "./chat.ts";
 import * as models from "./models.ts";
@@ -9,17 +9,20 @@ import * as help from "./help.ts";
 import * as imagine from "./imagine.ts";
 import * as memory from "./memory.ts";
 import * as scrape from "./scrape.ts";
+import * as mentions from "./mentions.ts";
 
 export interface Command {
     data: Pick<SlashCommandBuilder, "name" | "toJSON">;
     execute: (interaction: ChatInputCommandInteraction) => Promise<void>;
     autocomplete?: (interaction: AutocompleteInteraction) => Promise<void>;
+    // Persistent buttons use custom IDs of the form "<command>:<action>"
+    handleButton?: (interaction: ButtonInteraction) => Promise<void>;
 }
 
 export const commands = new Collection<string, Command>();
 
 // Register all commands
-const commandModules = [chat, models, setmodel, usage, context, help, imagine, memory, scrape];
+const commandModules = [chat, models, setmodel, usage, context, help, imagine, memory, scrape, mentions];
 
 for (const command of commandModules) {
     commands.set(command.data.name, command as Command);
@@ -2,23 +2,76 @@ import {
     SlashCommandBuilder,
     ChatInputCommandInteraction,
     EmbedBuilder,
-    Attachment,
     AutocompleteInteraction,
+    AttachmentBuilder,
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
 } from "discord.js";
 import { nanogpt, type ChatMessage, type TextPart, type ImagePart, type WebSearchProvider, type WebSearchVariant } from "../../api/nanogpt.ts";
+import { formatErrorForUser } from "../../api/errors.ts";
 import {
+    ContextQuotaError,
     getDefaultModel,
-    getContext,
-    getAllContexts,
     addMemoryMessage,
     getMemoryHistory,
     clearMemory,
     getMemoryStats,
+    getMemorySummary,
+    getActiveSession,
+    getSessions,
+    createSession,
+    switchSession,
+    renameSession,
+    deleteSession,
+    getSession,
+    getAllMemory,
+    importMemoryMessages,
+    getMemoryImages,
 } from "../../db/index.ts";
+import { streamChatReply, interactionTarget } from "../../utils/streaming.ts";
+import { collectImageInputs, formatImageCount, ImageInputError } from "../../utils/images.ts";
+import { assembleHistory, getPromptBudget, estimateTokens, type HistoryEntry } from "../../utils/history.ts";
+import { getContextLength, supportsVision } from "../../utils/models.ts";
+import {
+    parseContextNames,
+    resolveContexts,
+    buildContextsPrompt,
+    getContextSizeWarning,
+    getContextChoices,
+    loadChatAttachment,
+    buildAttachmentPrompt,
+    cacheChatAttachment,
+    saveChatAttachment,
+    MAX_CONTEXTS_PER_MESSAGE,
+    type ChatAttachment,
+} from "../../utils/contexts.ts";
+import { isSupportedFile, getSupportedExtensions } from "../../utils/documents.ts";
+import { maybeSummarizeMemory } from "../../utils/summarizer.ts";
+import {
+    formatTranscriptJSON,
+    formatTranscriptMarkdown,
+    parseTranscriptImport,
+    MAX_IMPORT_FILE_SIZE,
+} from "../../utils/transcripts.ts";
 
 const SYSTEM_PROMPT = process.env.SYSTEM_PROMPT || "You are a helpful AI assistant.";
 
-const VALID_IMAGE_TYPES = ["image/png", "image/jpeg", "image/jpg", "image/webp"];
+// Token budgeting for memory chat: rows loaded from the DB before packing,
+// tokens reserved for the reply, and an optional cap on the prompt size
+const MEMORY_HISTORY_LIMIT = 200;
+const MAX_RESPONSE_TOKENS = 4000;
+const MEMORY_TOKEN_BUDGET = Number(process.env.MEMORY_TOKEN_BUDGET) || undefined;
+
+// Images are replayed only for this many of the newest turns; older turns
+// just note that images were sent (0 = never replay images)
+const MEMORY_IMAGE_TURNS = Number(process.env.MEMORY_IMAGE_TURNS ?? 10) || 0;
+
+const MAX_SESSION_NAME_LENGTH = 50;
+
+// Embed descriptions are capped at 4096 characters; leave room for the "more" line
+const MAX_SESSION_LIST_LENGTH = 4000;
 
 export const data = new SlashCommandBuilder()
     .setName("memory")
@@ -36,7 +89,7 @@ export const data = new SlashCommandBuilder()
             .addStringOption((option) =>
                 option
                     .setName("context")
-                    .setDescription("Name of a saved context to include")
+                    .setDescription("Saved contexts or collections to include, comma-separated")
                     .setRequired(false)
                     .setAutocomplete(true)
             )
@@ -77,7 +130,43 @@ export const data = new SlashCommandBuilder()
             .addAttachmentOption((option) =>
                 option
                     .setName("image")
-                    .setDescription("Image to analyze (png, jpg, jpeg, webp)")
+                    .setDescription("Image to analyze (png, jpg, webp, gif)")
+                    .setRequired(false)
+            )
+            .addAttachmentOption((option) =>
+                option
+                    .setName("image2")
+                    .setDescription("Another image to analyze")
+                    .setRequired(false)
+            )
+            .addAttachmentOption((option) =>
+                option
+                    .setName("image3")
+                    .setDescription("Another image to analyze")
+                    .setRequired(false)
+            )
+            .addAttachmentOption((option) =>
+                option
+                    .setName("image4")
+                    .setDescription("Another image to analyze")
+                    .setRequired(false)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("imageurl")
+                    .setDescription("HTTPS image URLs to analyze, separated by spaces")
+                    .setRequired(false)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("imagesfrom")
+                    .setDescription("Link or ID of a message in this channel to take images from")
+                    .setRequired(false)
+            )
+            .addAttachmentOption((option) =>
+                option
+                    .setName("file")
+                    .setDescription("Document to ask about, used for this message only")
                     .setRequired(false)
             )
     )
@@ -103,71 +192,140 @@ export const data = new SlashCommandBuilder()
         subcommand
             .setName("stats")
             .setDescription("View your memory statistics")
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("new")
+            .setDescription("Start a new named memory session and switch to it")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("Name for the new session")
+                    .setRequired(true)
+                    .setMaxLength(MAX_SESSION_NAME_LENGTH)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("switch")
+            .setDescription("Switch to another memory session")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("The session to switch to")
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("list")
+            .setDescription("List your memory sessions")
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("rename")
+            .setDescription("Rename a memory session")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("The session to rename")
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("new_name")
+                    .setDescription("The new name")
+                    .setRequired(true)
+                    .setMaxLength(MAX_SESSION_NAME_LENGTH)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("delete")
+            .setDescription("Delete a memory session and its messages")
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("The session to delete")
+                    .setRequired(true)
+                    .setAutocomplete(true)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("export")
+            .setDescription("Download the full transcript of a memory session")
+            .addStringOption((option) =>
+                option
+                    .setName("format")
+                    .setDescription("File format (default: markdown)")
+                    .setRequired(false)
+                    .addChoices(
+                        { name: "Markdown", value: "markdown" },
+                        { name: "JSON", value: "json" }
+                    )
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("Session to export (default: active session)")
+                    .setRequired(false)
+                    .setAutocomplete(true)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("import")
+            .setDescription("Seed a new memory session from an OpenAI-style messages JSON file")
+            .addAttachmentOption((option) =>
+                option
+                    .setName("file")
+                    .setDescription("JSON array of {role, content} messages, or a /memory export JSON file")
+                    .setRequired(true)
+            )
+            .addStringOption((option) =>
+                option
+                    .setName("name")
+                    .setDescription("Name for the new session (default: the file name)")
+                    .setRequired(false)
+                    .setMaxLength(MAX_SESSION_NAME_LENGTH)
+            )
     );
 
 export async function autocomplete(interaction: AutocompleteInteraction) {
-    const focusedValue = interaction.options.getFocused().toLowerCase();
+    const focused = interaction.options.getFocused(true);
+    const focusedValue = focused.value.toLowerCase();
     const guildId = interaction.guildId || "dm";
     const userId = interaction.user.id;
 
-    try {
-        // Get both user and server contexts
-        const userContexts = getAllContexts(guildId, userId) || [];
-        const serverContexts = getAllContexts(guildId) || [];
-
-        // Combine and dedupe (user contexts take priority)
-        const allContexts: { name: string; label: string }[] = [];
-        const seenNames = new Set<string>();
-
-        for (const ctx of userContexts) {
-            if (!seenNames.has(ctx.name)) {
-                seenNames.add(ctx.name);
-                allContexts.push({ name: ctx.name, label: `${ctx.name} (personal)` });
-            }
-        }
-
-        for (const ctx of serverContexts) {
-            if (!seenNames.has(ctx.name)) {
-                seenNames.add(ctx.name);
-                allContexts.push({ name: ctx.name, label: `${ctx.name} (server)` });
-            }
+    // Session names for new/switch/rename/delete
+    if (focused.name === "name") {
+        try {
+            const activeId = getActiveSession(userId).id;
+            const sessions = getSessions(userId)
+                .filter(session => session.name.toLowerCase().includes(focusedValue))
+                .slice(0, 25);
+
+            await interaction.respond(
+                sessions.map(session => ({
+                    name: `${session.name}${session.id === activeId ? " (active)" : ""} - ${session.message_count} message(s)`,
+                    value: session.name,
+                }))
+            );
+        } catch (error) {
+            console.error("[Memory Autocomplete] Error:", error);
+            await interaction.respond([]);
         }
-
-        // Filter by search term and limit to 25
-        const filtered = allContexts
-            .filter(ctx => ctx.name.toLowerCase().includes(focusedValue))
-            .slice(0, 25);
-
-        await interaction.respond(
-            filtered.map(ctx => ({ name: ctx.label, value: ctx.name }))
-        );
-    } catch (error) {
-        console.error("[Memory Autocomplete] Error:", error);
-        await interaction.respond([]);
-    }
-}
-
-async function processImageAttachment(attachment: Attachment): Promise<ImagePart | null> {
-    const contentType = attachment.contentType;
-
-    if (!contentType || !VALID_IMAGE_TYPES.includes(contentType)) {
-        return null;
+        return;
     }
 
     try {
-        const response = await fetch(attachment.url);
-        const buffer = await response.arrayBuffer();
-        const base64 = Buffer.from(buffer).toString("base64");
-
-        return {
-            type: "image_url",
-            image_url: {
-                url: `data:${contentType};base64,${base64}`,
-            },
-        };
+        await interaction.respond(getContextChoices(guildId, userId, focused.value));
     } catch (error) {
-        console.error("[Memory] Error processing image:", error);
-        return null;
+        console.error("[Memory Autocomplete] Error:", error);
+        await interaction.respond([]);
     }
 }
 
@@ -188,6 +346,27 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         case "stats":
             await handleStats(interaction, userId);
             break;
+        case "new":
+            await handleNew(interaction, userId);
+            break;
+        case "switch":
+            await handleSwitch(interaction, userId);
+            break;
+        case "list":
+            await handleList(interaction, userId);
+            break;
+        case "rename":
+            await handleRename(interaction, userId);
+            break;
+        case "delete":
+            await handleDelete(interaction, userId);
+            break;
+        case "export":
+            await handleExport(interaction, userId);
+            break;
+        case "import":
+            await handleImport(interaction, userId);
+            break;
     }
 }
 
@@ -197,7 +376,7 @@ async function handleChat(interaction: ChatInputCommandInteraction, userId: stri
     const modelOverride = interaction.options.getString("model");
     const searchProvider = interaction.options.getString("searchprovider") as WebSearchProvider | null;
     const searchVariant = interaction.options.getString("searchvariant") as WebSearchVariant | null;
-    const imageAttachment = interaction.options.getAttachment("image");
+    const fileAttachment = interaction.options.getAttachment("file");
 
     const guildId = interaction.guildId || "dm";
 
@@ -224,6 +403,15 @@ async function handleChat(interaction: ChatInputCommandInteraction, userId: stri
         }
     }
 
+    // Validate the file type before paying for a download
+    if (fileAttachment && !isSupportedFile(fileAttachment.name)) {
+        await interaction.reply({
+            content: `Unsupported file type. Supported types: ${getSupportedExtensions().join(", ")}`,
+            ephemeral: true,
+        });
+        return;
+    }
+
     // Defer the reply since API calls can take time
     await interaction.deferReply();
 
@@ -231,144 +419,188 @@ async function handleChat(interaction: ChatInputCommandInteraction, userId: stri
         // Determine the model to use
         const model = modelOverride || getDefaultModel(guildId, userId);
 
-        // Build the system prompt with optional context
-        let systemContent = SYSTEM_PROMPT;
+        // Images are checked against the model before anything is downloaded
+        const { parts: imageParts } = await collectImageInputs(interaction, model);
+
+        // Look up the optional context document
+        let contextText = "";
+        let citations: string | null = null;
+        let sizeWarning: string | null = null;
+        let estimatedTokens = 0;
 
         if (contextName) {
-            // Look for user context first, then fall back to server context
-            const context = getContext(guildId, contextName, userId);
-            if (context) {
-                systemContent += `\n\n--- CONTEXT: ${context.name} (${context.source_filename}) ---\n${context.content}`;
-            } else {
+            // Look for user contexts first, then fall back to server contexts and collections
+            const { contexts, missing } = resolveContexts(guildId, parseContextNames(contextName), userId);
+            if (missing.length > 0) {
                 await interaction.editReply({
-                    content: `Context "${contextName}" not found. Use /context list to see available contexts.`,
+                    content: `Context "${missing.join('", "')}" not found. Use /context list to see available contexts.`,
                 });
                 return;
             }
-        }
 
-        // Build messages array starting with system prompt
-        const messages: ChatMessage[] = [
-            { role: "system", content: systemContent },
-        ];
-
-        // Get conversation history and add to messages
-        const history = getMemoryHistory(userId, 50);
-        for (const msg of history) {
-            messages.push({
-                role: msg.role as "user" | "assistant",
-                content: msg.content,
-            });
-        }
-
-        // Process image if provided
-        if (imageAttachment) {
-            const imagePart = await processImageAttachment(imageAttachment);
-
-            if (!imagePart) {
+            if (contexts.length > MAX_CONTEXTS_PER_MESSAGE) {
                 await interaction.editReply({
-                    content: `Invalid image format. Supported formats: ${VALID_IMAGE_TYPES.join(", ")}`,
+                    content: `Too many contexts (${contexts.length}). You can attach up to ${MAX_CONTEXTS_PER_MESSAGE} documents per message.`,
                 });
                 return;
             }
 
-            // Multipart message with text and image
+            const contextPrompt = await buildContextsPrompt(contexts, userMessage);
+            contextText = contextPrompt.text;
+            citations = contextPrompt.citations;
+            estimatedTokens += contextPrompt.estimatedTokens;
+        }
+
+        // An attached file is parsed for this message only and not stored
+        let file: ChatAttachment | null = null;
+        if (fileAttachment) {
+            file = await loadChatAttachment(fileAttachment);
+            const filePrompt = buildAttachmentPrompt(file);
+            contextText += filePrompt;
+            estimatedTokens += estimateTokens(filePrompt);
+        }
+
+        if (estimatedTokens > 0) {
+            sizeWarning = await getContextSizeWarning(estimatedTokens, model);
+        }
+
+        // Build the new user message, with images if provided
+        let newMessage: ChatMessage;
+
+        if (imageParts.length > 0) {
+            // Multipart message with text and images
             const contentParts: (TextPart | ImagePart)[] = [
                 { type: "text", text: userMessage },
-                imagePart,
+                ...imageParts,
             ];
-            messages.push({ role: "user", content: contentParts });
-            // Store text-only version in memory
-            addMemoryMessage(userId, "user", userMessage, model);
+            newMessage = { role: "user", content: contentParts };
         } else {
             // Simple text message
-            messages.push({ role: "user", content: userMessage });
-            addMemoryMessage(userId, "user", userMessage, model);
+            newMessage = { role: "user", content: userMessage };
         }
 
-        // Make the API call
-        const response = await nanogpt.chat(messages, model, {
-            webSearch: searchProvider || undefined,
-            webSearchVariant: searchVariant || undefined
-        });
+        const session = getActiveSession(userId);
 
-        const assistantMessage =
-            response.choices[0]?.message?.content || "No response received.";
+        // Older turns live in the rolling summary, which goes ahead of recent history
+        const summary = getMemorySummary(session.id);
+        let systemPrompt = SYSTEM_PROMPT;
+        if (summary) {
+            systemPrompt += `\n\n--- SUMMARY OF EARLIER CONVERSATION ---\n${summary.summary}`;
+        }
 
-        // Store assistant response in memory
-        addMemoryMessage(userId, "assistant", assistantMessage, model);
+        // Pack system prompt, context and the newest history into the model's window
+        const budget = getPromptBudget(await getContextLength(model), MAX_RESPONSE_TOKENS, MEMORY_TOKEN_BUDGET);
+        const assembled = assembleHistory({
+            systemPrompt,
+            contextText,
+            history: await withMemoryImages(getMemoryHistory(session.id, MEMORY_HISTORY_LIMIT, summary?.coveredUntilId), model),
+            userMessage: newMessage,
+            budget,
+        });
+        const messages = assembled.messages;
 
         // Build footer with model and search info
-        let footerText = `Model: ${model} | Memory`;
+        let footerText = `Model: ${model} | Memory: ${session.name}`;
         if (searchProvider) {
             const variantText = searchVariant ? `/${searchVariant}` : "";
             footerText += ` | Search: ${searchProvider}${variantText}`;
         }
-        if (imageAttachment) {
-            footerText += " | Image";
+        if (imageParts.length > 0) {
+            footerText += ` | ${formatImageCount(imageParts.length)}`;
+        }
+        if (file) {
+            footerText += ` | File: ${file.filename}${file.truncated ? " (truncated)" : ""}`;
+        }
+        footerText += ` | History: ${assembled.includedTurns}/${assembled.totalTurns} turns`;
+        if (summary) {
+            footerText += ` + summary of ${summary.coveredCount}`;
+        }
+        if (citations) {
+            footerText += ` | Sources: ${citations}`;
+        }
+        if (sizeWarning) {
+            footerText += ` | ${sizeWarning}`;
+        }
+        if (assembled.contextTruncated) {
+            footerText += " | Context truncated";
         }
 
-        // Handle long responses by splitting into chunks
-        const MAX_LENGTH = 4000; // Leave room for embed formatting
+        // Stream the response, progressively editing the reply
+        const stream = nanogpt.chatStream(messages, model, {
+            max_tokens: MAX_RESPONSE_TOKENS,
+            webSearch: searchProvider || undefined,
+            webSearchVariant: searchVariant || undefined
+        });
 
-        if (assistantMessage.length <= MAX_LENGTH) {
-            const embed = new EmbedBuilder()
-                .setDescription(assistantMessage)
-                .setFooter({ text: footerText })
-                .setTimestamp();
+        const reply = await streamChatReply(interactionTarget(interaction), stream, footerText);
 
-            await interaction.editReply({ embeds: [embed] });
-        } else {
-            // Split into multiple messages
-            const chunks: string[] = [];
-            let remaining = assistantMessage;
-
-            while (remaining.length > 0) {
-                if (remaining.length <= MAX_LENGTH) {
-                    chunks.push(remaining);
-                    break;
-                }
+        // Store both turns only once the reply has streamed, so a failed request
+        // leaves nothing behind to be replayed. Images are kept for later turns.
+        addMemoryMessage(session.id, userId, "user", userMessage, model, imageParts.map((part) => part.image_url.url));
+        addMemoryMessage(session.id, userId, "assistant", reply.content, model);
 
-                // Find a good break point
-                let breakPoint = remaining.lastIndexOf("\n\n", MAX_LENGTH);
-                if (breakPoint === -1 || breakPoint < MAX_LENGTH / 2) {
-                    breakPoint = remaining.lastIndexOf("\n", MAX_LENGTH);
-                }
-                if (breakPoint === -1 || breakPoint < MAX_LENGTH / 2) {
-                    breakPoint = remaining.lastIndexOf(" ", MAX_LENGTH);
-                }
-                if (breakPoint === -1) {
-                    breakPoint = MAX_LENGTH;
-                }
+        // Compress older turns in the background once the transcript gets long
+        void maybeSummarizeMemory(session.id);
 
-                chunks.push(remaining.substring(0, breakPoint));
-                remaining = remaining.substring(breakPoint).trim();
-            }
+        if (file) {
+            const replyMessage = await interaction.fetchReply();
+            cacheChatAttachment(replyMessage.id, file);
+            await interaction.editReply({ components: [createSaveFileButton()] });
+        }
+    } catch (error) {
+        console.error("[Memory Chat] Error:", error);
 
-            // Send first chunk as the reply
-            const firstEmbed = new EmbedBuilder()
-                .setDescription(chunks[0])
-                .setFooter({ text: `${footerText} (1/${chunks.length})` })
-                .setTimestamp();
+        await interaction.editReply({
+            content: error instanceof ImageInputError ? error.message : formatErrorForUser(error),
+        });
+    }
+}
 
-            await interaction.editReply({ embeds: [firstEmbed] });
+/**
+ * Load stored images for the newest MEMORY_IMAGE_TURNS turns. Older turns, and
+ * all turns when the model can't see images, get a note in place of them.
+ */
+async function withMemoryImages(
+    history: { id: number; role: string; content: string; imageCount: number }[],
+    model: string
+): Promise<HistoryEntry[]> {
+    const replayImages = MEMORY_IMAGE_TURNS > 0 && (await supportsVision(model)) !== false;
+    const firstReplayed = replayImages ? Math.max(0, history.length - MEMORY_IMAGE_TURNS) : history.length;
+
+    return history.map((turn, index) => {
+        if (turn.imageCount === 0) {
+            return turn;
+        }
+        if (index >= firstReplayed) {
+            return { ...turn, images: getMemoryImages(turn.id) };
+        }
+        return { ...turn, content: `${turn.content}\n[${turn.imageCount} image${turn.imageCount === 1 ? "" : "s"} omitted]` };
+    });
+}
 
-            // Send remaining chunks as follow-up messages
-            for (let i = 1; i < chunks.length; i++) {
-                const embed = new EmbedBuilder()
-                    .setDescription(chunks[i])
-                    .setFooter({ text: `${footerText} (${i + 1}/${chunks.length})` });
+function createSaveFileButton(): ActionRowBuilder<ButtonBuilder> {
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+        new ButtonBuilder()
+            .setCustomId("memory:save-file")
+            .setLabel("Save this as a context")
+            .setStyle(ButtonStyle.Secondary)
+    );
+}
 
-                await interaction.followUp({ embeds: [embed] });
-            }
-        }
-    } catch (error) {
-        console.error("[Memory Chat] Error:", error);
+export async function handleButton(interaction: ButtonInteraction) {
+    if (interaction.customId !== "memory:save-file") return;
 
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+    await interaction.deferReply({ ephemeral: true });
+
+    try {
+        // Saved to the clicker's personal contexts, so anyone can use the button
+        const content = await saveChatAttachment(interaction.message.id, interaction.guildId || "dm", interaction.user.id);
+        await interaction.editReply({ content });
+    } catch (error) {
+        console.error("[Memory Save File] Error:", error);
 
         await interaction.editReply({
-            content: `An error occurred: ${errorMessage}`,
+            content: error instanceof ContextQuotaError ? error.message : formatErrorForUser(error),
         });
     }
 }
@@ -377,15 +609,16 @@ async function handleClear(interaction: ChatInputCommandInteraction, userId: str
     await interaction.deferReply({ ephemeral: true });
 
     try {
-        const deleted = clearMemory(userId);
+        const session = getActiveSession(userId);
+        const deleted = clearMemory(session.id);
 
         if (deleted === 0) {
             await interaction.editReply({
-                content: "Your memory is already empty.",
+                content: `Session **${session.name}** is already empty.`,
             });
         } else {
             await interaction.editReply({
-                content: `Cleared **${deleted}** messages from your memory.`,
+                content: `Cleared **${deleted}** messages from session **${session.name}**.`,
             });
         }
     } catch (error) {
@@ -402,11 +635,13 @@ async function handleView(interaction: ChatInputCommandInteraction, userId: stri
     await interaction.deferReply({ ephemeral: true });
 
     try {
-        const history = getMemoryHistory(userId, count);
+        const session = getActiveSession(userId);
+        const history = getMemoryHistory(session.id, count);
+        const summary = getMemorySummary(session.id);
 
         if (history.length === 0) {
             await interaction.editReply({
-                content: "Your memory is empty. Use `/memory chat` to start a conversation.",
+                content: `Session **${session.name}** is empty. Use \`/memory chat\` to start a conversation.`,
             });
             return;
         }
@@ -418,16 +653,34 @@ async function handleView(interaction: ChatInputCommandInteraction, userId: stri
             const content = msg.content.length > 200
                 ? msg.content.substring(0, 200) + "..."
                 : msg.content;
-            return `${prefix} ${content}`;
+            const images = msg.imageCount > 0 ? ` *(+${msg.imageCount} image${msg.imageCount === 1 ? "" : "s"})*` : "";
+            return `${prefix} ${content}${images}`;
         }).join("\n\n");
 
         const embed = new EmbedBuilder()
-            .setTitle("Conversation Memory")
+            .setTitle(`Conversation Memory: ${session.name}`)
             .setDescription(formatted.substring(0, 4000))
             .setFooter({ text: `Showing ${history.length} message(s)` })
             .setTimestamp();
 
-        await interaction.editReply({ embeds: [embed] });
+        const embeds = [embed];
+
+        // Show the rolling summary ahead of the transcript
+        if (summary) {
+            const summaryText = summary.summary.length > 1500
+                ? summary.summary.substring(0, 1500) + "..."
+                : summary.summary;
+
+            embeds.unshift(
+                new EmbedBuilder()
+                    .setTitle("Summary of Earlier Conversation")
+                    .setDescription(summaryText)
+                    .setFooter({ text: `Covers ${summary.coveredCount} earlier message(s)` })
+                    .setTimestamp(summary.updatedAt)
+            );
+        }
+
+        await interaction.editReply({ embeds });
     } catch (error) {
         console.error("[Memory View] Error:", error);
         await interaction.editReply({
@@ -440,17 +693,19 @@ async function handleStats(interaction: ChatInputCommandInteraction, userId: str
     await interaction.deferReply({ ephemeral: true });
 
     try {
-        const stats = getMemoryStats(userId);
+        const session = getActiveSession(userId);
+        const stats = getMemoryStats(session.id);
+        const summary = getMemorySummary(session.id);
 
         if (stats.count === 0) {
             await interaction.editReply({
-                content: "Your memory is empty. Use `/memory chat` to start a conversation.",
+                content: `Session **${session.name}** is empty. Use \`/memory chat\` to start a conversation.`,
             });
             return;
         }
 
         const embed = new EmbedBuilder()
-            .setTitle("Memory Statistics")
+            .setTitle(`Memory Statistics: ${session.name}`)
             .addFields(
                 { name: "Total Messages", value: stats.count.toString(), inline: true },
                 {
@@ -464,9 +719,24 @@ async function handleStats(interaction: ChatInputCommandInteraction, userId: str
                     inline: true,
                 }
             )
-            .setFooter({ text: "Memory is global and shared across all servers" })
+            .setFooter({ text: "Memory sessions are global and shared across all servers" })
             .setTimestamp();
 
+        if (summary) {
+            embed.addFields(
+                {
+                    name: "Summarized",
+                    value: `${summary.coveredCount} of ${stats.count} messages`,
+                    inline: true,
+                },
+                {
+                    name: "Summary Updated",
+                    value: `<t:${Math.floor(summary.updatedAt.getTime() / 1000)}:R>`,
+                    inline: true,
+                }
+            );
+        }
+
         await interaction.editReply({ embeds: [embed] });
     } catch (error) {
         console.error("[Memory Stats] Error:", error);
@@ -475,3 +745,223 @@ async function handleStats(interaction: ChatInputCommandInteraction, userId: str
         });
     }
 }
+
+async function handleNew(interaction: ChatInputCommandInteraction, userId: string) {
+    const name = interaction.options.getString("name", true).trim();
+
+    if (!name) {
+        await interaction.reply({ content: "Session name cannot be empty.", ephemeral: true });
+        return;
+    }
+
+    const session = createSession(userId, name);
+
+    if (!session) {
+        await interaction.reply({
+            content: `A session named **${name}** already exists. Use \`/memory switch\` to switch to it.`,
+            ephemeral: true,
+        });
+        return;
+    }
+
+    await interaction.reply({
+        content: `Created and switched to session **${session.name}**. \`/memory chat\` now uses this session.`,
+        ephemeral: true,
+    });
+}
+
+async function handleSwitch(interaction: ChatInputCommandInteraction, userId: string) {
+    const name = interaction.options.getString("name", true).trim();
+    const session = switchSession(userId, name);
+
+    if (!session) {
+        await interaction.reply({
+            content: `Session **${name}** not found. Use \`/memory list\` to see your sessions.`,
+            ephemeral: true,
+        });
+        return;
+    }
+
+    const stats = getMemoryStats(session.id);
+
+    await interaction.reply({
+        content: `Switched to session **${session.name}** (${stats.count} message(s)).`,
+        ephemeral: true,
+    });
+}
+
+async function handleList(interaction: ChatInputCommandInteraction, userId: string) {
+    const activeId = getActiveSession(userId).id;
+    const sessions = getSessions(userId);
+
+    const lines: string[] = [];
+    let length = 0;
+    for (const session of sessions) {
+        const marker = session.id === activeId ? " **(active)**" : "";
+        const lastActive = session.last_at ? ` - last used <t:${session.last_at}:R>` : "";
+        const line = `- **${session.name}**${marker} - ${session.message_count} message(s)${lastActive}`;
+
+        if (length + line.length + 1 > MAX_SESSION_LIST_LENGTH) break;
+        lines.push(line);
+        length += line.length + 1;
+    }
+    if (lines.length < sessions.length) {
+        lines.push(`...and ${sessions.length - lines.length} more`);
+    }
+
+    const embed = new EmbedBuilder()
+        .setTitle("Memory Sessions")
+        .setDescription(lines.join("\n"))
+        .setFooter({ text: `Total: ${sessions.length} session(s) | Use /memory switch to change sessions` })
+        .setTimestamp();
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+}
+
+async function handleRename(interaction: ChatInputCommandInteraction, userId: string) {
+    const name = interaction.options.getString("name", true).trim();
+    const newName = interaction.options.getString("new_name", true).trim();
+
+    if (!newName) {
+        await interaction.reply({ content: "Session name cannot be empty.", ephemeral: true });
+        return;
+    }
+
+    const result = renameSession(userId, name, newName);
+
+    const messages = {
+        renamed: `Renamed session **${name}** to **${newName}**.`,
+        not_found: `Session **${name}** not found. Use \`/memory list\` to see your sessions.`,
+        exists: `A session named **${newName}** already exists.`,
+    };
+
+    await interaction.reply({ content: messages[result], ephemeral: true });
+}
+
+async function handleDelete(interaction: ChatInputCommandInteraction, userId: string) {
+    const name = interaction.options.getString("name", true).trim();
+    const wasActive = getActiveSession(userId).name.toLowerCase() === name.toLowerCase();
+    const deleted = deleteSession(userId, name);
+
+    if (deleted === null) {
+        await interaction.reply({
+            content: `Session **${name}** not found. Use \`/memory list\` to see your sessions.`,
+            ephemeral: true,
+        });
+        return;
+    }
+
+    let content = `Deleted session **${name}** and its ${deleted} message(s).`;
+    if (wasActive) {
+        content += ` You are now using session **${getActiveSession(userId).name}**.`;
+    }
+
+    await interaction.reply({ content, ephemeral: true });
+}
+
+async function handleExport(interaction: ChatInputCommandInteraction, userId: string) {
+    const format = interaction.options.getString("format") || "markdown";
+    const name = interaction.options.getString("name")?.trim();
+
+    await interaction.deferReply({ ephemeral: true });
+
+    try {
+        const session = name ? getSession(userId, name) : getActiveSession(userId);
+
+        if (!session) {
+            await interaction.editReply({
+                content: `Session **${name}** not found. Use \`/memory list\` to see your sessions.`,
+            });
+            return;
+        }
+
+        const rows = getAllMemory(session.id);
+
+        if (rows.length === 0) {
+            await interaction.editReply({
+                content: `Session **${session.name}** is empty, so there is nothing to export.`,
+            });
+            return;
+        }
+
+        const isJSON = format === "json";
+        const content = isJSON
+            ? formatTranscriptJSON(session.name, rows)
+            : formatTranscriptMarkdown(session.name, rows);
+        const filename = `memory-${session.name.replace(/[^a-z0-9_-]+/gi, "_")}.${isJSON ? "json" : "md"}`;
+
+        await interaction.editReply({
+            content: `Exported **${rows.length}** message(s) from session **${session.name}**.`,
+            files: [new AttachmentBuilder(Buffer.from(content, "utf-8"), { name: filename })],
+        });
+    } catch (error) {
+        console.error("[Memory Export] Error:", error);
+        await interaction.editReply({
+            content: "Failed to export memory.",
+        });
+    }
+}
+
+async function handleImport(interaction: ChatInputCommandInteraction, userId: string) {
+    const attachment = interaction.options.getAttachment("file", true);
+    const name = (interaction.options.getString("name")
+        ?? attachment.name.replace(/\.[^.]+$/, "")).trim().substring(0, MAX_SESSION_NAME_LENGTH);
+
+    if (attachment.size > MAX_IMPORT_FILE_SIZE) {
+        await interaction.reply({
+            content: `File is too large. The limit is ${MAX_IMPORT_FILE_SIZE / 1024 / 1024}MB.`,
+            ephemeral: true,
+        });
+        return;
+    }
+
+    if (!name) {
+        await interaction.reply({ content: "Session name cannot be empty.", ephemeral: true });
+        return;
+    }
+
+    if (getSession(userId, name)) {
+        await interaction.reply({
+            content: `A session named **${name}** already exists. Choose another name with the \`name\` option.`,
+            ephemeral: true,
+        });
+        return;
+    }
+
+    await interaction.deferReply({ ephemeral: true });
+
+    try {
+        const response = await fetch(attachment.url);
+        if (!response.ok) {
+            throw new Error(`Failed to download file: ${response.statusText}`);
+        }
+
+        const { messages, skippedSystem } = parseTranscriptImport(await response.text());
+
+        const session = createSession(userId, name);
+        if (!session) {
+            await interaction.editReply({ content: `A session named **${name}** already exists.` });
+            return;
+        }
+
+        const imported = importMemoryMessages(session.id, userId, messages);
+
+        let content = `Imported **${imported}** message(s) into new session **${session.name}**, which is now active.`;
+        if (skippedSystem > 0) {
+            content += ` Skipped ${skippedSystem} system message(s).`;
+        }
+
+        await interaction.editReply({ content });
+
+        // Large imports get summarized like any long transcript
+        void maybeSummarizeMemory(session.id);
+    } catch (error) {
+        console.error("[Memory Import] Error:", error);
+
+        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
+
+        await interaction.editReply({
+            content: `Failed to import memory: ${errorMessage}`,
+        });
+    }
+}
@@ -0,0 +1,149 @@
+import {
+    SlashCommandBuilder,
+    ChatInputCommandInteraction,
+    EmbedBuilder,
+    ChannelType,
+} from "discord.js";
+import {
+    setMentionsEnabled,
+    areMentionsEnabled,
+    getMentionChannels,
+    addMentionChannel,
+    removeMentionChannel,
+} from "../../db/index.ts";
+import { isAdminUser } from "../../utils/features.ts";
+
+const CHANNEL_TYPES = [
+    ChannelType.GuildText,
+    ChannelType.GuildAnnouncement,
+    ChannelType.GuildForum,
+] as const;
+
+export const data = new SlashCommandBuilder()
+    .setName("mentions")
+    .setDescription("Configure whether the bot answers @mentions and replies in this server")
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("enable")
+            .setDescription("Answer @mentions and replies to the bot")
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("disable")
+            .setDescription("Stop answering @mentions and replies")
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("allow")
+            .setDescription("Add a channel to the allowlist (an empty allowlist means all channels)")
+            .addChannelOption((option) =>
+                option
+                    .setName("channel")
+                    .setDescription("The channel to allow")
+                    .setRequired(true)
+                    .addChannelTypes(...CHANNEL_TYPES)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("disallow")
+            .setDescription("Remove a channel from the allowlist")
+            .addChannelOption((option) =>
+                option
+                    .setName("channel")
+                    .setDescription("The channel to remove")
+                    .setRequired(true)
+                    .addChannelTypes(...CHANNEL_TYPES)
+            )
+    )
+    .addSubcommand((subcommand) =>
+        subcommand
+            .setName("status")
+            .setDescription("Show the current mention settings")
+    );
+
+export async function execute(interaction: ChatInputCommandInteraction) {
+    const subcommand = interaction.options.getSubcommand();
+
+    if (!interaction.guildId) {
+        await interaction.reply({
+            content: "Mention settings can only be configured in a server.",
+            ephemeral: true,
+        });
+        return;
+    }
+
+    if (subcommand !== "status" && !isAdminUser(interaction)) {
+        await interaction.reply({
+            content: "You don't have permission to change mention settings. Only administrators or whitelisted users can do this.",
+            ephemeral: true,
+        });
+        return;
+    }
+
+    const guildId = interaction.guildId;
+
+    switch (subcommand) {
+        case "enable":
+            setMentionsEnabled(guildId, true);
+            await interaction.reply({
+                content: "The bot will now answer @mentions and replies to its messages.",
+                ephemeral: true,
+            });
+            break;
+        case "disable":
+            setMentionsEnabled(guildId, false);
+            await interaction.reply({
+                content: "The bot will no longer answer @mentions and replies.",
+                ephemeral: true,
+            });
+            break;
+        case "allow": {
+            const channel = interaction.options.getChannel("channel", true);
+            const added = addMentionChannel(guildId, channel.id);
+            await interaction.reply({
+                content: added
+                    ? `<#${channel.id}> added to the mention allowlist.`
+                    : `<#${channel.id}> is already on the mention allowlist.`,
+                ephemeral: true,
+            });
+            break;
+        }
+        case "disallow": {
+            const channel = interaction.options.getChannel("channel", true);
+            const removed = removeMentionChannel(guildId, channel.id);
+            await interaction.reply({
+                content: removed
+                    ? `<#${channel.id}> removed from the mention allowlist.`
+                    : `<#${channel.id}> is not on the mention allowlist.`,
+                ephemeral: true,
+            });
+            break;
+        }
+        case "status":
+            await handleStatus(interaction, guildId);
+            break;
+    }
+}
+
+async function handleStatus(interaction: ChatInputCommandInteraction, guildId: string) {
+    const enabled = areMentionsEnabled(guildId);
+    const channels = getMentionChannels(guildId);
+
+    const embed = new EmbedBuilder()
+        .setTitle("Mention Settings")
+        .addFields(
+            { name: "Status", value: enabled ? "Enabled" : "Disabled", inline: true },
+            {
+                name: "Channels",
+                value: channels.length > 0
+                    ? channels.map((id) => `<#${id}>`).join(", ")
+                    : "All channels",
+                inline: true,
+            }
+        )
+        .setFooter({ text: "Use /mentions enable and /mentions allow to configure" })
+        .setTimestamp();
+
+    await interaction.reply({ embeds: [embed], ephemeral: true });
+}
@@ -3,9 +3,27 @@ import {
     ChatInputCommandInteraction,
     EmbedBuilder,
     AttachmentBuilder,
+    ActionRowBuilder,
+    ButtonBuilder,
+    ButtonInteraction,
+    ButtonStyle,
 } from "discord.js";
 import { nanogpt, type ScrapeResult } from "../../api/nanogpt.ts";
+import { formatErrorForUser } from "../../api/errors.ts";
+import { addContext, ContextQuotaError } from "../../db/index.ts";
 import { canUseFeature } from "../../utils/features.ts";
+import {
+    indexAndEmbedContext,
+    scrapePageForContext,
+    uniqueContextName,
+    MAX_CONTEXT_CONTENT_SIZE,
+    type ScrapedPage,
+} from "../../utils/contexts.ts";
+
+// Scraped pages are kept briefly so "Save as context" doesn't pay for a second scrape
+const SAVE_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
+
+const scrapeCache = new Map<string, { pages: (ScrapedPage | null)[]; expiresAt: number }>();
 
 export const data = new SlashCommandBuilder()
     .setName("scrape")
@@ -125,17 +143,22 @@ export async function execute(interaction: ChatInputCommandInteraction) {
         // Discord limits: max 10 embeds per message
         const embedsToSend = embeds.slice(0, 10);
 
-        await interaction.editReply({
+        const components = createSaveButtons(response.results.slice(0, 9));
+
+        const reply = await interaction.editReply({
             embeds: embedsToSend,
             files: attachments,
+            components,
         });
+
+        if (components.length > 0) {
+            cacheScrapedPages(reply.id, response.results);
+        }
     } catch (error) {
         console.error("[Scrape] Error:", error);
 
-        const errorMessage = error instanceof Error ? error.message : "Unknown error occurred";
-
         await interaction.editReply({
-            content: `An error occurred: ${errorMessage}`,
+            content: formatErrorForUser(error),
         });
     }
 }
@@ -173,3 +196,95 @@ function sanitizeFilename(name: string): string {
         .replace(/\s+/g, "_")
         .substring(0, 100) || "scraped";
 }
+
+function cacheScrapedPages(messageId: string, results: ScrapeResult[]): void {
+    const now = Date.now();
+    for (const [id, entry] of scrapeCache) {
+        if (entry.expiresAt <= now) scrapeCache.delete(id);
+    }
+
+    scrapeCache.set(messageId, {
+        pages: results.map((result) => {
+            const markdown = (result.markdown || result.content || "").trim();
+            if (!result.success || !markdown) return null;
+
+            return {
+                url: result.url,
+                title: result.title || result.url,
+                content: markdown.substring(0, MAX_CONTEXT_CONTENT_SIZE),
+                truncated: markdown.length > MAX_CONTEXT_CONTENT_SIZE,
+            };
+        }),
+        expiresAt: now + SAVE_CACHE_TTL,
+    });
+}
+
+function createSaveButtons(results: ScrapeResult[]): ActionRowBuilder<ButtonBuilder>[] {
+    const saveable = results
+        .map((result, index) => ({ result, index }))
+        .filter(({ result }) => result.success && (result.markdown || result.content))
+        .slice(0, 5);
+
+    if (saveable.length === 0) return [];
+
+    return [
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+            saveable.map(({ index }) =>
+                new ButtonBuilder()
+                    .setCustomId(`scrape:save:${index}`)
+                    .setLabel(results.length === 1 ? "Save as context" : `Save #${index + 1} as context`)
+                    .setStyle(ButtonStyle.Secondary)
+            )
+        ),
+    ];
+}
+
+export async function handleButton(interaction: ButtonInteraction) {
+    const [, action, indexText] = interaction.customId.split(":");
+    if (action !== "save") return;
+
+    const index = Number(indexText);
+    const guildId = interaction.guildId || "dm";
+    const userId = interaction.user.id;
+
+    await interaction.deferReply({ ephemeral: true });
+
+    try {
+        // Fall back to scraping again when the cached result has expired
+        let page = scrapeCache.get(interaction.message.id)?.pages[index] ?? null;
+        if (!page) {
+            const url = interaction.message.embeds[index]?.url;
+            if (!url) {
+                await interaction.editReply({ content: "This scrape result is no longer available." });
+                return;
+            }
+
+            const featureCheck = canUseFeature(interaction, "SCRAPE");
+            if (!featureCheck.allowed) {
+                await interaction.editReply({ content: featureCheck.reason });
+                return;
+            }
+
+            page = await scrapePageForContext(url);
+        }
+
+        // Saved to the clicker's personal contexts, so anyone can use the button
+        const name = uniqueContextName(guildId, userId, page.title, "scraped-page");
+        const contextId = addContext(guildId, name, page.content, page.url, "md", userId, page.url);
+        const { chunkCount } = await indexAndEmbedContext(contextId, page.content);
+
+        await interaction.editReply({
+            content: [
+                `Saved [${page.title}](<${page.url}>) as personal context **${name}**`,
+                `(${page.content.length.toLocaleString()} characters${page.truncated ? ", truncated" : ""}, ${chunkCount} passages).`,
+                `Use \`/chat context:${name}\` to include it, or \`/context refresh name:${name}\` to re-scrape it later.`,
+            ].join(" "),
+        });
+    } catch (error) {
+        console.error("[Scrape Save] Error:", error);
+
+        await interaction.editReply({
+            content: error instanceof ContextQuotaError ? error.message : formatErrorForUser(error),
+        });
+    }
+}
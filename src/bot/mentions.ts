@@ -0,0 +1,150 @@
+import { Message } from "discord.js";
+import { nanogpt, type ChatMessage, type TextPart, type ImagePart } from "../api/nanogpt.ts";
+import { formatErrorForUser } from "../api/errors.ts";
+import { getDefaultModel, canRespondToMention } from "../db/index.ts";
+import { streamChatReply, messageTarget } from "../utils/streaming.ts";
+import { processImageAttachment, isValidImage, formatImageCount, MAX_IMAGES_PER_MESSAGE } from "../utils/images.ts";
+import { supportsVision } from "../utils/models.ts";
+
+const SYSTEM_PROMPT = process.env.SYSTEM_PROMPT || "You are a helpful AI assistant.";
+
+// How many replied-to messages to walk back through when rebuilding history
+const MAX_REPLY_CHAIN = 20;
+
+/**
+ * Strip mentions of the bot so the model only sees the actual question.
+ */
+function stripBotMention(content: string, botId: string): string {
+    return content.replace(new RegExp(`<@!?${botId}>`, "g"), "").trim();
+}
+
+/**
+ * Read the text of a message as the model should see it. Bot replies are
+ * embeds, so their text lives in the embed descriptions.
+ */
+function getMessageText(message: Message, botId: string): string {
+    if (message.author.id === botId) {
+        const embedText = message.embeds
+            .map((embed) => embed.description)
+            .filter(Boolean)
+            .join("\n\n");
+        return embedText || message.content;
+    }
+    return stripBotMention(message.content, botId);
+}
+
+/**
+ * Walk the reply chain above a message and rebuild it as conversation
+ * history, oldest first. Messages from the bot become assistant turns.
+ */
+async function buildReplyChain(message: Message, botId: string): Promise<ChatMessage[]> {
+    const history: ChatMessage[] = [];
+    let current = message;
+
+    for (let i = 0; i < MAX_REPLY_CHAIN && current.reference?.messageId; i++) {
+        try {
+            current = await current.fetchReference();
+        } catch {
+            // Referenced message was deleted or is inaccessible
+            break;
+        }
+
+        const text = getMessageText(current, botId);
+        if (!text) continue;
+
+        history.unshift({
+            role: current.author.id === botId ? "assistant" : "user",
+            content: text,
+        });
+    }
+
+    return history;
+}
+
+/**
+ * Answer a message that @mentions the bot or replies to one of its messages,
+ * using the same model resolution, image handling and streaming as /chat.
+ *
+ * Returns false when the message is not a trigger or mentions are disabled.
+ */
+export async function handleMentionMessage(message: Message): Promise<boolean> {
+    if (!message.inGuild()) return false;
+
+    const botId = message.client.user.id;
+    const isMention = message.mentions.users.has(botId);
+    const isReplyToBot = message.mentions.repliedUser?.id === botId;
+
+    if (!isMention && !isReplyToBot) return false;
+
+    const parentId = message.channel.isThread() ? message.channel.parentId : null;
+    if (!canRespondToMention(message.guildId, message.channelId, parentId)) return false;
+
+    const userMessage = stripBotMention(message.content, botId);
+    const imageAttachments = message.attachments.filter(isValidImage);
+
+    if (!userMessage && imageAttachments.size === 0) return false;
+
+    try {
+        const model = getDefaultModel(message.guildId, message.author.id);
+
+        // Checked before anything is downloaded, like /chat
+        if (imageAttachments.size > 0 && (await supportsVision(model)) === false) {
+            await message.reply({
+                content: `**${model}** doesn't accept images. Ask again without them, or pick a vision model with /setmodel.`,
+                allowedMentions: { repliedUser: false },
+            });
+            return true;
+        }
+
+        await message.channel.sendTyping();
+
+        const messages: ChatMessage[] = [
+            { role: "system", content: SYSTEM_PROMPT },
+            ...(await buildReplyChain(message, botId)),
+        ];
+
+        // Forward image attachments alongside the text; extras and unreadable ones are noted in the footer
+        const imageParts: ImagePart[] = [];
+        for (const attachment of [...imageAttachments.values()].slice(0, MAX_IMAGES_PER_MESSAGE)) {
+            const imagePart = await processImageAttachment(attachment);
+            if (imagePart) {
+                imageParts.push(imagePart);
+            }
+        }
+
+        if (imageParts.length > 0) {
+            const contentParts: (TextPart | ImagePart)[] = [
+                { type: "text", text: userMessage || "What is in this image?" },
+                ...imageParts,
+            ];
+            messages.push({ role: "user", content: contentParts });
+        } else {
+            messages.push({ role: "user", content: userMessage });
+        }
+
+        let footerText = `Model: ${model}`;
+        if (imageParts.length > 0) {
+            footerText += ` | ${formatImageCount(imageParts.length)}`;
+        }
+        const overLimit = Math.max(0, imageAttachments.size - MAX_IMAGES_PER_MESSAGE);
+        const unreadable = imageAttachments.size - overLimit - imageParts.length;
+        if (overLimit > 0) {
+            footerText += ` | Skipped ${overLimit} image(s) over the limit of ${MAX_IMAGES_PER_MESSAGE}`;
+        }
+        if (unreadable > 0) {
+            footerText += ` | Couldn't read ${unreadable} image(s)`;
+        }
+
+        const stream = nanogpt.chatStream(messages, model);
+        await streamChatReply(messageTarget(message), stream, footerText);
+    } catch (error) {
+        console.error("[Mention] Error:", error);
+
+        await message.reply({
+            content: formatErrorForUser(error),
+            allowedMentions: { repliedUser: false },
+        });
+    }
+
+    return true;
+}
@@ -0,0 +1,102 @@
+import { Message } from "discord.js";
+import { nanogpt, type ChatMessage, type WebSearchProvider, type WebSearchVariant } from "../api/nanogpt.ts";
+import { formatErrorForUser } from "../api/errors.ts";
+import { getThread, addThreadMessage, getThreadMessages } from "../db/index.ts";
+import { parseContextNames, resolveContexts, buildContextsPrompt } from "../utils/contexts.ts";
+import { streamChatReply, messageTarget } from "../utils/streaming.ts";
+import { assembleHistory, getPromptBudget, type HistoryEntry } from "../utils/history.ts";
+import { getContextLength } from "../utils/models.ts";
+
+const SYSTEM_PROMPT = process.env.SYSTEM_PROMPT || "You are a helpful AI assistant.";
+
+// Tokens reserved for the reply when packing thread history into the model's window
+const MAX_RESPONSE_TOKENS = 4000;
+
+/**
+ * Continue a /chat conversation inside its thread. Every participant's
+ * message is sent with as much of the thread history as fits the model's
+ * window, using the model, context and search settings pinned when the
+ * thread was created. Both turns are stored once the reply has streamed.
+ *
+ * Returns false when the message is not in a tracked thread.
+ */
+export async function handleThreadMessage(message: Message): Promise<boolean> {
+    if (!message.channel.isThread()) return false;
+
+    const thread = getThread(message.channelId);
+    if (!thread?.started_at) return false;
+
+    const userMessage = message.content.trim();
+    if (!userMessage) return true;
+
+    const authorName = message.member?.displayName ?? message.author.displayName;
+
+    try {
+        await message.channel.sendTyping();
+
+        // Build the context block from the pinned contexts, if they still exist
+        let contextText = "";
+        let citations: string | null = null;
+        if (thread.context_name) {
+            // Contexts deleted since the thread started are skipped
+            const { contexts } = resolveContexts(thread.guild_id, parseContextNames(thread.context_name), thread.user_id);
+            if (contexts.length > 0) {
+                const contextPrompt = await buildContextsPrompt(contexts, userMessage);
+                contextText = contextPrompt.text;
+                citations = contextPrompt.citations;
+            }
+        }
+
+        // Prefix user turns with the author so the model can tell participants apart
+        const history: HistoryEntry[] = getThreadMessages(thread.id).map((msg) => ({
+            role: msg.role,
+            content: msg.role === "user" && msg.authorName ? `${msg.authorName}: ${msg.content}` : msg.content,
+        }));
+        const newMessage: ChatMessage = { role: "user", content: `${authorName}: ${userMessage}` };
+
+        // Long threads drop their oldest turns instead of overflowing the model's window
+        const assembled = assembleHistory({
+            systemPrompt: SYSTEM_PROMPT,
+            contextText,
+            history,
+            userMessage: newMessage,
+            budget: getPromptBudget(await getContextLength(thread.model), MAX_RESPONSE_TOKENS),
+        });
+
+        let footerText = `Model: ${thread.model} | Thread`;
+        if (thread.search_provider) {
+            const variantText = thread.search_variant ? `/${thread.search_variant}` : "";
+            footerText += ` | Search: ${thread.search_provider}${variantText}`;
+        }
+        if (assembled.includedTurns < assembled.totalTurns) {
+            footerText += ` | History: ${assembled.includedTurns}/${assembled.totalTurns} turns`;
+        }
+        if (citations) {
+            footerText += ` | Sources: ${citations}`;
+        }
+        if (assembled.contextTruncated) {
+            footerText += " | Context truncated";
+        }
+
+        const stream = nanogpt.chatStream(assembled.messages, thread.model, {
+            max_tokens: MAX_RESPONSE_TOKENS,
+            webSearch: (thread.search_provider as WebSearchProvider | null) || undefined,
+            webSearchVariant: (thread.search_variant as WebSearchVariant | null) || undefined,
+        });
+
+        const reply = await streamChatReply(messageTarget(message), stream, footerText);
+
+        // A failed request leaves no turn behind to be replayed with later messages
+        addThreadMessage(thread.id, "user", userMessage, message.author.id, authorName);
+        addThreadMessage(thread.id, "assistant", reply.content);
+    } catch (error) {
+        console.error("[Thread] Error:", error);
+
+        await message.reply({
+            content: formatErrorForUser(error),
+            allowedMentions: { repliedUser: false },
+        });
+    }
+
+    return true;
+}
@@ -23,6 +23,7 @@ db.exec(`
   CREATE TABLE IF NOT EXISTS guilds (
     id TEXT PRIMARY KEY,
     default_model TEXT DEFAULT 'gpt-4o-mini',
+    mentions_enabled INTEGER DEFAULT 0,
     created_at INTEGER DEFAULT (unixepoch())
   );
 
@@ -30,6 +31,7 @@ db.exec(`
   CREATE TABLE IF NOT EXISTS users (
     id TEXT PRIMARY KEY,
     default_model TEXT,
+    active_session_id INTEGER,
     created_at INTEGER DEFAULT (unixepoch())
   );
 
@@ -42,20 +44,204 @@ db.exec(`
     content TEXT NOT NULL,
     source_filename TEXT,
     file_type TEXT,
+    source_url TEXT,
+    title TEXT,
+    author TEXT,
     created_at INTEGER DEFAULT (unixepoch()),
+    updated_at INTEGER,
     UNIQUE(guild_id, user_id, name)
   );
 
-  -- Per-user conversation memory (global across servers)
+  -- Passages of context documents, retrieved by relevance at chat time
+  CREATE TABLE IF NOT EXISTS context_chunks (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    context_id INTEGER NOT NULL,
+    chunk_index INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    embedding BLOB,
+    embedding_model TEXT,
+    UNIQUE(context_id, chunk_index)
+  );
+
+  -- Full-text index over context_chunks, kept in sync by the triggers below
+  CREATE VIRTUAL TABLE IF NOT EXISTS context_chunks_fts USING fts5(
+    content,
+    content='context_chunks',
+    content_rowid='id',
+    tokenize='porter unicode61'
+  );
+
+  CREATE TRIGGER IF NOT EXISTS context_chunks_ai AFTER INSERT ON context_chunks BEGIN
+    INSERT INTO context_chunks_fts (rowid, content) VALUES (new.id, new.content);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS context_chunks_ad AFTER DELETE ON context_chunks BEGIN
+    INSERT INTO context_chunks_fts (context_chunks_fts, rowid, content) VALUES ('delete', old.id, old.content);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS contexts_ad AFTER DELETE ON contexts BEGIN
+    DELETE FROM context_chunks WHERE context_id = old.id;
+  END;
+
+  -- Every uploaded revision of a context; the highest version is the current content
+  CREATE TABLE IF NOT EXISTS context_versions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    context_id INTEGER NOT NULL,
+    version INTEGER NOT NULL,
+    content TEXT NOT NULL,
+    source_filename TEXT,
+    file_type TEXT,
+    uploaded_by TEXT,
+    note TEXT,
+    created_at INTEGER DEFAULT (unixepoch()),
+    UNIQUE(context_id, version)
+  );
+
+  CREATE TRIGGER IF NOT EXISTS contexts_ad_versions AFTER DELETE ON contexts BEGIN
+    DELETE FROM context_versions WHERE context_id = old.id;
+  END;
+
+  -- Free-form labels on contexts
+  CREATE TABLE IF NOT EXISTS context_tags (
+    context_id INTEGER NOT NULL,
+    tag TEXT NOT NULL COLLATE NOCASE,
+    PRIMARY KEY (context_id, tag)
+  );
+
+  -- Named groups of contexts that can be attached to a chat as one
+  CREATE TABLE IF NOT EXISTS context_collections (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    guild_id TEXT NOT NULL,
+    user_id TEXT,
+    name TEXT NOT NULL,
+    created_at INTEGER DEFAULT (unixepoch()),
+    UNIQUE(guild_id, user_id, name)
+  );
+
+  CREATE TABLE IF NOT EXISTS context_collection_items (
+    collection_id INTEGER NOT NULL,
+    context_id INTEGER NOT NULL,
+    added_at INTEGER DEFAULT (unixepoch()),
+    PRIMARY KEY (collection_id, context_id)
+  );
+
+  CREATE TRIGGER IF NOT EXISTS contexts_ad_tags AFTER DELETE ON contexts BEGIN
+    DELETE FROM context_tags WHERE context_id = old.id;
+    DELETE FROM context_collection_items WHERE context_id = old.id;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS context_collections_ad AFTER DELETE ON context_collections BEGIN
+    DELETE FROM context_collection_items WHERE collection_id = old.id;
+  END;
+
+  -- Per-guild settings as key/value pairs, e.g. admin quota overrides
+  CREATE TABLE IF NOT EXISTS settings (
+    guild_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at INTEGER DEFAULT (unixepoch()),
+    PRIMARY KEY (guild_id, key)
+  );
+
+  -- Named memory sessions; users.active_session_id points at the current one
+  CREATE TABLE IF NOT EXISTS memory_sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    name TEXT NOT NULL COLLATE NOCASE,
+    created_at INTEGER DEFAULT (unixepoch()),
+    UNIQUE(user_id, name)
+  );
+
+  -- Per-session conversation memory (global across servers)
   CREATE TABLE IF NOT EXISTS memories (
     id INTEGER PRIMARY KEY AUTOINCREMENT,
     user_id TEXT NOT NULL,
+    session_id INTEGER,
     role TEXT NOT NULL,
     content TEXT NOT NULL,
     model TEXT,
     created_at INTEGER DEFAULT (unixepoch())
   );
   CREATE INDEX IF NOT EXISTS idx_memories_user ON memories(user_id, created_at);
+
+  -- Images sent with memory turns, replayed to vision models in later turns.
+  -- Inlined images keep their bytes; images passed by URL keep the URL.
+  CREATE TABLE IF NOT EXISTS memory_images (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    memory_id INTEGER NOT NULL,
+    mime_type TEXT,
+    data BLOB,
+    url TEXT,
+    created_at INTEGER DEFAULT (unixepoch())
+  );
+  CREATE INDEX IF NOT EXISTS idx_memory_images_memory ON memory_images(memory_id);
+
+  -- Rolling summary of memory turns that have been compressed out of the transcript
+  CREATE TABLE IF NOT EXISTS memory_summaries (
+    session_id INTEGER PRIMARY KEY,
+    summary TEXT NOT NULL,
+    covered_until_id INTEGER NOT NULL,
+    covered_count INTEGER NOT NULL,
+    model TEXT,
+    updated_at INTEGER DEFAULT (unixepoch())
+  );
+
+  -- Conversations continued from /chat in a Discord thread.
+  -- The id is the starter message id, which Discord reuses as the thread id.
+  CREATE TABLE IF NOT EXISTS threads (
+    id TEXT PRIMARY KEY,
+    guild_id TEXT NOT NULL,
+    channel_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    model TEXT NOT NULL,
+    context_name TEXT,
+    search_provider TEXT,
+    search_variant TEXT,
+    started_at INTEGER,
+    created_at INTEGER DEFAULT (unixepoch())
+  );
+
+  CREATE TABLE IF NOT EXISTS thread_messages (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    thread_id TEXT NOT NULL,
+    user_id TEXT,
+    author_name TEXT,
+    role TEXT NOT NULL,
+    content TEXT NOT NULL,
+    created_at INTEGER DEFAULT (unixepoch())
+  );
+  CREATE INDEX IF NOT EXISTS idx_thread_messages_thread ON thread_messages(thread_id, id);
+
+  -- /chat replies, keyed by the reply's first message id, so the regenerate,
+  -- continue, retry and delete buttons work after a restart. Contexts, files
+  -- and images are stored as references and loaded again when needed.
+  CREATE TABLE IF NOT EXISTS chat_replies (
+    message_id TEXT PRIMARY KEY,
+    guild_id TEXT NOT NULL,
+    channel_id TEXT NOT NULL,
+    user_id TEXT NOT NULL,
+    model TEXT NOT NULL,
+    prompt TEXT NOT NULL,
+    context_name TEXT,
+    image_sources TEXT NOT NULL DEFAULT '[]',
+    file_name TEXT,
+    file_url TEXT,
+    turns TEXT NOT NULL DEFAULT '[]',
+    response TEXT NOT NULL,
+    finish_reason TEXT,
+    search_provider TEXT,
+    search_variant TEXT,
+    part_ids TEXT NOT NULL DEFAULT '[]',
+    created_at INTEGER DEFAULT (unixepoch())
+  );
+  CREATE INDEX IF NOT EXISTS idx_chat_replies_created ON chat_replies(created_at);
+
+  -- Channels where the bot answers mentions and replies (empty = all channels)
+  CREATE TABLE IF NOT EXISTS mention_channels (
+    guild_id TEXT NOT NULL,
+    channel_id TEXT NOT NULL,
+    PRIMARY KEY (guild_id, channel_id)
+  );
 `);
 
 // Add user_id column if it doesn't exist (migration for existing databases)
@@ -65,10 +251,64 @@ try {
     // Column already exists
 }
 
+// Add URL source tracking columns if they don't exist (migration for existing databases)
+try {
+    db.exec("ALTER TABLE contexts ADD COLUMN source_url TEXT");
+    db.exec("ALTER TABLE contexts ADD COLUMN updated_at INTEGER");
+} catch {
+    // Columns already exist
+}
+
+// Add document metadata columns if they don't exist (migration for existing databases)
+try {
+    db.exec("ALTER TABLE contexts ADD COLUMN title TEXT");
+    db.exec("ALTER TABLE contexts ADD COLUMN author TEXT");
+} catch {
+    // Columns already exist
+}
+
+// Add chunk embedding columns if they don't exist (migration for existing databases)
+try {
+    db.exec("ALTER TABLE context_chunks ADD COLUMN embedding BLOB");
+    db.exec("ALTER TABLE context_chunks ADD COLUMN embedding_model TEXT");
+} catch {
+    // Columns already exist
+}
+
+// Move memories into named sessions (migration for existing databases).
+// Rows from before sessions existed land in each user's default session.
+try {
+    db.exec("ALTER TABLE memories ADD COLUMN session_id INTEGER");
+} catch {
+    // Column already exists
+}
+
+try {
+    db.exec("ALTER TABLE users ADD COLUMN active_session_id INTEGER");
+} catch {
+    // Column already exists
+}
+
+db.exec(`
+  INSERT OR IGNORE INTO memory_sessions (user_id, name)
+    SELECT DISTINCT user_id, 'default' FROM memories WHERE session_id IS NULL;
+  UPDATE memories SET session_id = (
+    SELECT id FROM memory_sessions s WHERE s.user_id = memories.user_id AND s.name = 'default'
+  ) WHERE session_id IS NULL;
+  CREATE INDEX IF NOT EXISTS idx_memories_session ON memories(session_id, id);
+`);
+
+// Add mentions_enabled column if it doesn't exist (migration for existing databases)
+try {
+    db.exec("ALTER TABLE guilds ADD COLUMN mentions_enabled INTEGER DEFAULT 0");
+} catch {
+    // Column already exists
+}
+
 // Prepared statements for common operations
 export const queries = {
     // Guild operations
-    getGuild: db.prepare<{ id: string; default_model: string; created_at: number }, [string]>(
+    getGuild: db.prepare<{ id: string; default_model: string | null; mentions_enabled: number; created_at: number }, [string]>(
         "SELECT * FROM guilds WHERE id = ?"
     ),
     upsertGuild: db.prepare(
@@ -85,41 +325,47 @@ export const queries = {
 
     // Context operations - Server scope (user_id IS NULL)
     getServerContext: db.prepare<
-        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; created_at: number },
+        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; source_url: string | null; title: string | null; author: string | null; created_at: number; updated_at: number | null },
         [string, string]
     >("SELECT * FROM contexts WHERE guild_id = ? AND name = ? AND user_id IS NULL"),
 
     getServerContexts: db.prepare<
-        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; created_at: number },
+        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; source_url: string | null; title: string | null; author: string | null; created_at: number; updated_at: number | null },
         [string]
     >("SELECT * FROM contexts WHERE guild_id = ? AND user_id IS NULL ORDER BY created_at DESC"),
 
     insertServerContext: db.prepare(
-        "INSERT INTO contexts (guild_id, user_id, name, content, source_filename, file_type) VALUES (?, NULL, ?, ?, ?, ?)"
+        "INSERT INTO contexts (guild_id, user_id, name, content, source_filename, file_type, source_url, title, author) VALUES (?, NULL, ?, ?, ?, ?, ?, ?, ?)"
     ),
 
     deleteServerContext: db.prepare("DELETE FROM contexts WHERE guild_id = ? AND name = ? AND user_id IS NULL"),
 
     // Context operations - User scope
     getUserContext: db.prepare<
-        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; created_at: number },
+        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; source_url: string | null; title: string | null; author: string | null; created_at: number; updated_at: number | null },
         [string, string, string]
     >("SELECT * FROM contexts WHERE guild_id = ? AND user_id = ? AND name = ?"),
 
     getUserContexts: db.prepare<
-        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; created_at: number },
+        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; source_url: string | null; title: string | null; author: string | null; created_at: number; updated_at: number | null },
         [string, string]
     >("SELECT * FROM contexts WHERE guild_id = ? AND user_id = ? ORDER BY created_at DESC"),
 
     insertUserContext: db.prepare(
-        "INSERT INTO contexts (guild_id, user_id, name, content, source_filename, file_type) VALUES (?, ?, ?, ?, ?, ?)"
+        "INSERT INTO contexts (guild_id, user_id, name, content, source_filename, file_type, source_url, title, author) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)"
     ),
 
     deleteUserContext: db.prepare("DELETE FROM contexts WHERE guild_id = ? AND user_id = ? AND name = ?"),
 
+    updateContextContent: db.prepare(
+        "UPDATE contexts SET content = ?, source_filename = ?, file_type = ?, source_url = ?, updated_at = unixepoch() WHERE id = ?"
+    ),
+
+    updateContextMetadata: db.prepare("UPDATE contexts SET title = ?, author = ? WHERE id = ?"),
+
     // Combined query - get context by name (checks user first, then server)
     getContextByName: db.prepare<
-        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; created_at: number },
+        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; source_url: string | null; title: string | null; author: string | null; created_at: number; updated_at: number | null },
         [string, string, string]
     >("SELECT * FROM contexts WHERE guild_id = ? AND name = ? AND (user_id = ? OR user_id IS NULL) ORDER BY user_id DESC LIMIT 1"),
 };
@@ -147,6 +393,12 @@ export function setUserModel(userId: string, model: string): void {
     queries.upsertUser.run(userId, model);
 }
 
+// Document metadata, e.g. from a PDF's info dictionary
+export interface ContextMetadata {
+    title?: string | null;
+    author?: string | null;
+}
+
 // Context functions with scope support
 export function addContext(
     guildId: string,
@@ -154,13 +406,78 @@ export function addContext(
     content: string,
     sourceFilename: string,
     fileType: string,
-    userId?: string
-): void {
-    if (userId) {
-        queries.insertUserContext.run(guildId, userId, name, content, sourceFilename, fileType);
-    } else {
-        queries.insertServerContext.run(guildId, name, content, sourceFilename, fileType);
-    }
+    userId?: string,
+    sourceUrl?: string,
+    uploadedBy?: string,
+    metadata: ContextMetadata = {}
+): number {
+    const title = metadata.title ?? null;
+    const author = metadata.author ?? null;
+
+    return db.transaction(() => {
+        checkContextQuota(guildId, userId ?? null, 1, content.length);
+
+        const result = userId
+            ? queries.insertUserContext.run(guildId, userId, name, content, sourceFilename, fileType, sourceUrl ?? null, title, author)
+            : queries.insertServerContext.run(guildId, name, content, sourceFilename, fileType, sourceUrl ?? null, title, author);
+        const contextId = Number(result.lastInsertRowid);
+
+        versionQueries.insertVersion.run(contextId, 1, content, sourceFilename, fileType, uploadedBy ?? userId ?? null, null);
+        return contextId;
+    })();
+}
+
+export interface ContextRevision extends ContextMetadata {
+    content: string;
+    sourceFilename: string;
+    fileType: string;
+    sourceUrl?: string | null;
+}
+
+/**
+ * Replace a context's content and record it as a new version. Contexts from
+ * before versioning get their original content saved as version 1 first.
+ * Title and author are only changed when the revision sets them.
+ * Returns the new version number; callers re-index the chunks afterwards.
+ */
+export function updateContext(contextId: number, revision: ContextRevision, uploadedBy: string, note?: string): number {
+    return db.transaction(() => {
+        const current = quotaQueries.getContextOwner.get(contextId);
+        if (current) {
+            checkContextQuota(current.guild_id, current.user_id, 0, revision.content.length - current.size);
+        }
+
+        ensureBaseVersion(contextId);
+
+        queries.updateContextContent.run(
+            revision.content,
+            revision.sourceFilename,
+            revision.fileType,
+            revision.sourceUrl ?? null,
+            contextId
+        );
+
+        if (revision.title !== undefined || revision.author !== undefined) {
+            queries.updateContextMetadata.run(revision.title ?? null, revision.author ?? null, contextId);
+        }
+
+        const version = (versionQueries.getLatestVersion.get(contextId)?.version ?? 0) + 1;
+        versionQueries.insertVersion.run(
+            contextId,
+            version,
+            revision.content,
+            revision.sourceFilename,
+            revision.fileType,
+            uploadedBy,
+            note ?? null
+        );
+
+        // Quotas only count current content, so old versions are capped instead
+        if (CONTEXT_MAX_VERSIONS > 0) {
+            versionQueries.deleteVersionsUpTo.run(contextId, version - CONTEXT_MAX_VERSIONS);
+        }
+        return version;
+    })();
 }
 
 export function getContext(guildId: string, name: string, userId?: string) {
@@ -189,40 +506,718 @@ export function removeContext(guildId: string, name: string, userId?: string): b
     return result.changes > 0;
 }
 
-// Memory queries (global per-user)
+// Guild settings and context quota queries
+const quotaQueries = {
+    getSetting: db.prepare<{ value: string }, [string, string]>(
+        "SELECT value FROM settings WHERE guild_id = ? AND key = ?"
+    ),
+    setSetting: db.prepare(
+        "INSERT INTO settings (guild_id, key, value) VALUES (?, ?, ?) ON CONFLICT(guild_id, key) DO UPDATE SET value = excluded.value, updated_at = unixepoch()"
+    ),
+    deleteSetting: db.prepare("DELETE FROM settings WHERE guild_id = ? AND key = ?"),
+    getUserUsage: db.prepare<{ documents: number; characters: number | null }, [string, string]>(
+        "SELECT COUNT(*) as documents, SUM(LENGTH(content)) as characters FROM contexts WHERE guild_id = ? AND user_id = ?"
+    ),
+    getGuildUsage: db.prepare<{ documents: number; characters: number | null }, [string]>(
+        "SELECT COUNT(*) as documents, SUM(LENGTH(content)) as characters FROM contexts WHERE guild_id = ?"
+    ),
+    getContextOwner: db.prepare<{ guild_id: string; user_id: string | null; size: number }, [number]>(
+        "SELECT guild_id, user_id, LENGTH(content) as size FROM contexts WHERE id = ?"
+    ),
+};
+
+export type ContextQuotaKey = "user_documents" | "user_characters" | "guild_documents" | "guild_characters";
+
+export interface ContextQuota {
+    limit: number; // 0 means unlimited
+    overridden: boolean; // Set by a server admin rather than the env default
+}
+
+export interface ContextUsage {
+    documents: number;
+    characters: number;
+}
+
+function readEnvLimit(name: string, fallback: number): number {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? Math.floor(value) : fallback;
+}
+
+// Defaults apply to every guild without an override; personal contexts count
+// towards both the user and the guild quota, server contexts only the guild's
+const DEFAULT_CONTEXT_QUOTAS: Record<ContextQuotaKey, number> = {
+    user_documents: readEnvLimit("CONTEXT_QUOTA_USER_DOCUMENTS", 25),
+    user_characters: readEnvLimit("CONTEXT_QUOTA_USER_CHARACTERS", 1000000),
+    guild_documents: readEnvLimit("CONTEXT_QUOTA_GUILD_DOCUMENTS", 200),
+    guild_characters: readEnvLimit("CONTEXT_QUOTA_GUILD_CHARACTERS", 10000000),
+};
+
+/**
+ * Raised when saving a context would exceed a quota. The message is safe to show users.
+ */
+export class ContextQuotaError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ContextQuotaError";
+    }
+}
+
+export function getGuildSetting(guildId: string, key: string): string | null {
+    return quotaQueries.getSetting.get(guildId, key)?.value ?? null;
+}
+
+export function setGuildSetting(guildId: string, key: string, value: string): void {
+    quotaQueries.setSetting.run(guildId, key, value);
+}
+
+export function deleteGuildSetting(guildId: string, key: string): boolean {
+    return quotaQueries.deleteSetting.run(guildId, key).changes > 0;
+}
+
+export function getContextQuotas(guildId: string): Record<ContextQuotaKey, ContextQuota> {
+    const quotas = {} as Record<ContextQuotaKey, ContextQuota>;
+
+    for (const key of Object.keys(DEFAULT_CONTEXT_QUOTAS) as ContextQuotaKey[]) {
+        const override = getGuildSetting(guildId, `quota.${key}`);
+        quotas[key] = override !== null
+            ? { limit: Number(override), overridden: true }
+            : { limit: DEFAULT_CONTEXT_QUOTAS[key], overridden: false };
+    }
+
+    return quotas;
+}
+
+/**
+ * Override a quota for one guild, or restore the default when limit is null.
+ */
+export function setContextQuota(guildId: string, key: ContextQuotaKey, limit: number | null): void {
+    if (limit === null) {
+        deleteGuildSetting(guildId, `quota.${key}`);
+    } else {
+        setGuildSetting(guildId, `quota.${key}`, String(limit));
+    }
+}
+
+/**
+ * Stored contexts for a user (personal scope) or for the whole guild.
+ */
+export function getContextUsage(guildId: string, userId?: string): ContextUsage {
+    const row = userId ? quotaQueries.getUserUsage.get(guildId, userId) : quotaQueries.getGuildUsage.get(guildId);
+    return { documents: row?.documents ?? 0, characters: row?.characters ?? 0 };
+}
+
+function checkContextQuota(guildId: string, userId: string | null, addedDocuments: number, addedCharacters: number): void {
+    const quotas = getContextQuotas(guildId);
+    const exceeds = (used: number, added: number, quota: ContextQuota) =>
+        quota.limit > 0 && added > 0 && used + added > quota.limit;
+
+    if (userId) {
+        const usage = getContextUsage(guildId, userId);
+        if (exceeds(usage.documents, addedDocuments, quotas.user_documents)) {
+            throw new ContextQuotaError(
+                `You have reached your limit of ${quotas.user_documents.limit.toLocaleString()} personal contexts in this server. Remove one with /context remove first.`
+            );
+        }
+        if (exceeds(usage.characters, addedCharacters, quotas.user_characters)) {
+            throw new ContextQuotaError(
+                `This would exceed your storage quota of ${quotas.user_characters.limit.toLocaleString()} characters (${usage.characters.toLocaleString()} used). Remove or shorten a context first.`
+            );
+        }
+    }
+
+    // Every DM is stored under one pseudo-guild, so a shared total there would
+    // let one user's DM contexts use up everyone else's room
+    if (guildId === "dm") return;
+
+    const usage = getContextUsage(guildId);
+    if (exceeds(usage.documents, addedDocuments, quotas.guild_documents)) {
+        throw new ContextQuotaError(
+            `This server has reached its limit of ${quotas.guild_documents.limit.toLocaleString()} contexts. Ask an admin to remove some or raise the quota.`
+        );
+    }
+    if (exceeds(usage.characters, addedCharacters, quotas.guild_characters)) {
+        throw new ContextQuotaError(
+            `This would exceed the server's storage quota of ${quotas.guild_characters.limit.toLocaleString()} characters (${usage.characters.toLocaleString()} used). Ask an admin to remove some contexts or raise the quota.`
+        );
+    }
+}
+
+// Context version queries (rows are removed with their context by trigger)
+const versionQueries = {
+    insertVersion: db.prepare(
+        "INSERT INTO context_versions (context_id, version, content, source_filename, file_type, uploaded_by, note) VALUES (?, ?, ?, ?, ?, ?, ?)"
+    ),
+    getLatestVersion: db.prepare<{ version: number }, [number]>(
+        "SELECT version FROM context_versions WHERE context_id = ? ORDER BY version DESC LIMIT 1"
+    ),
+    getVersions: db.prepare<ContextVersionSummary, [number]>(`
+        SELECT version, source_filename, file_type, uploaded_by, note, created_at, length(content) as size
+        FROM context_versions
+        WHERE context_id = ?
+        ORDER BY version DESC
+    `),
+    getVersion: db.prepare<
+        { id: number; context_id: number; version: number; content: string; source_filename: string | null; file_type: string | null; uploaded_by: string | null; note: string | null; created_at: number },
+        [number, number]
+    >("SELECT * FROM context_versions WHERE context_id = ? AND version = ?"),
+    deleteVersionsUpTo: db.prepare("DELETE FROM context_versions WHERE context_id = ? AND version <= ?"),
+    insertBaseVersion: db.prepare(`
+        INSERT INTO context_versions (context_id, version, content, source_filename, file_type, uploaded_by, created_at)
+        SELECT id, 1, content, source_filename, file_type, user_id, created_at FROM contexts WHERE id = ?
+    `),
+};
+
+// Versions kept per context, including the current one (0 = keep all)
+const CONTEXT_MAX_VERSIONS = readEnvLimit("CONTEXT_MAX_VERSIONS", 10);
+
+export interface ContextVersionSummary {
+    version: number;
+    source_filename: string | null;
+    file_type: string | null;
+    uploaded_by: string | null;
+    note: string | null;
+    created_at: number;
+    size: number;
+}
+
+/**
+ * Contexts added before versioning have no history; record their current
+ * content as version 1.
+ */
+function ensureBaseVersion(contextId: number): void {
+    if (!versionQueries.getLatestVersion.get(contextId)) {
+        versionQueries.insertBaseVersion.run(contextId);
+    }
+}
+
+/**
+ * Versions of a context, newest first, without their content.
+ */
+export function getContextVersions(contextId: number): ContextVersionSummary[] {
+    ensureBaseVersion(contextId);
+    return versionQueries.getVersions.all(contextId);
+}
+
+export function getContextVersion(contextId: number, version: number) {
+    ensureBaseVersion(contextId);
+    return versionQueries.getVersion.get(contextId, version);
+}
+
+// Context tag and collection queries (rows are removed with their context by trigger)
+const collectionQueries = {
+    getTags: db.prepare<{ tag: string }, [number]>(
+        "SELECT tag FROM context_tags WHERE context_id = ? ORDER BY tag ASC"
+    ),
+    addTag: db.prepare("INSERT OR IGNORE INTO context_tags (context_id, tag) VALUES (?, ?)"),
+    removeTag: db.prepare("DELETE FROM context_tags WHERE context_id = ? AND tag = ?"),
+
+    getServerCollection: db.prepare<CollectionRow, [string, string]>(
+        "SELECT * FROM context_collections WHERE guild_id = ? AND name = ? COLLATE NOCASE AND user_id IS NULL"
+    ),
+    getUserCollection: db.prepare<CollectionRow, [string, string, string]>(
+        "SELECT * FROM context_collections WHERE guild_id = ? AND user_id = ? AND name = ? COLLATE NOCASE"
+    ),
+    getServerCollections: db.prepare<CollectionRow & { context_count: number }, [string]>(`
+        SELECT c.*, (SELECT COUNT(*) FROM context_collection_items i WHERE i.collection_id = c.id) as context_count
+        FROM context_collections c
+        WHERE c.guild_id = ? AND c.user_id IS NULL
+        ORDER BY c.name ASC
+    `),
+    getUserCollections: db.prepare<CollectionRow & { context_count: number }, [string, string]>(`
+        SELECT c.*, (SELECT COUNT(*) FROM context_collection_items i WHERE i.collection_id = c.id) as context_count
+        FROM context_collections c
+        WHERE c.guild_id = ? AND c.user_id = ?
+        ORDER BY c.name ASC
+    `),
+    insertCollection: db.prepare<CollectionRow, [string, string | null, string]>(
+        "INSERT INTO context_collections (guild_id, user_id, name) VALUES (?, ?, ?) RETURNING *"
+    ),
+    deleteCollection: db.prepare("DELETE FROM context_collections WHERE id = ?"),
+    addItem: db.prepare("INSERT OR IGNORE INTO context_collection_items (collection_id, context_id) VALUES (?, ?)"),
+    removeItem: db.prepare("DELETE FROM context_collection_items WHERE collection_id = ? AND context_id = ?"),
+    getCollectionContexts: db.prepare<
+        { id: number; guild_id: string; user_id: string | null; name: string; content: string; source_filename: string; file_type: string; source_url: string | null; title: string | null; author: string | null; created_at: number; updated_at: number | null },
+        [number]
+    >(`
+        SELECT ctx.*
+        FROM context_collection_items i
+        JOIN contexts ctx ON ctx.id = i.context_id
+        WHERE i.collection_id = ?
+        ORDER BY i.added_at ASC, ctx.name ASC
+    `),
+};
+
+export interface CollectionRow {
+    id: number;
+    guild_id: string;
+    user_id: string | null;
+    name: string;
+    created_at: number;
+}
+
+export function getContextTags(contextId: number): string[] {
+    return collectionQueries.getTags.all(contextId).map((row) => row.tag);
+}
+
+/**
+ * Add and remove tags on a context in one transaction. Returns the resulting tags.
+ */
+export function updateContextTags(contextId: number, add: string[], remove: string[]): string[] {
+    db.transaction(() => {
+        for (const tag of add) collectionQueries.addTag.run(contextId, tag);
+        for (const tag of remove) collectionQueries.removeTag.run(contextId, tag);
+    })();
+    return getContextTags(contextId);
+}
+
+export function getCollection(guildId: string, name: string, userId?: string): CollectionRow | null {
+    // If userId provided, check user collection first
+    if (userId) {
+        const userCollection = collectionQueries.getUserCollection.get(guildId, userId, name);
+        if (userCollection) return userCollection;
+    }
+    // Fall back to server collection
+    return collectionQueries.getServerCollection.get(guildId, name);
+}
+
+export function getAllCollections(guildId: string, userId?: string) {
+    if (userId) {
+        return collectionQueries.getUserCollections.all(guildId, userId);
+    }
+    return collectionQueries.getServerCollections.all(guildId);
+}
+
+export function createCollection(guildId: string, name: string, userId?: string): CollectionRow {
+    return collectionQueries.insertCollection.get(guildId, userId ?? null, name)!;
+}
+
+export function deleteCollection(collectionId: number): void {
+    collectionQueries.deleteCollection.run(collectionId);
+}
+
+/**
+ * Returns false when the context was already in the collection.
+ */
+export function addToCollection(collectionId: number, contextId: number): boolean {
+    return collectionQueries.addItem.run(collectionId, contextId).changes > 0;
+}
+
+export function removeFromCollection(collectionId: number, contextId: number): boolean {
+    return collectionQueries.removeItem.run(collectionId, contextId).changes > 0;
+}
+
+export function getCollectionContexts(collectionId: number) {
+    return collectionQueries.getCollectionContexts.all(collectionId);
+}
+
+// Context chunk queries (retrieval passages; removed with their context by trigger)
+const chunkQueries = {
+    deleteChunks: db.prepare("DELETE FROM context_chunks WHERE context_id = ?"),
+    insertChunk: db.prepare(
+        "INSERT INTO context_chunks (context_id, chunk_index, content) VALUES (?, ?, ?)"
+    ),
+    countChunks: db.prepare<{ count: number }, [number]>(
+        "SELECT COUNT(*) as count FROM context_chunks WHERE context_id = ?"
+    ),
+    getFirstChunks: db.prepare<ContextChunkRow, [number, number]>(
+        "SELECT chunk_index, content FROM context_chunks WHERE context_id = ? ORDER BY chunk_index ASC LIMIT ?"
+    ),
+    searchChunks: db.prepare<ContextChunkRow, [string, number, number]>(`
+        SELECT c.chunk_index, c.content
+        FROM context_chunks_fts f
+        JOIN context_chunks c ON c.id = f.rowid
+        WHERE context_chunks_fts MATCH ? AND c.context_id = ?
+        ORDER BY bm25(context_chunks_fts)
+        LIMIT ?
+    `),
+    getUnembeddedChunks: db.prepare<{ id: number; content: string }, [number, string]>(
+        "SELECT id, content FROM context_chunks WHERE context_id = ? AND (embedding IS NULL OR embedding_model IS NOT ?) ORDER BY chunk_index ASC"
+    ),
+    setChunkEmbedding: db.prepare("UPDATE context_chunks SET embedding = ?, embedding_model = ? WHERE id = ?"),
+    getChunkEmbeddings: db.prepare<{ chunk_index: number; content: string; embedding: Uint8Array }, [number, string]>(
+        "SELECT chunk_index, content, embedding FROM context_chunks WHERE context_id = ? AND embedding_model = ? AND embedding IS NOT NULL"
+    ),
+};
+
+export interface ContextChunkRow {
+    chunk_index: number;
+    content: string;
+}
+
+/**
+ * Replace the stored chunks of a context in a single transaction.
+ */
+export function saveContextChunks(contextId: number, chunks: string[]): void {
+    db.transaction(() => {
+        chunkQueries.deleteChunks.run(contextId);
+        chunks.forEach((chunk, index) => {
+            chunkQueries.insertChunk.run(contextId, index, chunk);
+        });
+    })();
+}
+
+export function countContextChunks(contextId: number): number {
+    return chunkQueries.countChunks.get(contextId)?.count || 0;
+}
+
+export function getFirstContextChunks(contextId: number, limit: number): ContextChunkRow[] {
+    return chunkQueries.getFirstChunks.all(contextId, limit);
+}
+
+/**
+ * Chunks that have no embedding yet, or one from a different model.
+ */
+export function getUnembeddedChunks(contextId: number, model: string) {
+    return chunkQueries.getUnembeddedChunks.all(contextId, model);
+}
+
+/**
+ * Store chunk vectors (as float32 blobs) in a single transaction.
+ */
+export function saveChunkEmbeddings(entries: { id: number; embedding: number[] }[], model: string): void {
+    db.transaction(() => {
+        for (const entry of entries) {
+            const vector = new Float32Array(entry.embedding);
+            chunkQueries.setChunkEmbedding.run(new Uint8Array(vector.buffer), model, entry.id);
+        }
+    })();
+}
+
+/**
+ * All embedded chunks of a context for a model, with vectors decoded.
+ */
+export function getChunkEmbeddings(contextId: number, model: string): (ContextChunkRow & { embedding: Float32Array })[] {
+    return chunkQueries.getChunkEmbeddings.all(contextId, model).map((row) => ({
+        chunk_index: row.chunk_index,
+        content: row.content,
+        // Copy so the float view is aligned regardless of the blob's offset
+        embedding: new Float32Array(row.embedding.slice().buffer),
+    }));
+}
+
+/**
+ * Best-matching chunks of a context for an FTS5 query, most relevant first.
+ */
+export function searchContextChunks(contextId: number, ftsQuery: string, limit: number): ContextChunkRow[] {
+    return chunkQueries.searchChunks.all(ftsQuery, contextId, limit);
+}
+
+// Memory queries (per session; sessions belong to a user and are global across servers)
 const memoryQueries = {
-    insertMemory: db.prepare(
-        "INSERT INTO memories (user_id, role, content, model) VALUES (?, ?, ?, ?)"
+    insertMemory: db.prepare<{ id: number }, [string, number, string, string, string | null]>(
+        "INSERT INTO memories (user_id, session_id, role, content, model) VALUES (?, ?, ?, ?, ?) RETURNING id"
     ),
     getMemoryHistory: db.prepare<
-        { id: number; user_id: string; role: string; content: string; model: string | null; created_at: number },
-        [string, number]
-    >("SELECT * FROM memories WHERE user_id = ? ORDER BY created_at DESC LIMIT ?"),
-    clearMemory: db.prepare("DELETE FROM memories WHERE user_id = ?"),
+        { id: number; user_id: string; session_id: number; role: string; content: string; model: string | null; created_at: number; image_count: number },
+        [number, number, number]
+    >(
+        `SELECT m.*, (SELECT COUNT(*) FROM memory_images i WHERE i.memory_id = m.id) as image_count
+         FROM memories m WHERE m.session_id = ? AND m.id > ? ORDER BY m.id DESC LIMIT ?`
+    ),
+    getMemoryRange: db.prepare<
+        { id: number; user_id: string; session_id: number; role: string; content: string; model: string | null; created_at: number },
+        [number, number, number]
+    >("SELECT * FROM memories WHERE session_id = ? AND id > ? AND id <= ? ORDER BY id ASC"),
+    getAllMemory: db.prepare<
+        { id: number; user_id: string; session_id: number; role: string; content: string; model: string | null; created_at: number },
+        [number]
+    >("SELECT * FROM memories WHERE session_id = ? ORDER BY id ASC"),
+    insertMemoryAt: db.prepare(
+        "INSERT INTO memories (user_id, session_id, role, content, model, created_at) VALUES (?, ?, ?, ?, ?, ?)"
+    ),
+    countMemoryAfter: db.prepare<{ count: number }, [number, number]>(
+        "SELECT COUNT(*) as count FROM memories WHERE session_id = ? AND id > ?"
+    ),
+    clearMemory: db.prepare("DELETE FROM memories WHERE session_id = ?"),
+    clearMemoryImages: db.prepare(
+        "DELETE FROM memory_images WHERE memory_id IN (SELECT id FROM memories WHERE session_id = ?)"
+    ),
+    insertMemoryImage: db.prepare(
+        "INSERT INTO memory_images (memory_id, mime_type, data, url) VALUES (?, ?, ?, ?)"
+    ),
+    getMemoryImages: db.prepare<
+        { memory_id: number; mime_type: string | null; data: Uint8Array | null; url: string | null },
+        [number]
+    >("SELECT memory_id, mime_type, data, url FROM memory_images WHERE memory_id = ? ORDER BY id ASC"),
+    deleteExpiredMemoryImages: db.prepare("DELETE FROM memory_images WHERE created_at < unixepoch() - ?"),
+    getMemorySummary: db.prepare<
+        { session_id: number; summary: string; covered_until_id: number; covered_count: number; model: string | null; updated_at: number },
+        [number]
+    >("SELECT * FROM memory_summaries WHERE session_id = ?"),
+    upsertMemorySummary: db.prepare(
+        `INSERT INTO memory_summaries (session_id, summary, covered_until_id, covered_count, model, updated_at)
+         VALUES (?, ?, ?, ?, ?, unixepoch())
+         ON CONFLICT(session_id) DO UPDATE SET
+           summary = excluded.summary,
+           covered_until_id = excluded.covered_until_id,
+           covered_count = excluded.covered_count,
+           model = excluded.model,
+           updated_at = excluded.updated_at`
+    ),
+    clearMemorySummary: db.prepare("DELETE FROM memory_summaries WHERE session_id = ?"),
     getMemoryStats: db.prepare<
         { count: number; first_at: number | null; last_at: number | null },
+        [number]
+    >("SELECT COUNT(*) as count, MIN(created_at) as first_at, MAX(created_at) as last_at FROM memories WHERE session_id = ?"),
+};
+
+// Memory session queries
+export interface MemorySessionRow {
+    id: number;
+    user_id: string;
+    name: string;
+    created_at: number;
+}
+
+const sessionQueries = {
+    insertSession: db.prepare<MemorySessionRow, [string, string]>(
+        "INSERT INTO memory_sessions (user_id, name) VALUES (?, ?) RETURNING *"
+    ),
+    getSessionByName: db.prepare<MemorySessionRow, [string, string]>(
+        "SELECT * FROM memory_sessions WHERE user_id = ? AND name = ? COLLATE NOCASE"
+    ),
+    getSessionById: db.prepare<MemorySessionRow, [number]>("SELECT * FROM memory_sessions WHERE id = ?"),
+    getSessions: db.prepare<
+        MemorySessionRow & { message_count: number; last_at: number | null },
         [string]
-    >("SELECT COUNT(*) as count, MIN(created_at) as first_at, MAX(created_at) as last_at FROM memories WHERE user_id = ?"),
+    >(
+        `SELECT s.*, COUNT(m.id) as message_count, MAX(m.created_at) as last_at
+         FROM memory_sessions s LEFT JOIN memories m ON m.session_id = s.id
+         WHERE s.user_id = ? GROUP BY s.id ORDER BY COALESCE(MAX(m.created_at), s.created_at) DESC`
+    ),
+    renameSession: db.prepare("UPDATE memory_sessions SET name = ? WHERE id = ?"),
+    deleteSession: db.prepare("DELETE FROM memory_sessions WHERE id = ?"),
+    getActiveSessionId: db.prepare<{ active_session_id: number | null }, [string]>(
+        "SELECT active_session_id FROM users WHERE id = ?"
+    ),
+    setActiveSession: db.prepare(
+        "INSERT INTO users (id, active_session_id) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET active_session_id = excluded.active_session_id"
+    ),
 };
 
-// Memory functions (global per-user, not per-guild)
-export function addMemoryMessage(userId: string, role: "user" | "assistant", content: string, model?: string): void {
-    memoryQueries.insertMemory.run(userId, role, content, model || null);
+export const DEFAULT_SESSION_NAME = "default";
+
+// Memory session functions
+export function getSession(userId: string, name: string): MemorySessionRow | null {
+    return sessionQueries.getSessionByName.get(userId, name);
+}
+
+export function getSessions(userId: string) {
+    return sessionQueries.getSessions.all(userId);
+}
+
+/**
+ * The user's active session, creating (or falling back to) the default
+ * session when none is active.
+ */
+export function getActiveSession(userId: string): MemorySessionRow {
+    const activeId = sessionQueries.getActiveSessionId.get(userId)?.active_session_id;
+    if (activeId) {
+        const session = sessionQueries.getSessionById.get(activeId);
+        if (session) return session;
+    }
+
+    const session = getSession(userId, DEFAULT_SESSION_NAME)
+        ?? sessionQueries.insertSession.get(userId, DEFAULT_SESSION_NAME)!;
+    sessionQueries.setActiveSession.run(userId, session.id);
+    return session;
+}
+
+/**
+ * Create a session and make it active. Returns null if the name is taken.
+ */
+export function createSession(userId: string, name: string): MemorySessionRow | null {
+    if (getSession(userId, name)) return null;
+
+    const session = sessionQueries.insertSession.get(userId, name)!;
+    sessionQueries.setActiveSession.run(userId, session.id);
+    return session;
+}
+
+export function switchSession(userId: string, name: string): MemorySessionRow | null {
+    const session = getSession(userId, name);
+    if (!session) return null;
+
+    sessionQueries.setActiveSession.run(userId, session.id);
+    return session;
+}
+
+export function renameSession(userId: string, oldName: string, newName: string): "renamed" | "not_found" | "exists" {
+    const session = getSession(userId, oldName);
+    if (!session) return "not_found";
+
+    const existing = getSession(userId, newName);
+    if (existing && existing.id !== session.id) return "exists";
+
+    sessionQueries.renameSession.run(newName, session.id);
+    return "renamed";
+}
+
+/**
+ * Delete a session with its messages and summary. Returns the number of
+ * messages removed, or null if the session doesn't exist.
+ */
+export function deleteSession(userId: string, name: string): number | null {
+    const session = getSession(userId, name);
+    if (!session) return null;
+
+    return db.transaction(() => {
+        memoryQueries.clearMemoryImages.run(session.id);
+        const deleted = memoryQueries.clearMemory.run(session.id).changes;
+        memoryQueries.clearMemorySummary.run(session.id);
+        sessionQueries.deleteSession.run(session.id);
+
+        // getActiveSession falls back to the default session next time
+        if (sessionQueries.getActiveSessionId.get(userId)?.active_session_id === session.id) {
+            sessionQueries.setActiveSession.run(userId, null);
+        }
+        return deleted;
+    })();
 }
 
-export function getMemoryHistory(userId: string, limit: number = 20): { role: string; content: string }[] {
-    const rows = memoryQueries.getMemoryHistory.all(userId, limit);
+// Stored memory images are deleted after this many days (0 = kept until the session is cleared)
+const MEMORY_IMAGE_RETENTION_DAYS = readEnvLimit("MEMORY_IMAGE_RETENTION_DAYS", 30);
+
+const DATA_URL = /^data:([^;,]+);base64,(.*)$/s;
+
+// Memory functions (scoped to a session, not per-guild)
+/**
+ * Store a memory turn with the images sent in it, given as base64 data URLs
+ * or HTTPS URLs. Expired images of all sessions are pruned along the way.
+ */
+export function addMemoryMessage(
+    sessionId: number,
+    userId: string,
+    role: "user" | "assistant",
+    content: string,
+    model?: string,
+    imageUrls: string[] = []
+): void {
+    db.transaction(() => {
+        const memory = memoryQueries.insertMemory.get(userId, sessionId, role, content, model || null)!;
+
+        for (const url of imageUrls) {
+            const inline = url.match(DATA_URL);
+            if (inline) {
+                memoryQueries.insertMemoryImage.run(memory.id, inline[1], Buffer.from(inline[2], "base64"), null);
+            } else {
+                memoryQueries.insertMemoryImage.run(memory.id, null, null, url);
+            }
+        }
+
+        if (imageUrls.length > 0 && MEMORY_IMAGE_RETENTION_DAYS > 0) {
+            memoryQueries.deleteExpiredMemoryImages.run(MEMORY_IMAGE_RETENTION_DAYS * 86400);
+        }
+    })();
+}
+
+/**
+ * Most recent memory turns in chronological order. Pass afterId to skip rows
+ * already covered by the rolling summary. Images are only counted; load them
+ * with getMemoryImages.
+ */
+export function getMemoryHistory(
+    sessionId: number,
+    limit: number = 20,
+    afterId: number = 0
+): { id: number; role: string; content: string; imageCount: number }[] {
+    const rows = memoryQueries.getMemoryHistory.all(sessionId, afterId, limit);
     // Reverse to get chronological order (oldest first)
-    return rows.reverse().map(row => ({ role: row.role, content: row.content }));
+    return rows.reverse().map(row => ({ id: row.id, role: row.role, content: row.content, imageCount: row.image_count }));
+}
+
+/**
+ * Stored images of a memory turn as URLs for an ImagePart: base64 data URLs
+ * for inlined images, the original URL otherwise.
+ */
+export function getMemoryImages(memoryId: number): string[] {
+    return memoryQueries.getMemoryImages.all(memoryId).map((row) =>
+        row.data ? `data:${row.mime_type};base64,${Buffer.from(row.data).toString("base64")}` : row.url!
+    );
+}
+
+export function getMemoryRange(sessionId: number, afterId: number, uptoId: number) {
+    return memoryQueries.getMemoryRange.all(sessionId, afterId, uptoId);
+}
+
+/**
+ * Full transcript of a session, oldest first, for export.
+ */
+export function getAllMemory(sessionId: number) {
+    return memoryQueries.getAllMemory.all(sessionId);
+}
+
+export interface ImportedMemoryMessage {
+    role: "user" | "assistant";
+    content: string;
+    model?: string | null;
+    createdAt?: number; // Unix seconds; defaults to now
+}
+
+/**
+ * Bulk insert messages into a session in a single transaction.
+ */
+export function importMemoryMessages(sessionId: number, userId: string, messages: ImportedMemoryMessage[]): number {
+    const now = Math.floor(Date.now() / 1000);
+
+    return db.transaction(() => {
+        for (const message of messages) {
+            memoryQueries.insertMemoryAt.run(
+                userId,
+                sessionId,
+                message.role,
+                message.content,
+                message.model || null,
+                message.createdAt ?? now
+            );
+        }
+        return messages.length;
+    })();
+}
+
+export function countMemoryAfter(sessionId: number, afterId: number): number {
+    return memoryQueries.countMemoryAfter.get(sessionId, afterId)?.count || 0;
 }
 
-export function clearMemory(userId: string): number {
-    const result = memoryQueries.clearMemory.run(userId);
+export function clearMemory(sessionId: number): number {
+    memoryQueries.clearMemoryImages.run(sessionId);
+    const result = memoryQueries.clearMemory.run(sessionId);
+    memoryQueries.clearMemorySummary.run(sessionId);
     return result.changes;
 }
 
-export function getMemoryStats(userId: string): { count: number; firstAt: Date | null; lastAt: Date | null } {
-    const row = memoryQueries.getMemoryStats.get(userId);
+export interface MemorySummary {
+    summary: string;
+    coveredUntilId: number;
+    coveredCount: number;
+    model: string | null;
+    updatedAt: Date;
+}
+
+export function getMemorySummary(sessionId: number): MemorySummary | null {
+    const row = memoryQueries.getMemorySummary.get(sessionId);
+    if (!row) return null;
+    return {
+        summary: row.summary,
+        coveredUntilId: row.covered_until_id,
+        coveredCount: row.covered_count,
+        model: row.model,
+        updatedAt: new Date(row.updated_at * 1000),
+    };
+}
+
+export function saveMemorySummary(
+    sessionId: number,
+    summary: string,
+    coveredUntilId: number,
+    coveredCount: number,
+    model: string
+): void {
+    memoryQueries.upsertMemorySummary.run(sessionId, summary, coveredUntilId, coveredCount, model);
+}
+
+export function getMemoryStats(sessionId: number): { count: number; firstAt: Date | null; lastAt: Date | null } {
+    const row = memoryQueries.getMemoryStats.get(sessionId);
     return {
         count: row?.count || 0,
         firstAt: row?.first_at ? new Date(row.first_at * 1000) : null,
@@ -230,4 +1225,218 @@ export function getMemoryStats(userId: string): { count: number; firstAt: Date |
     };
 }
 
+// Mention trigger queries (per-guild opt-in with an optional channel allowlist)
+const mentionQueries = {
+    // default_model stays NULL so the env default still applies to new rows
+    setMentionsEnabled: db.prepare(
+        "INSERT INTO guilds (id, default_model, mentions_enabled) VALUES (?, NULL, ?) ON CONFLICT(id) DO UPDATE SET mentions_enabled = excluded.mentions_enabled"
+    ),
+    getMentionChannels: db.prepare<{ channel_id: string }, [string]>(
+        "SELECT channel_id FROM mention_channels WHERE guild_id = ?"
+    ),
+    addMentionChannel: db.prepare("INSERT OR IGNORE INTO mention_channels (guild_id, channel_id) VALUES (?, ?)"),
+    removeMentionChannel: db.prepare("DELETE FROM mention_channels WHERE guild_id = ? AND channel_id = ?"),
+};
+
+// Mention trigger functions
+export function setMentionsEnabled(guildId: string, enabled: boolean): void {
+    mentionQueries.setMentionsEnabled.run(guildId, enabled ? 1 : 0);
+}
+
+export function areMentionsEnabled(guildId: string): boolean {
+    return queries.getGuild.get(guildId)?.mentions_enabled === 1;
+}
+
+export function getMentionChannels(guildId: string): string[] {
+    return mentionQueries.getMentionChannels.all(guildId).map(row => row.channel_id);
+}
+
+export function addMentionChannel(guildId: string, channelId: string): boolean {
+    return mentionQueries.addMentionChannel.run(guildId, channelId).changes > 0;
+}
+
+export function removeMentionChannel(guildId: string, channelId: string): boolean {
+    return mentionQueries.removeMentionChannel.run(guildId, channelId).changes > 0;
+}
+
+/**
+ * Check whether the bot should answer a mention or reply in this channel.
+ * Threads inherit the allowlist entry of their parent channel.
+ */
+export function canRespondToMention(guildId: string, channelId: string, parentChannelId?: string | null): boolean {
+    if (!areMentionsEnabled(guildId)) {
+        return false;
+    }
+
+    const allowed = getMentionChannels(guildId);
+    if (allowed.length === 0) {
+        return true;
+    }
+
+    return allowed.includes(channelId) || (!!parentChannelId && allowed.includes(parentChannelId));
+}
+
+// Thread queries
+export interface ThreadRow {
+    id: string;
+    guild_id: string;
+    channel_id: string;
+    user_id: string;
+    model: string;
+    context_name: string | null;
+    search_provider: string | null;
+    search_variant: string | null;
+    started_at: number | null;
+    created_at: number;
+}
+
+const threadQueries = {
+    insertThread: db.prepare(
+        "INSERT INTO threads (id, guild_id, channel_id, user_id, model, context_name, search_provider, search_variant) VALUES (?, ?, ?, ?, ?, ?, ?, ?)"
+    ),
+    getThread: db.prepare<ThreadRow, [string]>("SELECT * FROM threads WHERE id = ?"),
+    markThreadStarted: db.prepare("UPDATE threads SET started_at = unixepoch() WHERE id = ?"),
+    insertThreadMessage: db.prepare(
+        "INSERT INTO thread_messages (thread_id, user_id, author_name, role, content) VALUES (?, ?, ?, ?, ?)"
+    ),
+    getThreadMessages: db.prepare<
+        { id: number; thread_id: string; user_id: string | null; author_name: string | null; role: string; content: string; created_at: number },
+        [string]
+    >("SELECT * FROM thread_messages WHERE thread_id = ? ORDER BY id ASC"),
+    pruneThreadMessages: db.prepare(
+        "DELETE FROM thread_messages WHERE thread_id IN (SELECT id FROM threads WHERE started_at IS NULL AND created_at < ?)"
+    ),
+    pruneThreads: db.prepare("DELETE FROM threads WHERE started_at IS NULL AND created_at < ?"),
+};
+
+// Thread functions
+export function createThread(
+    id: string,
+    guildId: string,
+    channelId: string,
+    userId: string,
+    model: string,
+    contextName?: string | null,
+    searchProvider?: string | null,
+    searchVariant?: string | null
+): void {
+    threadQueries.insertThread.run(
+        id,
+        guildId,
+        channelId,
+        userId,
+        model,
+        contextName || null,
+        searchProvider || null,
+        searchVariant || null
+    );
+}
+
+export function getThread(id: string): ThreadRow | null {
+    return threadQueries.getThread.get(id);
+}
+
+export function markThreadStarted(id: string): void {
+    threadQueries.markThreadStarted.run(id);
+}
+
+export function addThreadMessage(
+    threadId: string,
+    role: "user" | "assistant",
+    content: string,
+    userId?: string,
+    authorName?: string
+): void {
+    threadQueries.insertThreadMessage.run(threadId, userId || null, authorName || null, role, content);
+}
+
+export function getThreadMessages(threadId: string): { role: string; content: string; authorName: string | null }[] {
+    return threadQueries.getThreadMessages.all(threadId).map(row => ({
+        role: row.role,
+        content: row.content,
+        authorName: row.author_name,
+    }));
+}
+
+// Chat reply queries
+export interface ChatReplyRow {
+    message_id: string;
+    guild_id: string;
+    channel_id: string;
+    user_id: string;
+    model: string;
+    prompt: string;
+    context_name: string | null;
+    image_sources: string; // JSON array of { url, inline } image sources
+    file_name: string | null;
+    file_url: string | null;
+    turns: string; // JSON text turns after the prompt, from continuing earlier replies
+    response: string;
+    finish_reason: string | null;
+    search_provider: string | null;
+    search_variant: string | null;
+    part_ids: string; // JSON array of the follow-up message ids of a long reply
+    created_at: number;
+}
+
+export type NewChatReply = Omit<ChatReplyRow, "created_at">;
+
+const chatReplyQueries = {
+    insertChatReply: db.prepare(
+        `INSERT OR REPLACE INTO chat_replies
+            (message_id, guild_id, channel_id, user_id, model, prompt, context_name, image_sources, file_name,
+             file_url, turns, response, finish_reason, search_provider, search_variant, part_ids)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ),
+    getChatReply: db.prepare<ChatReplyRow, [string]>("SELECT * FROM chat_replies WHERE message_id = ?"),
+    deleteChatReply: db.prepare("DELETE FROM chat_replies WHERE message_id = ?"),
+    deleteExpiredChatReplies: db.prepare("DELETE FROM chat_replies WHERE created_at < unixepoch() - ?"),
+};
+
+// Old replies are dropped along with their buttons (0 = keep)
+const CHAT_REPLY_RETENTION_DAYS = readEnvLimit("CHAT_REPLY_RETENTION_DAYS", 30);
+
+// Chat reply functions
+export function saveChatReply(reply: NewChatReply): void {
+    db.transaction(() => {
+        chatReplyQueries.insertChatReply.run(
+            reply.message_id,
+            reply.guild_id,
+            reply.channel_id,
+            reply.user_id,
+            reply.model,
+            reply.prompt,
+            reply.context_name,
+            reply.image_sources,
+            reply.file_name,
+            reply.file_url,
+            reply.turns,
+            reply.response,
+            reply.finish_reason,
+            reply.search_provider,
+            reply.search_variant,
+            reply.part_ids
+        );
+        if (CHAT_REPLY_RETENTION_DAYS > 0) {
+            chatReplyQueries.deleteExpiredChatReplies.run(CHAT_REPLY_RETENTION_DAYS * 86400);
+        }
+    })();
+}
+
+export function getChatReply(messageId: string): ChatReplyRow | null {
+    return chatReplyQueries.getChatReply.get(messageId);
+}
+
+export function deleteChatReply(messageId: string): void {
+    chatReplyQueries.deleteChatReply.run(messageId);
+}
+
+// Drop /chat exchanges that were never continued in a thread
+const THREAD_PENDING_TTL = 7 * 24 * 60 * 60; // 7 days
+const pruneBefore = Math.floor(Date.now() / 1000) - THREAD_PENDING_TTL;
+db.transaction(() => {
+    threadQueries.pruneThreadMessages.run(pruneBefore);
+    threadQueries.pruneThreads.run(pruneBefore);
+})();
+
 console.log("[DB] Database initialized at", DATABASE_PATH);
@@ -0,0 +1,330 @@
+/**
+ * Local mock of the NanoGPT API for offline testing.
+ *
+ * Point the bot at it with NANOGPT_BASE_URL=http://localhost:8787/api and any
+ * NANOGPT_API_KEY. Every endpoint returns a canned response unless a scripted
+ * response has been queued for it:
+ *
+ *   POST   /__mock/responses   queue one or more MockResponse entries
+ *   DELETE /__mock/responses   drop all queued responses and recorded requests
+ *   GET    /__mock/requests    list requests received so far
+ *
+ * MOCK_SCRIPT may point to a JSON file of MockResponse entries to queue at startup.
+ */
+import { readFileSync } from "fs";
+
+const PORT = Number(process.env.MOCK_PORT || 8787);
+
+interface MockResponse {
+    endpoint: string; // e.g. "/v1/chat/completions"
+    status?: number;
+    body?: unknown;
+    headers?: Record<string, string>; // e.g. { "Retry-After": "2" }
+    delayMs?: number;
+    // Chat completions only: stream these strings as deltas when the request asks for a stream
+    chunks?: string[];
+}
+
+interface RecordedRequest {
+    method: string;
+    endpoint: string;
+    body: unknown;
+    receivedAt: number;
+}
+
+const queuedResponses: MockResponse[] = [];
+const recordedRequests: RecordedRequest[] = [];
+
+const MOCK_MODELS = [
+    { id: "mock-small", name: "Mock Small", context_length: 8192 },
+    { id: "mock-large", name: "Mock Large", context_length: 128000 },
+    { id: "mock-vision", name: "Mock Vision", context_length: 32768, capabilities: { vision: true } },
+];
+
+function json(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json", ...headers },
+    });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isMockResponse(value: unknown): value is MockResponse {
+    return isRecord(value) && typeof value.endpoint === "string";
+}
+
+function takeQueuedResponse(endpoint: string): MockResponse | undefined {
+    const index = queuedResponses.findIndex((r) => r.endpoint === endpoint);
+    if (index === -1) return undefined;
+    return queuedResponses.splice(index, 1)[0];
+}
+
+function lastUserText(messages: unknown[]): string {
+    const last = [...messages].reverse().find((m) => isRecord(m) && m.role === "user");
+    if (!isRecord(last)) return "";
+    if (typeof last.content === "string") return last.content;
+    if (Array.isArray(last.content)) {
+        return last.content
+            .filter((part): part is { type: "text"; text: string } =>
+                isRecord(part) && part.type === "text" && typeof part.text === "string")
+            .map((part) => part.text)
+            .join(" ");
+    }
+    return "";
+}
+
+function streamChunks(model: string, chunks: string[]): Response {
+    const encoder = new TextEncoder();
+    const id = `chatcmpl-mock-${Date.now()}`;
+    const created = Math.floor(Date.now() / 1000);
+    const completionTokens = chunks.join("").split(/\s+/).filter(Boolean).length;
+
+    const stream = new ReadableStream<Uint8Array>({
+        async start(controller) {
+            const send = (payload: unknown) => {
+                controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+            };
+
+            for (const chunk of chunks) {
+                send({
+                    id,
+                    object: "chat.completion.chunk",
+                    created,
+                    model,
+                    choices: [{ index: 0, delta: { content: chunk }, finish_reason: null }],
+                });
+                await Bun.sleep(20);
+            }
+
+            send({
+                id,
+                object: "chat.completion.chunk",
+                created,
+                model,
+                choices: [{ index: 0, delta: {}, finish_reason: "stop" }],
+                usage: { prompt_tokens: 10, completion_tokens: completionTokens, total_tokens: 10 + completionTokens },
+            });
+            controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+            controller.close();
+        },
+    });
+
+    return new Response(stream, {
+        headers: { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" },
+    });
+}
+
+function handleChatCompletions(body: Record<string, unknown>, scripted?: MockResponse): Response {
+    const model = String(body.model || "mock-small");
+    const messages: unknown[] = Array.isArray(body.messages) ? body.messages : [];
+
+    if (scripted?.status && scripted.status >= 400) {
+        return json(scripted.body ?? { error: { message: "Scripted failure" } }, scripted.status, scripted.headers);
+    }
+
+    const text = scripted?.chunks?.join("")
+        ?? (typeof scripted?.body === "string" ? scripted.body : undefined)
+        ?? `Mock response to: ${lastUserText(messages)}`;
+
+    if (body.stream) {
+        const chunks = scripted?.chunks ?? text.match(/\S+\s*/g) ?? [text];
+        return streamChunks(model, chunks);
+    }
+
+    if (scripted?.body && typeof scripted.body === "object") {
+        return json(scripted.body, scripted.status ?? 200);
+    }
+
+    const completionTokens = text.split(/\s+/).filter(Boolean).length;
+    return json({
+        id: `chatcmpl-mock-${Date.now()}`,
+        object: "chat.completion",
+        created: Math.floor(Date.now() / 1000),
+        model,
+        choices: [{ index: 0, message: { role: "assistant", content: text }, finish_reason: "stop" }],
+        usage: { prompt_tokens: 10, completion_tokens: completionTokens, total_tokens: 10 + completionTokens },
+    });
+}
+
+// Hashed bag-of-words vectors: texts sharing words get similar embeddings,
+// which is enough to exercise semantic search without a real model
+const MOCK_EMBEDDING_DIMENSIONS = 256;
+
+function mockEmbedding(text: string): number[] {
+    const vector = new Array<number>(MOCK_EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+        let hash = 0;
+        for (let i = 0; i < word.length; i++) {
+            hash = (hash * 31 + word.charCodeAt(i)) >>> 0;
+        }
+        vector[hash % MOCK_EMBEDDING_DIMENSIONS] += 1;
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map((value) => value / norm);
+}
+
+function cannedResponse(endpoint: string, body: Record<string, unknown>): Response {
+    switch (endpoint) {
+        case "/v1/images/generations":
+            return json({
+                created: Math.floor(Date.now() / 1000),
+                data: [{ url: `https://placehold.co/1024x1024/png?text=${encodeURIComponent(String(body.prompt || "mock").substring(0, 50))}` }],
+                cost: 0,
+                paymentSource: "mock",
+            });
+
+        case "/v1/embeddings": {
+            const inputs = Array.isArray(body.input) ? body.input.map(String) : [String(body.input ?? "")];
+            const tokens = inputs.reduce((sum, input) => sum + input.split(/\s+/).filter(Boolean).length, 0);
+            return json({
+                object: "list",
+                data: inputs.map((input, index) => ({ object: "embedding", index, embedding: mockEmbedding(input) })),
+                model: String(body.model || "mock-embedding"),
+                usage: { prompt_tokens: tokens, total_tokens: tokens },
+            });
+        }
+
+        case "/subscription/v1/models":
+            return json({ data: MOCK_MODELS });
+
+        case "/subscription/v1/image-models":
+            return json({ data: [{ id: "mock-image" }, { id: "hidream" }] });
+
+        case "/subscription/v1/usage": {
+            const now = Date.now();
+            return json({
+                active: true,
+                limits: { daily: 1000, monthly: 30000 },
+                enforceDailyLimit: false,
+                daily: { used: 12, remaining: 988, percentUsed: 0.012, resetAt: now + 12 * 60 * 60 * 1000 },
+                monthly: { used: 345, remaining: 29655, percentUsed: 0.0115, resetAt: now + 15 * 24 * 60 * 60 * 1000 },
+                period: { currentPeriodEnd: new Date(now + 15 * 24 * 60 * 60 * 1000).toISOString() },
+                state: "active",
+                graceUntil: null,
+            });
+        }
+
+        case "/scrape-urls": {
+            const urls = Array.isArray(body.urls) ? body.urls.map(String) : [];
+            const results = urls.map((url) => ({
+                url,
+                success: true,
+                title: `Mock page for ${url}`,
+                content: `Mock content scraped from ${url}`,
+                markdown: `# Mock page\n\nThis is mock content scraped from ${url}.`,
+            }));
+            return json({
+                results,
+                summary: {
+                    requested: urls.length,
+                    processed: urls.length,
+                    successful: urls.length,
+                    failed: 0,
+                    totalCost: 0,
+                    stealthModeUsed: Boolean(body.stealthMode),
+                },
+            });
+        }
+
+        default:
+            return json({ error: { message: `Mock server has no handler for ${endpoint}` } }, 404);
+    }
+}
+
+async function handleControl(request: Request, path: string): Promise<Response> {
+    if (path === "/__mock/responses" && request.method === "POST") {
+        let payload: unknown;
+        try {
+            payload = await request.json();
+        } catch {
+            return json({ error: { message: "Invalid JSON body" } }, 400);
+        }
+
+        const entries = Array.isArray(payload) ? payload : [payload];
+        if (!entries.every(isMockResponse)) {
+            return json({ error: { message: "Each mock response needs an endpoint" } }, 400);
+        }
+        queuedResponses.push(...entries);
+        return json({ queued: queuedResponses.length });
+    }
+
+    if (path === "/__mock/responses" && request.method === "DELETE") {
+        queuedResponses.length = 0;
+        recordedRequests.length = 0;
+        return json({ queued: 0 });
+    }
+
+    if (path === "/__mock/requests" && request.method === "GET") {
+        return json(recordedRequests);
+    }
+
+    return json({ error: { message: "Unknown mock control endpoint" } }, 404);
+}
+
+function loadScript(path: string): void {
+    try {
+        const entries = JSON.parse(readFileSync(path, "utf-8")) as MockResponse[];
+        queuedResponses.push(...entries);
+        console.log(`[Mock] Queued ${entries.length} scripted response(s) from ${path}`);
+    } catch (error) {
+        console.error(`[Mock] Failed to load script ${path}:`, error);
+    }
+}
+
+if (process.env.MOCK_SCRIPT) {
+    loadScript(process.env.MOCK_SCRIPT);
+}
+
+const server = Bun.serve({
+    port: PORT,
+    async fetch(request) {
+        // Accept both http://host/api/... and http://host/... base URLs
+        const path = new URL(request.url).pathname.replace(/^\/api(?=\/)/, "");
+
+        if (path.startsWith("/__mock/")) {
+            return handleControl(request, path);
+        }
+
+        if (!request.headers.get("Authorization")?.startsWith("Bearer ")) {
+            return json({ error: { message: "Missing bearer token" } }, 401);
+        }
+
+        let body: Record<string, unknown> = {};
+        if (request.method === "POST") {
+            let payload: unknown;
+            try {
+                payload = await request.json();
+            } catch {
+                return json({ error: { message: "Invalid JSON body" } }, 400);
+            }
+            if (!isRecord(payload)) {
+                return json({ error: { message: "JSON body must be an object" } }, 400);
+            }
+            body = payload;
+        }
+
+        recordedRequests.push({ method: request.method, endpoint: path, body, receivedAt: Date.now() });
+        console.log(`[Mock] ${request.method} ${path}`);
+
+        const scripted = takeQueuedResponse(path);
+        if (scripted?.delayMs) {
+            await Bun.sleep(scripted.delayMs);
+        }
+
+        if (path === "/v1/chat/completions") {
+            return handleChatCompletions(body, scripted);
+        }
+
+        if (scripted) {
+            return json(scripted.body ?? {}, scripted.status ?? 200, scripted.headers);
+        }
+
+        return cannedResponse(path, body);
+    },
+});
+
+console.log(`[Mock] NanoGPT mock server listening on http://localhost:${server.port}/api`);
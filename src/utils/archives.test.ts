@@ -0,0 +1,71 @@
+import { describe, expect, test } from "bun:test";
+import { parseArchive } from "./archives.ts";
+import { buildTar, buildZip } from "./test-fixtures.ts";
+
+describe("parseArchive", () => {
+    test("renders a file tree and fenced files, skipping ignored and binary paths", () => {
+        const buffer = buildZip({
+            "src/": "",
+            "src/index.ts": "console.log(\"```\");\n",
+            "README.md": "# Project",
+            "node_modules/pkg/index.js": "module.exports = 1;",
+            "logo.png": Buffer.from([0x89, 0x50, 0x4e, 0x47]),
+            "bundle.js": Buffer.from([0x61, 0x00, 0x62]),
+        });
+
+        const result = parseArchive(buffer, "project.zip", "zip");
+
+        expect(result.fileCount).toBe(2);
+        expect(result.content).toBe([
+            "# project.zip",
+            "## File tree\n\n```\nREADME.md\nsrc/\n  index.ts\n```",
+            "## README.md\n\n```md\n# Project\n```",
+            "## src/index.ts\n\n````ts\nconsole.log(\"```\");\n````",
+        ].join("\n\n"));
+        expect(result.skippedReport).toBe([
+            "Skipped 3 files:",
+            "- 2 binary or unsupported: bundle.js, logo.png",
+            "- 1 in ignored paths: node_modules/pkg/index.js",
+        ].join("\n"));
+    });
+
+    test("reads plain and gzipped tar archives", () => {
+        const files = { "./app/main.py": "print('hi')\n" };
+
+        for (const [buffer, fileType] of [[buildTar(files), "tar"], [buildTar(files, true), "tar.gz"]] as const) {
+            const result = parseArchive(buffer, "app.tar", fileType);
+            expect(result.fileCount).toBe(1);
+            expect(result.content).toContain("## app/main.py\n\n```python\nprint('hi')\n```");
+        }
+    });
+
+    test("skips files over the size, count and total text limits", () => {
+        const files: Record<string, string> = { "big.txt": "x".repeat(201 * 1024) };
+        for (let i = 0; i < 210; i++) files[`file${String(i).padStart(3, "0")}.txt`] = "y".repeat(100);
+
+        const result = parseArchive(buildZip(files), "many.zip", "zip");
+        expect(result.fileCount).toBe(200);
+        expect(result.skippedReport).toContain("- 1 larger than 200KB: big.txt");
+        expect(result.skippedReport).toContain("- 10 over the 200-file limit: file200.txt");
+
+        const large: Record<string, string> = {};
+        for (let i = 0; i < 5; i++) large[`part${i}.txt`] = "z".repeat(30000);
+
+        const capped = parseArchive(buildZip(large), "large.zip", "zip");
+        expect(capped.fileCount).toBe(2);
+        expect(capped.content.length).toBeLessThan(90000);
+        expect(capped.skippedReport).toContain("- 3 over the total size limit: part2.txt, part3.txt, part4.txt");
+    });
+
+    test("explains what was skipped when nothing is readable", () => {
+        const buffer = buildZip({ "image.png": "png", "dist/app.js": "x" });
+        expect(() => parseArchive(buffer, "assets.zip", "zip")).toThrow(
+            "No text files could be read from the archive.\nSkipped 2 files:"
+        );
+    });
+
+    test("passes corrupt archive errors through", () => {
+        expect(() => parseArchive(Buffer.from("garbage"), "bad.zip", "zip")).toThrow("Not a valid zip archive.");
+        expect(() => parseArchive(Buffer.alloc(512, 7), "bad.tar", "tar")).toThrow("Not a valid tar archive.");
+    });
+});
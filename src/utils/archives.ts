@@ -0,0 +1,227 @@
+import { ZipArchive } from "./zip.ts";
+import { TarArchive } from "./tar.ts";
+
+// Source files accepted on their own and read from archives, with their fence language
+export const SOURCE_LANGUAGES: Record<string, string> = {
+    ".ts": "ts", ".tsx": "tsx", ".js": "js", ".jsx": "jsx", ".mjs": "js", ".cjs": "js",
+    ".py": "python", ".go": "go", ".rs": "rust", ".java": "java", ".kt": "kotlin", ".kts": "kotlin",
+    ".c": "c", ".h": "c", ".cpp": "cpp", ".cc": "cpp", ".hpp": "cpp", ".cs": "csharp",
+    ".rb": "ruby", ".php": "php", ".swift": "swift", ".scala": "scala", ".lua": "lua", ".dart": "dart",
+    ".sh": "bash", ".bash": "bash", ".zsh": "bash", ".ps1": "powershell", ".sql": "sql",
+    ".css": "css", ".scss": "scss", ".vue": "vue", ".svelte": "svelte",
+    ".yaml": "yaml", ".yml": "yaml", ".toml": "toml", ".ini": "ini", ".gradle": "groovy",
+};
+
+// Other text files worth including from an archive
+const TEXT_LANGUAGES: Record<string, string> = {
+    ".md": "md", ".markdown": "md", ".txt": "", ".text": "", ".rst": "", ".json": "json",
+    ".xml": "xml", ".html": "html", ".htm": "html", ".csv": "csv", ".tsv": "", ".env.example": "",
+    ".cfg": "ini", ".conf": "", ".proto": "proto", ".graphql": "graphql",
+};
+
+// Extensionless files that are conventionally text
+const TEXT_FILENAMES: Record<string, string> = {
+    dockerfile: "dockerfile", makefile: "makefile", license: "", readme: "", procfile: "", gemfile: "ruby", rakefile: "ruby",
+};
+
+// Dependency, build and VCS directories that would drown out the project's own code
+const IGNORED_DIRECTORIES = new Set([
+    "node_modules", ".git", ".svn", ".hg", "dist", "build", "out", "target", "vendor", "coverage",
+    "__pycache__", ".venv", "venv", ".next", ".nuxt", ".idea", ".vscode", ".gradle", "__MACOSX",
+]);
+
+// Generated files that are large and carry little meaning
+const IGNORED_FILENAMES = new Set([
+    "package-lock.json", "yarn.lock", "pnpm-lock.yaml", "bun.lockb", "bun.lock", "cargo.lock",
+    "poetry.lock", "composer.lock", "go.sum", ".ds_store", "thumbs.db",
+]);
+
+export const ARCHIVE_EXTENSIONS = [".zip", ".tar.gz", ".tgz", ".tar"];
+
+const MAX_ARCHIVE_FILES = 200;
+
+// Individual files above this are assumed to be generated or data
+const MAX_ARCHIVE_FILE_SIZE = 200 * 1024; // 200KB
+
+// Stays under the context size limit with room for the file tree, so files
+// are skipped whole instead of being cut off mid-file
+const MAX_ARCHIVE_TEXT_SIZE = 90000;
+
+// How many skipped paths to name per reason in the report
+const MAX_REPORTED_PATHS = 5;
+
+type SkipReason = "ignored" | "binary" | "too large" | "file limit" | "size limit";
+
+const SKIP_LABELS: Record<SkipReason, string> = {
+    "ignored": "in ignored paths",
+    "binary": "binary or unsupported",
+    "too large": `larger than ${MAX_ARCHIVE_FILE_SIZE / 1024}KB`,
+    "file limit": `over the ${MAX_ARCHIVE_FILES}-file limit`,
+    "size limit": "over the total size limit",
+};
+
+interface ArchiveFile {
+    path: string;
+    size: number;
+    read: () => Buffer;
+}
+
+export interface ParsedArchive {
+    content: string;
+    fileCount: number;
+    skippedReport: string | null;
+}
+
+function getExtension(path: string): string {
+    const name = path.substring(path.lastIndexOf("/") + 1).toLowerCase();
+    if (name.endsWith(".env.example")) return ".env.example";
+    const dot = name.lastIndexOf(".");
+    return dot > 0 ? name.substring(dot) : "";
+}
+
+function getFenceLanguage(path: string): string | null {
+    const name = path.substring(path.lastIndexOf("/") + 1).toLowerCase();
+    if (name in TEXT_FILENAMES) return TEXT_FILENAMES[name];
+
+    const extension = getExtension(path);
+    return SOURCE_LANGUAGES[extension] ?? TEXT_LANGUAGES[extension] ?? null;
+}
+
+function isIgnoredPath(path: string): boolean {
+    const segments = path.split("/");
+    const filename = segments.pop()!.toLowerCase();
+    return IGNORED_FILENAMES.has(filename) || segments.some((segment) => IGNORED_DIRECTORIES.has(segment));
+}
+
+function listFiles(buffer: Buffer, fileType: string): ArchiveFile[] {
+    if (fileType === "zip") {
+        const zip = new ZipArchive(buffer);
+        return zip.entries
+            .filter((entry) => !entry.isDirectory)
+            .map((entry) => ({ path: entry.name, size: entry.size, read: () => zip.extract(entry) }));
+    }
+
+    const tar = new TarArchive(buffer, fileType !== "tar");
+    return tar.entries
+        .filter((entry) => entry.isFile && !entry.isDirectory)
+        .map((entry) => ({ path: entry.name.replace(/^\.\//, ""), size: entry.size, read: () => tar.extract(entry) }));
+}
+
+/**
+ * Render an indented tree of the included paths.
+ */
+function renderFileTree(paths: string[]): string {
+    const lines: string[] = [];
+    const printed = new Set<string>();
+
+    for (const path of paths) {
+        const segments = path.split("/");
+        for (let depth = 0; depth < segments.length; depth++) {
+            const key = segments.slice(0, depth + 1).join("/");
+            if (printed.has(key)) continue;
+            printed.add(key);
+
+            const isDirectory = depth < segments.length - 1;
+            lines.push(`${"  ".repeat(depth)}${segments[depth]}${isDirectory ? "/" : ""}`);
+        }
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * Wrap file content in a code fence longer than any backtick run inside it.
+ */
+function fence(content: string, language: string): string {
+    const longestRun = Math.max(0, ...(content.match(/`+/g) ?? []).map((run) => run.length));
+    const marker = "`".repeat(Math.max(3, longestRun + 1));
+    return `${marker}${language}\n${content.replace(/\n$/, "")}\n${marker}`;
+}
+
+function formatSkippedReport(skipped: Map<SkipReason, string[]>): string | null {
+    const total = [...skipped.values()].reduce((sum, paths) => sum + paths.length, 0);
+    if (total === 0) return null;
+
+    const lines = [...skipped.entries()].map(([reason, paths]) => {
+        const examples = paths.slice(0, MAX_REPORTED_PATHS).join(", ");
+        const more = paths.length > MAX_REPORTED_PATHS ? `, +${paths.length - MAX_REPORTED_PATHS} more` : "";
+        return `- ${paths.length} ${SKIP_LABELS[reason]}: ${examples}${more}`;
+    });
+
+    return [`Skipped ${total} file${total === 1 ? "" : "s"}:`, ...lines].join("\n");
+}
+
+/**
+ * Convert a source archive into a single context document: a file tree of
+ * what was included, followed by each text file in a fenced code block.
+ * Ignored directories, binaries and files beyond the limits are skipped and
+ * listed in the returned report.
+ */
+export function parseArchive(buffer: Buffer, filename: string, fileType: string): ParsedArchive {
+    const files = listFiles(buffer, fileType).sort((a, b) => a.path.localeCompare(b.path));
+    const skipped = new Map<SkipReason, string[]>();
+    const skip = (reason: SkipReason, path: string) => {
+        const paths = skipped.get(reason) ?? [];
+        paths.push(path);
+        skipped.set(reason, paths);
+    };
+
+    const included: { path: string; block: string }[] = [];
+    let totalSize = 0;
+
+    for (const file of files) {
+        const language = getFenceLanguage(file.path);
+
+        if (isIgnoredPath(file.path)) {
+            skip("ignored", file.path);
+            continue;
+        }
+        if (language === null) {
+            skip("binary", file.path);
+            continue;
+        }
+        if (file.size > MAX_ARCHIVE_FILE_SIZE) {
+            skip("too large", file.path);
+            continue;
+        }
+        if (included.length >= MAX_ARCHIVE_FILES) {
+            skip("file limit", file.path);
+            continue;
+        }
+
+        const data = file.read();
+
+        // Text extensions can still hold binary data, e.g. compiled .js bundles with NULs
+        if (data.subarray(0, 8000).includes(0)) {
+            skip("binary", file.path);
+            continue;
+        }
+
+        const block = `## ${file.path}\n\n${fence(data.toString("utf-8"), language)}`;
+        if (totalSize + block.length > MAX_ARCHIVE_TEXT_SIZE) {
+            skip("size limit", file.path);
+            continue;
+        }
+
+        totalSize += block.length;
+        included.push({ path: file.path, block });
+    }
+
+    if (included.length === 0) {
+        const report = formatSkippedReport(skipped);
+        throw new Error(`No text files could be read from the archive.${report ? `\n${report}` : ""}`);
+    }
+
+    const tree = renderFileTree(included.map((file) => file.path));
+    const content = [
+        `# ${filename}`,
+        `## File tree\n\n${fence(tree, "")}`,
+        ...included.map((file) => file.block),
+    ].join("\n\n");
+
+    return {
+        content,
+        fileCount: included.length,
+        skippedReport: formatSkippedReport(skipped),
+    };
+}
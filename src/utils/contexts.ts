@@ -0,0 +1,339 @@
+import type { ApplicationCommandOptionChoiceData, Attachment } from "discord.js";
+import { nanogpt } from "../api/nanogpt.ts";
+import {
+    addContext,
+    getContext,
+    getAllContexts,
+    getCollection,
+    getAllCollections,
+    getCollectionContexts,
+} from "../db/index.ts";
+import { buildContextPrompt, indexContext, embedContext, type ContextDocument } from "./retrieval.ts";
+import { estimateTokens } from "./history.ts";
+import { getContextLength } from "./models.ts";
+import { downloadAndParse, isSupportedFile, getSupportedExtensions } from "./documents.ts";
+
+// Maximum characters stored per context
+export const MAX_CONTEXT_CONTENT_SIZE = 100000; // ~100KB of text
+
+// Upper bound on documents attached to a single message, after expanding collections
+export const MAX_CONTEXTS_PER_MESSAGE = 10;
+
+// Discord limits autocomplete choice names and values to 100 characters
+const MAX_CHOICE_LENGTH = 100;
+
+const MAX_CONTEXT_NAME_LENGTH = 40;
+
+// Files attached to a chat are kept briefly so "Save this as a context" doesn't download them again
+const ATTACHMENT_CACHE_TTL = 30 * 60 * 1000; // 30 minutes
+
+const attachmentCache = new Map<string, { file: ChatAttachment; expiresAt: number }>();
+
+export interface ResolvedContexts {
+    contexts: ContextDocument[];
+    missing: string[];
+}
+
+export interface IndexedContext {
+    chunkCount: number;
+    searchMode: "Semantic" | "Keyword";
+}
+
+export interface ScrapedPage {
+    url: string;
+    title: string;
+    content: string;
+    truncated: boolean;
+}
+
+export interface ChatAttachment {
+    filename: string;
+    fileType: string;
+    content: string;
+    title: string | null;
+    author: string | null;
+    truncated: boolean;
+}
+
+export interface ContextsPrompt {
+    text: string; // Block to append to the system prompt
+    citations: string | null;
+    estimatedTokens: number;
+}
+
+/**
+ * Split a comma-separated `context` option into unique names, keeping order.
+ */
+export function parseContextNames(value: string): string[] {
+    const seen = new Set<string>();
+    const names: string[] = [];
+
+    for (const part of value.split(",")) {
+        const name = part.trim();
+        if (name && !seen.has(name.toLowerCase())) {
+            seen.add(name.toLowerCase());
+            names.push(name);
+        }
+    }
+
+    return names;
+}
+
+/**
+ * Autocomplete choices for a comma-separated list of contexts and
+ * collections. Only the last, partially typed entry is completed; earlier
+ * entries are kept as typed and names already in the list are not offered again.
+ */
+export function getContextChoices(guildId: string, userId: string, focused: string): ApplicationCommandOptionChoiceData<string>[] {
+    const parts = focused.split(",");
+    const partial = parts.pop()!.trim().toLowerCase();
+    const chosen = parts.map((part) => part.trim()).filter(Boolean);
+    const chosenLower = new Set(chosen.map((name) => name.toLowerCase()));
+    const prefix = chosen.length > 0 ? `${chosen.join(", ")}, ` : "";
+
+    // Combine and dedupe (user contexts take priority)
+    const allContexts: { name: string; label: string }[] = [];
+    const seenNames = new Set<string>();
+
+    for (const ctx of getAllContexts(guildId, userId) || []) {
+        if (!seenNames.has(ctx.name)) {
+            seenNames.add(ctx.name);
+            allContexts.push({ name: ctx.name, label: `${ctx.name} (personal)` });
+        }
+    }
+
+    for (const ctx of getAllContexts(guildId) || []) {
+        if (!seenNames.has(ctx.name)) {
+            seenNames.add(ctx.name);
+            allContexts.push({ name: ctx.name, label: `${ctx.name} (server)` });
+        }
+    }
+
+    for (const collection of [...getAllCollections(guildId, userId), ...getAllCollections(guildId)]) {
+        if (!seenNames.has(collection.name)) {
+            seenNames.add(collection.name);
+            const scope = collection.user_id ? "personal" : "server";
+            allContexts.push({
+                name: collection.name,
+                label: `${collection.name} (${scope} collection, ${collection.context_count} docs)`,
+            });
+        }
+    }
+
+    if (chosen.length >= MAX_CONTEXTS_PER_MESSAGE) return [];
+
+    return allContexts
+        .filter((ctx) => !chosenLower.has(ctx.name.toLowerCase()))
+        .filter((ctx) => ctx.name.toLowerCase().includes(partial))
+        .filter((ctx) => (prefix + ctx.name).length <= MAX_CHOICE_LENGTH)
+        .slice(0, 25)
+        .map((ctx) => ({
+            name: (prefix + ctx.label).substring(0, MAX_CHOICE_LENGTH),
+            value: prefix + ctx.name,
+        }));
+}
+
+/**
+ * Look up each name as a context, then as a collection (user scope first,
+ * then server scope). Collections expand to their documents; a document
+ * named more than once is included once.
+ */
+export function resolveContexts(guildId: string, names: string[], userId: string): ResolvedContexts {
+    const contexts: ContextDocument[] = [];
+    const missing: string[] = [];
+    const seenIds = new Set<number>();
+
+    const include = (context: ContextDocument) => {
+        if (!seenIds.has(context.id)) {
+            seenIds.add(context.id);
+            contexts.push(context);
+        }
+    };
+
+    for (const name of names) {
+        const context = getContext(guildId, name, userId);
+        if (context) {
+            include(context);
+            continue;
+        }
+
+        const collection = getCollection(guildId, name, userId);
+        if (collection) {
+            getCollectionContexts(collection.id).forEach(include);
+        } else {
+            missing.push(name);
+        }
+    }
+
+    return { contexts, missing };
+}
+
+/**
+ * Build the labeled system prompt block for one or more contexts, retrieving
+ * the passages of each document that are relevant to the query.
+ */
+export async function buildContextsPrompt(contexts: ContextDocument[], query: string): Promise<ContextsPrompt> {
+    const prompts = await Promise.all(contexts.map((context) => buildContextPrompt(context, query)));
+
+    let text = prompts.map((prompt) => prompt.text).join("");
+    if (contexts.length > 1) {
+        const names = contexts.map((context) => context.name).join(", ");
+        text = `\n\nThe following ${contexts.length} documents are provided as context: ${names}.${text}`;
+    }
+
+    const citations = prompts
+        .map((prompt) => prompt.citations)
+        .filter((citation): citation is string => citation !== null);
+
+    return {
+        text,
+        citations: citations.length > 0 ? citations.join("; ") : null,
+        estimatedTokens: estimateTokens(text),
+    };
+}
+
+/**
+ * Footer warning when the combined contexts alone exceed the model's window.
+ */
+export async function getContextSizeWarning(estimatedTokens: number, model: string): Promise<string | null> {
+    const contextLength = await getContextLength(model);
+    if (estimatedTokens <= contextLength) return null;
+
+    return `Warning: contexts (~${estimatedTokens.toLocaleString()} tokens) exceed the model's ${contextLength.toLocaleString()}-token window`;
+}
+
+/**
+ * Split a newly saved or updated context into passages and embed them.
+ * Embeddings are best effort; chats fall back to keyword search without them.
+ */
+export async function indexAndEmbedContext(contextId: number, content: string): Promise<IndexedContext> {
+    const chunkCount = indexContext(contextId, content);
+
+    try {
+        await embedContext(contextId);
+        return { chunkCount, searchMode: "Semantic" };
+    } catch (error) {
+        console.warn("[Contexts] Embedding failed:", error instanceof Error ? error.message : error);
+        return { chunkCount, searchMode: "Keyword" };
+    }
+}
+
+/**
+ * Scrape a page and return its markdown, capped to the context size limit.
+ * Throws with a user-facing message when the page can't be scraped.
+ */
+export async function scrapePageForContext(url: string, stealthMode: boolean = false): Promise<ScrapedPage> {
+    const response = await nanogpt.scrapeUrls([url], stealthMode);
+    const result = response.results[0];
+
+    if (!result?.success) {
+        throw new Error(`Could not scrape ${url}: ${result?.error || "Unknown error"}`);
+    }
+
+    const markdown = (result.markdown || result.content || "").trim();
+    if (!markdown) {
+        throw new Error(`No content could be extracted from ${url}.`);
+    }
+
+    return {
+        url: result.url || url,
+        title: result.title || url,
+        content: markdown.substring(0, MAX_CONTEXT_CONTENT_SIZE),
+        truncated: markdown.length > MAX_CONTEXT_CONTENT_SIZE,
+    };
+}
+
+/**
+ * Derive a free personal context name from a title or filename, e.g. "my-page-2".
+ */
+export function uniqueContextName(guildId: string, userId: string, title: string, fallback: string): string {
+    const base = title
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, "-")
+        .replace(/^-+|-+$/g, "")
+        .substring(0, MAX_CONTEXT_NAME_LENGTH) || fallback;
+
+    let name = base;
+    for (let suffix = 2; getContext(guildId, name, userId); suffix++) {
+        name = `${base}-${suffix}`;
+    }
+    return name;
+}
+
+/**
+ * Download and parse a file attached to a chat message, with the same type
+ * check and size limit as /context add. Throws with a user-facing message.
+ */
+export async function loadChatAttachment(attachment: Pick<Attachment, "name" | "url">): Promise<ChatAttachment> {
+    if (!isSupportedFile(attachment.name)) {
+        throw new Error(`Unsupported file type. Supported types: ${getSupportedExtensions().join(", ")}`);
+    }
+
+    const parsed = await downloadAndParse(attachment.url, attachment.name);
+
+    return {
+        filename: attachment.name,
+        fileType: parsed.fileType,
+        content: parsed.content.substring(0, MAX_CONTEXT_CONTENT_SIZE),
+        title: parsed.title ?? null,
+        author: parsed.author ?? null,
+        truncated: parsed.content.length > MAX_CONTEXT_CONTENT_SIZE,
+    };
+}
+
+/**
+ * System prompt block for a file attached to a single chat message. The file
+ * isn't indexed, so it is always sent whole.
+ */
+export function buildAttachmentPrompt(file: ChatAttachment): string {
+    return `\n\n--- ATTACHED FILE: ${file.filename} ---\n${file.content}`;
+}
+
+/**
+ * Keep a chat attachment for the "Save this as a context" button on the reply.
+ */
+export function cacheChatAttachment(messageId: string, file: ChatAttachment): void {
+    const now = Date.now();
+    for (const [id, entry] of attachmentCache) {
+        if (entry.expiresAt <= now) attachmentCache.delete(id);
+    }
+
+    attachmentCache.set(messageId, { file, expiresAt: now + ATTACHMENT_CACHE_TTL });
+}
+
+export function getCachedChatAttachment(messageId: string): ChatAttachment | null {
+    const entry = attachmentCache.get(messageId);
+    return entry && entry.expiresAt > Date.now() ? entry.file : null;
+}
+
+/**
+ * Save the file attached to a chat reply as a personal context of the user
+ * who clicked the button, and return the confirmation to show them.
+ */
+export async function saveChatAttachment(messageId: string, guildId: string, userId: string): Promise<string> {
+    const file = getCachedChatAttachment(messageId);
+    if (!file) {
+        return "This file is no longer available. Upload it with /context add to save it.";
+    }
+
+    const baseName = file.filename.replace(/\.(tar\.gz|[^.]+)$/i, "");
+    const name = uniqueContextName(guildId, userId, baseName, "attached-file");
+    const contextId = addContext(
+        guildId,
+        name,
+        file.content,
+        file.filename,
+        file.fileType,
+        userId,
+        undefined,
+        userId,
+        { title: file.title, author: file.author }
+    );
+    const { chunkCount } = await indexAndEmbedContext(contextId, file.content);
+
+    return [
+        `Saved **${file.filename}** as personal context **${name}**`,
+        `(${file.content.length.toLocaleString()} characters${file.truncated ? ", truncated" : ""}, ${chunkCount} passages).`,
+        `Use \`/chat context:${name}\` to include it.`,
+    ].join(" ");
+}
@@ -0,0 +1,172 @@
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3;
+
+// Beyond this many changed lines the diff falls back to replacing the whole
+// middle section, which keeps memory bounded for unrelated documents
+const MAX_EDIT_DISTANCE = 2000;
+
+interface Edit {
+    type: "equal" | "delete" | "insert";
+    line: string;
+    oldIndex: number; // Position in the old text before this edit
+    newIndex: number; // Position in the new text before this edit
+}
+
+/**
+ * Myers' O((N+M)D) diff. Returns the operations in order, without positions.
+ */
+function myersDiff(a: string[], b: string[]): Omit<Edit, "oldIndex" | "newIndex">[] | null {
+    const n = a.length;
+    const m = b.length;
+    const maxD = Math.min(n + m, MAX_EDIT_DISTANCE);
+    const offset = maxD + 1;
+    const v = new Int32Array(2 * maxD + 3);
+
+    // trace[d] holds the window k = -(d+1)..(d+1) of v before step d
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= maxD; d++) {
+        trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+        for (let k = -d; k <= d; k += 2) {
+            let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+                ? v[offset + k + 1]
+                : v[offset + k - 1] + 1;
+            let y = x - k;
+
+            while (x < n && y < m && a[x] === b[y]) {
+                x++;
+                y++;
+            }
+            v[offset + k] = x;
+
+            if (x >= n && y >= m) {
+                return backtrack(a, b, trace);
+            }
+        }
+    }
+
+    return null;
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Omit<Edit, "oldIndex" | "newIndex">[] {
+    const edits: Omit<Edit, "oldIndex" | "newIndex">[] = [];
+    let x = a.length;
+    let y = b.length;
+
+    for (let d = trace.length - 1; d >= 0; d--) {
+        const window = trace[d];
+        const at = (k: number) => window[k + d + 1];
+        const k = x - y;
+
+        const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const prevX = d === 0 ? 0 : at(prevK);
+        const prevY = d === 0 ? 0 : prevX - prevK;
+
+        while (x > prevX && y > prevY) {
+            edits.push({ type: "equal", line: a[x - 1] });
+            x--;
+            y--;
+        }
+
+        if (d > 0) {
+            if (x === prevX) {
+                edits.push({ type: "insert", line: b[y - 1] });
+            } else {
+                edits.push({ type: "delete", line: a[x - 1] });
+            }
+        }
+
+        x = prevX;
+        y = prevY;
+    }
+
+    return edits.reverse();
+}
+
+function diffLines(a: string[], b: string[]): Edit[] {
+    // Trim the common prefix and suffix so the expensive part only sees changes
+    let start = 0;
+    while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+        endA--;
+        endB--;
+    }
+
+    const middleA = a.slice(start, endA);
+    const middleB = b.slice(start, endB);
+    const middle = myersDiff(middleA, middleB) ?? [
+        ...middleA.map((line) => ({ type: "delete" as const, line })),
+        ...middleB.map((line) => ({ type: "insert" as const, line })),
+    ];
+
+    const operations = [
+        ...a.slice(0, start).map((line) => ({ type: "equal" as const, line })),
+        ...middle,
+        ...a.slice(endA).map((line) => ({ type: "equal" as const, line })),
+    ];
+
+    // Attach positions for hunk headers
+    let oldIndex = 0;
+    let newIndex = 0;
+    return operations.map((operation) => {
+        const edit = { ...operation, oldIndex, newIndex };
+        if (operation.type !== "insert") oldIndex++;
+        if (operation.type !== "delete") newIndex++;
+        return edit;
+    });
+}
+
+function formatHunk(edits: Edit[]): string {
+    const oldLength = edits.filter((edit) => edit.type !== "insert").length;
+    const newLength = edits.filter((edit) => edit.type !== "delete").length;
+
+    // Empty ranges point at the line before them, per the unified format
+    const oldStart = oldLength === 0 ? edits[0].oldIndex : edits[0].oldIndex + 1;
+    const newStart = newLength === 0 ? edits[0].newIndex : edits[0].newIndex + 1;
+
+    const prefix = { equal: " ", delete: "-", insert: "+" };
+    return [
+        `@@ -${oldStart},${oldLength} +${newStart},${newLength} @@`,
+        ...edits.map((edit) => prefix[edit.type] + edit.line),
+    ].join("\n");
+}
+
+function splitLines(text: string): string[] {
+    if (text === "") return [];
+    const lines = text.split("\n");
+    // A trailing newline ends the last line rather than starting a new one
+    if (lines[lines.length - 1] === "") lines.pop();
+    return lines;
+}
+
+/**
+ * Line-based unified diff between two texts, or null when they are identical.
+ */
+export function createUnifiedDiff(oldText: string, newText: string, oldLabel: string, newLabel: string): string | null {
+    const edits = diffLines(splitLines(oldText), splitLines(newText));
+    const changed = edits
+        .map((edit, index) => (edit.type === "equal" ? -1 : index))
+        .filter((index) => index !== -1);
+
+    if (changed.length === 0) return null;
+
+    // Group changes whose surrounding context would overlap into one hunk
+    const hunks: string[] = [];
+    let hunkStart = Math.max(0, changed[0] - CONTEXT_LINES);
+    let hunkEnd = changed[0];
+
+    for (const index of changed.slice(1)) {
+        if (index - hunkEnd > CONTEXT_LINES * 2) {
+            hunks.push(formatHunk(edits.slice(hunkStart, Math.min(edits.length, hunkEnd + CONTEXT_LINES + 1))));
+            hunkStart = index - CONTEXT_LINES;
+        }
+        hunkEnd = index;
+    }
+    hunks.push(formatHunk(edits.slice(hunkStart, Math.min(edits.length, hunkEnd + CONTEXT_LINES + 1))));
+
+    return [`--- ${oldLabel}`, `+++ ${newLabel}`, ...hunks].join("\n") + "\n";
+}
@@ -1,21 +1,54 @@
 import { PDFParse } from "pdf-parse";
+import { parseDOCX, parsePPTX, parseODT, parseEPUB } from "./office.ts";
+import { parseXLSX, parseCSV } from "./spreadsheets.ts";
+import { parseRTF } from "./rtf.ts";
+import { parseArchive, SOURCE_LANGUAGES, ARCHIVE_EXTENSIONS } from "./archives.ts";
 
 export interface ParsedDocument {
     content: string;
     filename: string;
     fileType: string;
+    notes?: string[]; // Messages for the uploader, e.g. files skipped from an archive
+    title?: string | null;
+    author?: string | null;
 }
 
-const SUPPORTED_EXTENSIONS = [".pdf", ".txt", ".md", ".markdown", ".text", ".log", ".json", ".xml", ".csv", ".html", ".htm"];
+// Marks the start of each page in PDF contexts, on a line of its own
+const PAGE_MARKER = /^\[page (\d+)\]$/gm;
+
+const IMAGE_ONLY_PAGE_TEXT = "(No text on this page; it may be a scanned image.)";
+
+const SUPPORTED_EXTENSIONS = [
+    ".pdf", ".docx", ".pptx", ".odt", ".xlsx", ".epub", ".rtf",
+    ".txt", ".md", ".markdown", ".text", ".log", ".json", ".xml", ".csv", ".tsv", ".html", ".htm",
+    ...ARCHIVE_EXTENSIONS,
+    ...Object.keys(SOURCE_LANGUAGES),
+];
+
+// Formats converted to markdown text by a dedicated parser
+const CONVERTERS: Record<string, (buffer: Buffer) => string> = {
+    docx: parseDOCX,
+    pptx: parsePPTX,
+    odt: parseODT,
+    xlsx: parseXLSX,
+    epub: parseEPUB,
+    rtf: parseRTF,
+    csv: (buffer) => parseCSV(buffer.toString("utf-8")),
+    tsv: (buffer) => parseCSV(buffer.toString("utf-8"), "\t"),
+};
+
+function getExtension(filename: string): string {
+    const lower = filename.toLowerCase();
+    if (lower.endsWith(".tar.gz")) return ".tar.gz";
+    return lower.substring(lower.lastIndexOf("."));
+}
 
 export function isSupportedFile(filename: string): boolean {
-    const ext = filename.toLowerCase().substring(filename.lastIndexOf("."));
-    return SUPPORTED_EXTENSIONS.includes(ext);
+    return SUPPORTED_EXTENSIONS.includes(getExtension(filename));
 }
 
 export function getFileType(filename: string): string {
-    const ext = filename.toLowerCase().substring(filename.lastIndexOf("."));
-    return ext.replace(".", "") || "txt";
+    return getExtension(filename).replace(".", "") || "txt";
 }
 
 export async function parseDocument(
@@ -28,6 +61,15 @@ export async function parseDocument(
         return parsePDF(buffer, filename);
     }
 
+    if (ARCHIVE_EXTENSIONS.includes(`.${fileType}`)) {
+        return parseArchiveDocument(buffer, filename, fileType);
+    }
+
+    const converter = CONVERTERS[fileType];
+    if (converter) {
+        return convertDocument(converter, buffer, filename, fileType);
+    }
+
     // For text-based files, just decode as UTF-8
     return {
         content: buffer.toString("utf-8"),
@@ -37,23 +79,114 @@ export async function parseDocument(
 }
 
 async function parsePDF(buffer: Buffer, filename: string): Promise<ParsedDocument> {
+    const parser = new PDFParse({ data: buffer });
+
     try {
-        const result = await pdfParse(buffer);
+        const { info } = await parser.getInfo();
+        const result = await parser.getText();
+
+        // Pages without a text layer are usually scans; keep their markers so page numbers stay aligned
+        const emptyPages: number[] = [];
+        const sections = result.pages.map((page) => {
+            const text = page.text.trim();
+            if (!text) emptyPages.push(page.num);
+            return `${formatPageMarker(page.num)}\n${text || IMAGE_ONLY_PAGE_TEXT}`;
+        });
 
-        if (!result.text || result.text.trim().length === 0) {
+        if (emptyPages.length === result.pages.length) {
             throw new Error("No text content could be extracted from the PDF. It may be an image-based PDF.");
         }
 
+        const notes = emptyPages.length === 1
+            ? [`No text found on page ${emptyPages[0]}; it may be a scanned image.`]
+            : emptyPages.length > 1
+                ? [`No text found on pages ${formatPageRanges(emptyPages)}; they may be scanned images.`]
+                : undefined;
+
         return {
-            content: result.text.trim(),
+            content: sections.join("\n\n"),
             filename,
             fileType: "pdf",
+            title: readInfoString(info?.Title),
+            author: readInfoString(info?.Author),
+            notes,
         };
     } catch (error) {
         if (error instanceof Error) {
             throw new Error(`Failed to parse PDF: ${error.message}`);
         }
         throw new Error("Failed to parse PDF: Unknown error");
+    } finally {
+        await parser.destroy();
+    }
+}
+
+function readInfoString(value: unknown): string | null {
+    return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+export function formatPageMarker(page: number): string {
+    return `[page ${page}]`;
+}
+
+/**
+ * Page numbers and offsets of the `[page N]` markers in a document, in order.
+ */
+export function findPageMarkers(content: string): { page: number; index: number }[] {
+    return [...content.matchAll(PAGE_MARKER)].map((match) => ({
+        page: parseInt(match[1], 10),
+        index: match.index,
+    }));
+}
+
+/**
+ * Compact page list, e.g. [1, 2, 3, 5] -> "1-3, 5".
+ */
+export function formatPageRanges(pages: number[]): string {
+    const ranges: string[] = [];
+    let start = pages[0];
+
+    for (let i = 1; i <= pages.length; i++) {
+        if (pages[i] !== pages[i - 1] + 1) {
+            ranges.push(start === pages[i - 1] ? `${start}` : `${start}-${pages[i - 1]}`);
+            start = pages[i];
+        }
+    }
+
+    return ranges.join(", ");
+}
+
+function convertDocument(
+    converter: (buffer: Buffer) => string,
+    buffer: Buffer,
+    filename: string,
+    fileType: string
+): ParsedDocument {
+    let content: string;
+    try {
+        content = converter(buffer).trim();
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to parse ${fileType.toUpperCase()}: ${message}`);
+    }
+
+    if (!content) {
+        throw new Error(`No text content could be extracted from the ${fileType.toUpperCase()} file.`);
+    }
+
+    return { content, filename, fileType };
+}
+
+function parseArchiveDocument(buffer: Buffer, filename: string, fileType: string): ParsedDocument {
+    try {
+        const archive = parseArchive(buffer, filename, fileType);
+        const notes = [`Included ${archive.fileCount} file${archive.fileCount === 1 ? "" : "s"} from the archive.`];
+        if (archive.skippedReport) notes.push(archive.skippedReport);
+
+        return { content: archive.content, filename, fileType, notes };
+    } catch (error) {
+        const message = error instanceof Error ? error.message : "Unknown error";
+        throw new Error(`Failed to read archive: ${message}`);
     }
 }
 
@@ -70,6 +203,14 @@ export async function downloadAndParse(url: string, filename: string): Promise<P
     return parseDocument(buffer, filename);
 }
 
+/**
+ * Whether a file type is converted to markdown on upload rather than stored
+ * as its original text.
+ */
+export function isConvertedFileType(fileType: string): boolean {
+    return fileType === "pdf" || fileType in CONVERTERS || ARCHIVE_EXTENSIONS.includes(`.${fileType}`);
+}
+
 export function getSupportedExtensions(): string[] {
     return SUPPORTED_EXTENSIONS;
 }
@@ -1,4 +1,4 @@
-import { ChatInputCommandInteraction } from "discord.js";
+import { ChatInputCommandInteraction, ButtonInteraction } from "discord.js";
 
 type FeatureName = "WEBSEARCH" | "DEEPSEARCH" | "IMAGEGEN" | "SCRAPE";
 
@@ -7,6 +7,34 @@ interface FeatureCheck {
     reason?: string;
 }
 
+/**
+ * Check if the user is a bot admin: listed in CONTEXT_ADMIN_USERS or holding
+ * the Discord Administrator permission.
+ */
+export function isAdminUser(interaction: ChatInputCommandInteraction | ButtonInteraction): boolean {
+    const userId = interaction.user.id;
+
+    // Check CONTEXT_ADMIN_USERS env var (comma-separated user IDs)
+    const adminUsers = process.env.CONTEXT_ADMIN_USERS?.split(",").map(id => id.trim()) || [];
+    if (adminUsers.includes(userId)) {
+        return true;
+    }
+
+    // Also check Discord admin permissions as fallback
+    const member = interaction.member;
+    if (member && "permissions" in member) {
+        const permissions = member.permissions;
+        const hasAdmin = typeof permissions === "string"
+            ? permissions.includes("Administrator")
+            : permissions.has("Administrator");
+        if (hasAdmin) {
+            return true;
+        }
+    }
+
+    return false;
+}
+
 /**
  * Check if a feature is enabled based on environment variables.
  * Environment variables follow the pattern DISABLE_<FEATURE>=false|true|admin
@@ -15,7 +43,7 @@ interface FeatureCheck {
  * - admin: Feature is only available to admins
  */
 export function canUseFeature(
-    interaction: ChatInputCommandInteraction,
+    interaction: ChatInputCommandInteraction | ButtonInteraction,
     feature: FeatureName
 ): FeatureCheck {
     const envVar = `DISABLE_${feature}`;
@@ -36,33 +64,16 @@ export function canUseFeature(
 
     // Feature is admin-only
     if (value === "admin") {
-        const userId = interaction.user.id;
-
-        // Check CONTEXT_ADMIN_USERS env var (comma-separated user IDs)
-        const adminUsers = process.env.CONTEXT_ADMIN_USERS?.split(",").map(id => id.trim()) || [];
-        if (adminUsers.includes(userId)) {
+        if (isAdminUser(interaction)) {
             return { allowed: true };
         }
 
-        // Also check Discord admin permissions as fallback
-        const member = interaction.member;
-        if (member && "permissions" in member) {
-            const permissions = member.permissions;
-            const hasAdmin = typeof permissions === "string"
-                ? permissions.includes("Administrator")
-                : permissions.has("Administrator");
-            if (hasAdmin) {
-                return { allowed: true };
-            }
-        }
-
         return {
             allowed: false,
             reason: `The ${feature.toLowerCase()} feature is only available to administrators.`,
         };
     }
 
-
     // Unknown value, default to enabled
     return { allowed: true };
 }
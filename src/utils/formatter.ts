@@ -0,0 +1,262 @@
+import { AttachmentBuilder } from "discord.js";
+import { SOURCE_LANGUAGES } from "./archives.ts";
+
+// Code blocks at least this long are also attached as source files (0 = never)
+const CODE_FILE_MIN_CHARS = Number(process.env.CODE_FILE_MIN_CHARS ?? 2000) || 0;
+
+// Discord allows 10 attachments per message
+const MAX_REPLY_FILES = 10;
+
+// Reopened fences and repeated table headers longer than this share of a chunk are dropped
+const MAX_CARRY_SHARE = 0.25;
+
+const FENCE_LINE = /^ {0,3}(`{3,}|~{3,})(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+export interface ChunkSplit {
+    chunk: string; // Text of the finished chunk, with an open code fence closed
+    consumed: number; // Characters of the input used up, including the whitespace split on
+    carry: string; // Start of the next chunk: the reopened fence or repeated table header
+}
+
+export interface CodeBlock {
+    language: string;
+    code: string;
+}
+
+interface Fence {
+    marker: string;
+    info: string;
+}
+
+interface LineInfo {
+    start: number;
+    fence: Fence | null; // Fence still open before this line
+    closesFence: boolean;
+    tableHeader: string | null; // Set when this line continues a table body
+}
+
+function isTableRow(line: string): boolean {
+    return line.trimStart().startsWith("|");
+}
+
+function closesFence(match: RegExpMatchArray, fence: Fence): boolean {
+    const [, marker, rest] = match;
+    return marker[0] === fence.marker[0] && marker.length >= fence.marker.length && !rest.trim();
+}
+
+/**
+ * Walk the lines of a text, tracking which code fence is open before each
+ * line and which table (if any) the line continues.
+ */
+function analyzeLines(text: string): LineInfo[] {
+    const lines = text.split("\n");
+    const infos: LineInfo[] = [];
+
+    let start = 0;
+    let fence: Fence | null = null;
+    let tableStart = -1;
+
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        let tableHeader: string | null = null;
+
+        if (!fence && isTableRow(line)) {
+            if (tableStart === -1) tableStart = i;
+            // Body rows repeat the header row and its separator when split off
+            if (i - tableStart >= 2 && TABLE_SEPARATOR.test(lines[tableStart + 1])) {
+                tableHeader = `${lines[tableStart]}\n${lines[tableStart + 1]}`;
+            }
+        } else {
+            tableStart = -1;
+        }
+
+        const match = line.match(FENCE_LINE);
+        const isClosing = !!(match && fence && closesFence(match, fence));
+        infos.push({ start, fence, closesFence: isClosing, tableHeader });
+
+        if (match && !fence) {
+            fence = { marker: match[1], info: match[2].trim() };
+        } else if (isClosing) {
+            fence = null;
+        }
+
+        start += line.length + 1;
+    }
+
+    return infos;
+}
+
+function closeFence(chunk: string, fence: Fence | null): string {
+    return fence ? `${chunk}\n${fence.marker}` : chunk;
+}
+
+function reopenFence(fence: Fence, maxLength: number): string {
+    const line = `${fence.marker}${fence.info}`;
+    return `${line.length <= maxLength * MAX_CARRY_SHARE ? line : fence.marker}\n`;
+}
+
+/**
+ * Take the first chunk of at most maxLength characters off a markdown text.
+ * Breaks prefer paragraph breaks, then line breaks outside code blocks and
+ * tables, then line breaks inside them, then spaces. A code block that is
+ * split is closed at the end of the chunk and reopened in the carry, and a
+ * split table repeats its header.
+ */
+export function takeChunk(text: string, maxLength: number): ChunkSplit {
+    if (text.length <= maxLength) {
+        return { chunk: text, consumed: text.length, carry: "" };
+    }
+
+    const lines = analyzeLines(text);
+    const minBreak = maxLength / 2;
+
+    // Breaks happen at the newline before a line; tier 0 is best
+    let best: { line: LineInfo; tier: number } | null = null;
+    for (let i = 1; i < lines.length; i++) {
+        const line = lines[i];
+        const breakPoint = line.start - 1;
+        if (breakPoint < minBreak) continue;
+
+        const closing = line.fence ? line.fence.marker.length + 1 : 0;
+        if (breakPoint + closing > maxLength) break;
+
+        // Splitting right before a closing fence would leave an empty block
+        if (line.closesFence) continue;
+
+        const inBlock = line.fence !== null || line.tableHeader !== null;
+        const isParagraph = !inBlock && text[breakPoint - 1] === "\n";
+        const tier = isParagraph ? 0 : inBlock ? 2 : 1;
+
+        if (!best || tier <= best.tier) {
+            best = { line, tier };
+        }
+    }
+
+    if (best) {
+        const { fence, tableHeader } = best.line;
+        const breakPoint = best.line.start - 1;
+
+        if (fence) {
+            // Only the newline goes, so indentation on the next code line survives
+            return {
+                chunk: closeFence(text.substring(0, breakPoint), fence),
+                consumed: breakPoint + 1,
+                carry: reopenFence(fence, maxLength),
+            };
+        }
+
+        // Skip the whitespace we split on so the next chunk starts cleanly
+        let consumed = breakPoint;
+        while (consumed < text.length && /\s/.test(text[consumed])) {
+            consumed++;
+        }
+        const carry = tableHeader && tableHeader.length <= maxLength * MAX_CARRY_SHARE ? `${tableHeader}\n` : "";
+        return { chunk: text.substring(0, breakPoint).trimEnd(), consumed, carry };
+    }
+
+    // No usable line break: split within the line at maxLength, closing any open fence
+    const lineAt = (position: number) => {
+        let index = 0;
+        while (index + 1 < lines.length && lines[index + 1].start <= position) index++;
+        return lines[index];
+    };
+
+    const fence = lineAt(maxLength).fence;
+    const limit = maxLength - (fence ? fence.marker.length + 1 : 0);
+
+    let breakPoint = text.lastIndexOf(" ", limit);
+    if (breakPoint < maxLength * MAX_CARRY_SHARE) {
+        breakPoint = limit;
+    }
+    const consumed = text[breakPoint] === " " ? breakPoint + 1 : breakPoint;
+
+    return {
+        chunk: closeFence(text.substring(0, breakPoint), fence),
+        consumed,
+        carry: fence ? reopenFence(fence, maxLength) : "",
+    };
+}
+
+/**
+ * Close a code fence left open at the end of a text, e.g. while a reply is
+ * still being generated.
+ */
+export function closeOpenFence(text: string): string {
+    const lines = analyzeLines(text + "\n");
+    return closeFence(text, lines[lines.length - 1].fence);
+}
+
+/**
+ * Split a markdown text into chunks of at most maxLength characters without
+ * breaking code blocks or tables.
+ */
+export function splitMarkdown(text: string, maxLength: number): string[] {
+    const chunks: string[] = [];
+    let remaining = text;
+
+    while (remaining.length > 0) {
+        const { chunk, consumed, carry } = takeChunk(remaining, maxLength);
+        chunks.push(chunk);
+        remaining = remaining.length > consumed ? carry + remaining.substring(consumed) : "";
+    }
+
+    return chunks;
+}
+
+/**
+ * Fenced code blocks in a markdown text, in order. Unclosed blocks run to the end.
+ */
+export function findCodeBlocks(text: string): CodeBlock[] {
+    const blocks: CodeBlock[] = [];
+    let open: { fence: Fence; lines: string[] } | null = null;
+
+    const finish = (block: { fence: Fence; lines: string[] }) => {
+        blocks.push({ language: block.fence.info.split(/\s+/)[0].toLowerCase(), code: block.lines.join("\n") });
+    };
+
+    for (const line of text.split("\n")) {
+        const match = line.match(FENCE_LINE);
+        if (!open) {
+            if (match) open = { fence: { marker: match[1], info: match[2].trim() }, lines: [] };
+        } else if (match && closesFence(match, open.fence)) {
+            finish(open);
+            open = null;
+        } else {
+            open.lines.push(line);
+        }
+    }
+
+    if (open) finish(open);
+    return blocks;
+}
+
+function getCodeExtension(language: string): string {
+    const match = Object.entries(SOURCE_LANGUAGES).find(
+        ([extension, fenceLanguage]) => fenceLanguage === language || extension === `.${language}`
+    );
+    return match ? match[0] : ".txt";
+}
+
+/**
+ * Files to attach to the end of a reply: the whole response as markdown when
+ * it didn't fit in the reply messages, and large code blocks as source files.
+ */
+export function buildReplyFiles(content: string, includeFullResponse: boolean): AttachmentBuilder[] {
+    const files: AttachmentBuilder[] = [];
+
+    if (includeFullResponse) {
+        files.push(new AttachmentBuilder(Buffer.from(content, "utf-8"), { name: "response.md" }));
+    }
+
+    if (CODE_FILE_MIN_CHARS > 0) {
+        const blocks = findCodeBlocks(content).filter((block) => block.code.length >= CODE_FILE_MIN_CHARS);
+        for (const [index, block] of blocks.entries()) {
+            if (files.length >= MAX_REPLY_FILES) break;
+            const name = `snippet-${index + 1}${getCodeExtension(block.language)}`;
+            files.push(new AttachmentBuilder(Buffer.from(block.code, "utf-8"), { name }));
+        }
+    }
+
+    return files;
+}
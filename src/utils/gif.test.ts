@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { decodeGIFFirstFrame } from "./gif.ts";
+
+// Clear, index 0, end with 3-bit codes
+const SINGLE_PIXEL = [0x02, 0x02, 0x44, 0x01, 0x00];
+
+function gif(options: {
+    screen?: [number, number];
+    frame?: [number, number, number, number];
+    extensions?: number[];
+    palette?: boolean;
+    data?: number[];
+}): Buffer {
+    const [screenWidth, screenHeight] = options.screen ?? [1, 1];
+    const [left, top, width, height] = options.frame ?? [0, 0, 1, 1];
+    const palette = options.palette ?? true;
+    const descriptor = Buffer.alloc(10);
+    descriptor[0] = 0x2c;
+    descriptor.writeUInt16LE(left, 1);
+    descriptor.writeUInt16LE(top, 3);
+    descriptor.writeUInt16LE(width, 5);
+    descriptor.writeUInt16LE(height, 7);
+
+    const screen = Buffer.alloc(7);
+    screen.writeUInt16LE(screenWidth, 0);
+    screen.writeUInt16LE(screenHeight, 2);
+    screen[4] = palette ? 0x80 : 0;
+
+    return Buffer.concat([
+        Buffer.from("GIF89a", "latin1"),
+        screen,
+        Buffer.from(palette ? [0xff, 0x00, 0x00, 0x00, 0x00, 0xff] : []),
+        Buffer.from(options.extensions ?? []),
+        descriptor,
+        Buffer.from(options.data ?? SINGLE_PIXEL),
+        Buffer.from([0x3b]),
+    ]);
+}
+
+describe("decodeGIFFirstFrame", () => {
+    test("decodes palette colors", () => {
+        const image = decodeGIFFirstFrame(gif({}));
+        expect(image.width).toBe(1);
+        expect([...image.pixels]).toEqual([255, 0, 0, 255]);
+    });
+
+    test("leaves transparent pixels and the area outside the frame clear", () => {
+        const transparent = decodeGIFFirstFrame(gif({ extensions: [0x21, 0xf9, 0x04, 0x01, 0x00, 0x00, 0x00, 0x00] }));
+        expect([...transparent.pixels]).toEqual([0, 0, 0, 0]);
+
+        const offset = decodeGIFFirstFrame(gif({ screen: [2, 1], frame: [1, 0, 1, 1] }));
+        expect([...offset.pixels]).toEqual([0, 0, 0, 0, 255, 0, 0, 255]);
+    });
+
+    test("fills truncated image data with the first color", () => {
+        const image = decodeGIFFirstFrame(gif({ screen: [2, 1], frame: [0, 0, 2, 1], data: [0x02, 0x01, 0x04, 0x00] }));
+        expect([...image.pixels]).toEqual([255, 0, 0, 255, 255, 0, 0, 255]);
+    });
+
+    test("rejects data that isn't a GIF", () => {
+        expect(() => decodeGIFFirstFrame(Buffer.from("PNG data"))).toThrow("Not a valid GIF image.");
+        expect(() => decodeGIFFirstFrame(Buffer.from("GIF89a"))).toThrow("Not a valid GIF image.");
+    });
+
+    test("rejects screens and frames over the pixel limit", () => {
+        expect(() => decodeGIFFirstFrame(gif({ screen: [65535, 65535] }))).toThrow("GIF dimensions are out of range.");
+        expect(() => decodeGIFFirstFrame(gif({ frame: [0, 0, 65535, 65535] }))).toThrow("GIF dimensions are out of range.");
+    });
+
+    test("rejects GIFs without a frame or color table", () => {
+        const truncated = gif({}).subarray(0, 6 + 7 + 6 + 4);
+        expect(() => decodeGIFFirstFrame(truncated)).toThrow("GIF contains no image data.");
+        expect(() => decodeGIFFirstFrame(gif({ palette: false }))).toThrow("GIF has no color table.");
+    });
+
+    test("rejects corrupt LZW data", () => {
+        expect(() => decodeGIFFirstFrame(gif({ data: [0x0c, 0x01, 0x00, 0x00] }))).toThrow("Corrupt GIF: bad LZW code size.");
+        // Clear followed by a code that isn't in the table yet
+        expect(() => decodeGIFFirstFrame(gif({ data: [0x02, 0x01, 0x34, 0x00] }))).toThrow("Corrupt GIF: bad LZW code.");
+    });
+});
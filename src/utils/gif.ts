@@ -0,0 +1,234 @@
+import type { RGBAImage } from "./png.ts";
+
+// Guards against canvases that would take gigabytes to decode
+const MAX_GIF_PIXELS = 40_000_000;
+
+const MAX_LZW_CODES = 4096;
+
+/**
+ * Decode the first frame of a GIF onto its logical screen. Pixels outside the
+ * frame and transparent pixels are left fully transparent.
+ */
+export function decodeGIFFirstFrame(buffer: Buffer): RGBAImage {
+    const signature = buffer.toString("latin1", 0, 6);
+    if (buffer.length < 13 || (signature !== "GIF87a" && signature !== "GIF89a")) {
+        throw new Error("Not a valid GIF image.");
+    }
+
+    const width = buffer.readUInt16LE(6);
+    const height = buffer.readUInt16LE(8);
+    if (width === 0 || height === 0 || width * height > MAX_GIF_PIXELS) {
+        throw new Error("GIF dimensions are out of range.");
+    }
+
+    const screenFlags = buffer[10];
+    let offset = 13;
+
+    let globalPalette: Buffer | null = null;
+    if (screenFlags & 0x80) {
+        const size = 3 * (1 << ((screenFlags & 0x07) + 1));
+        globalPalette = buffer.subarray(offset, offset + size);
+        offset += size;
+    }
+
+    let transparentIndex = -1;
+
+    while (offset < buffer.length) {
+        const introducer = buffer[offset++];
+
+        if (introducer === 0x21) {
+            const label = buffer[offset++];
+            // Graphic control extension: the transparent color of the next frame
+            if (label === 0xf9 && buffer[offset] >= 4) {
+                const flags = buffer[offset + 1];
+                transparentIndex = flags & 0x01 ? buffer[offset + 4] : -1;
+            }
+            offset = skipSubBlocks(buffer, offset);
+            continue;
+        }
+
+        if (introducer === 0x2c && offset + 9 <= buffer.length) {
+            return decodeFrame(buffer, offset, width, height, globalPalette, transparentIndex);
+        }
+
+        // Trailer or garbage before any image data
+        break;
+    }
+
+    throw new Error("GIF contains no image data.");
+}
+
+function skipSubBlocks(buffer: Buffer, offset: number): number {
+    while (offset < buffer.length && buffer[offset] !== 0) {
+        offset += buffer[offset] + 1;
+    }
+    return offset + 1;
+}
+
+function readSubBlocks(buffer: Buffer, offset: number): Buffer {
+    const parts: Buffer[] = [];
+    while (offset < buffer.length && buffer[offset] !== 0) {
+        const size = buffer[offset];
+        parts.push(buffer.subarray(offset + 1, offset + 1 + size));
+        offset += size + 1;
+    }
+    return Buffer.concat(parts);
+}
+
+function decodeFrame(
+    buffer: Buffer,
+    offset: number,
+    screenWidth: number,
+    screenHeight: number,
+    globalPalette: Buffer | null,
+    transparentIndex: number
+): RGBAImage {
+    const left = buffer.readUInt16LE(offset);
+    const top = buffer.readUInt16LE(offset + 2);
+    const frameWidth = buffer.readUInt16LE(offset + 4);
+    const frameHeight = buffer.readUInt16LE(offset + 6);
+    const flags = buffer[offset + 8];
+    offset += 9;
+
+    // The frame is decoded before clipping to the screen, so it needs its own bound
+    if (frameWidth * frameHeight > MAX_GIF_PIXELS) {
+        throw new Error("GIF dimensions are out of range.");
+    }
+
+    let palette = globalPalette;
+    if (flags & 0x80) {
+        const size = 3 * (1 << ((flags & 0x07) + 1));
+        palette = buffer.subarray(offset, offset + size);
+        offset += size;
+    }
+    if (!palette) {
+        throw new Error("GIF has no color table.");
+    }
+
+    const minCodeSize = buffer[offset++];
+    if (minCodeSize < 2 || minCodeSize > 8) {
+        throw new Error("Corrupt GIF: bad LZW code size.");
+    }
+
+    const indices = decodeLZW(readSubBlocks(buffer, offset), minCodeSize, frameWidth * frameHeight);
+    const rows = flags & 0x40 ? interlacedRowOrder(frameHeight) : null;
+
+    const pixels = new Uint8Array(screenWidth * screenHeight * 4);
+    for (let row = 0; row < frameHeight; row++) {
+        const y = top + (rows ? rows[row] : row);
+        if (y >= screenHeight) continue;
+
+        for (let column = 0; column < frameWidth; column++) {
+            const x = left + column;
+            if (x >= screenWidth) continue;
+
+            const index = indices[row * frameWidth + column];
+            if (index === transparentIndex || index * 3 + 2 >= palette.length) continue;
+
+            const target = (y * screenWidth + x) * 4;
+            pixels[target] = palette[index * 3];
+            pixels[target + 1] = palette[index * 3 + 1];
+            pixels[target + 2] = palette[index * 3 + 2];
+            pixels[target + 3] = 255;
+        }
+    }
+
+    return { width: screenWidth, height: screenHeight, pixels };
+}
+
+/**
+ * Map the order rows are stored in an interlaced frame to their y position.
+ */
+function interlacedRowOrder(height: number): number[] {
+    const rows: number[] = [];
+    for (const [start, step] of [[0, 8], [4, 8], [2, 4], [1, 2]]) {
+        for (let y = start; y < height; y += step) rows.push(y);
+    }
+    return rows;
+}
+
+/**
+ * Variable-width LZW decoder as used by GIF. Truncated data leaves the
+ * remaining pixels at index 0 rather than failing the whole image.
+ */
+function decodeLZW(data: Buffer, minCodeSize: number, pixelCount: number): Uint8Array {
+    const clearCode = 1 << minCodeSize;
+    const endCode = clearCode + 1;
+
+    const prefix = new Uint16Array(MAX_LZW_CODES);
+    const suffix = new Uint8Array(MAX_LZW_CODES);
+    const first = new Uint8Array(MAX_LZW_CODES);
+    for (let code = 0; code < clearCode; code++) {
+        suffix[code] = code;
+        first[code] = code;
+    }
+
+    const output = new Uint8Array(pixelCount);
+    const stack = new Uint8Array(MAX_LZW_CODES + 1);
+
+    let codeSize = minCodeSize + 1;
+    let nextCode = endCode + 1;
+    let previous = -1;
+    let bits = 0;
+    let bitCount = 0;
+    let position = 0;
+    let written = 0;
+
+    while (written < pixelCount) {
+        while (bitCount < codeSize && position < data.length) {
+            bits |= data[position++] << bitCount;
+            bitCount += 8;
+        }
+        if (bitCount < codeSize) break;
+
+        const code = bits & ((1 << codeSize) - 1);
+        bits >>>= codeSize;
+        bitCount -= codeSize;
+
+        if (code === clearCode) {
+            codeSize = minCodeSize + 1;
+            nextCode = endCode + 1;
+            previous = -1;
+            continue;
+        }
+        if (code === endCode) break;
+
+        if (previous === -1) {
+            if (code >= clearCode) throw new Error("Corrupt GIF: bad LZW code.");
+            output[written++] = code;
+            previous = code;
+            continue;
+        }
+        if (code > nextCode) {
+            throw new Error("Corrupt GIF: bad LZW code.");
+        }
+
+        // Walk the string back to its root, then emit it in order
+        let top = 0;
+        let current = code;
+        if (code === nextCode) {
+            stack[top++] = first[previous];
+            current = previous;
+        }
+        while (current >= clearCode) {
+            stack[top++] = suffix[current];
+            current = prefix[current];
+        }
+        stack[top++] = current;
+
+        while (top > 0 && written < pixelCount) {
+            output[written++] = stack[--top];
+        }
+
+        if (nextCode < MAX_LZW_CODES) {
+            prefix[nextCode] = previous;
+            suffix[nextCode] = current;
+            first[nextCode] = first[previous];
+            nextCode++;
+            if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+        }
+        previous = code;
+    }
+
+    return output;
+}
@@ -0,0 +1,128 @@
+import type { ChatMessage, TextPart, ImagePart } from "../api/nanogpt.ts";
+
+// Rough heuristics: ~4 characters per token, plus per-message framing overhead
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const IMAGE_TOKEN_ESTIMATE = 1000;
+
+// The context document may use at most this share of the prompt budget so
+// that recent conversation is never crowded out entirely
+const MAX_CONTEXT_SHARE = 0.6;
+
+export interface HistoryEntry {
+    role: string;
+    content: string;
+    images?: string[]; // Image URLs (HTTPS or base64 data URLs) replayed with the turn
+}
+
+export interface HistoryBudgetInput {
+    systemPrompt: string;
+    contextText?: string; // Already formatted context block appended to the system prompt
+    history: HistoryEntry[]; // Oldest first
+    userMessage: ChatMessage;
+    budget: number; // Tokens available for the prompt
+}
+
+export interface AssembledHistory {
+    messages: ChatMessage[];
+    includedTurns: number;
+    totalTurns: number;
+    contextTruncated: boolean;
+    estimatedTokens: number;
+}
+
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function estimateMessageTokens(message: ChatMessage): number {
+    if (typeof message.content === "string") {
+        return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+    }
+
+    let tokens = MESSAGE_OVERHEAD_TOKENS;
+    for (const part of message.content) {
+        tokens += part.type === "text" ? estimateTokens(part.text) : IMAGE_TOKEN_ESTIMATE;
+    }
+    return tokens;
+}
+
+function toChatMessage(entry: HistoryEntry): ChatMessage {
+    const role = entry.role as "user" | "assistant";
+    if (!entry.images?.length) {
+        return { role, content: entry.content };
+    }
+
+    const content: (TextPart | ImagePart)[] = [
+        { type: "text", text: entry.content },
+        ...entry.images.map((url): ImagePart => ({ type: "image_url", image_url: { url } })),
+    ];
+    return { role, content };
+}
+
+/**
+ * Prompt budget for a model: its context window minus room for the response,
+ * optionally capped by a configured budget.
+ */
+export function getPromptBudget(contextLength: number, maxResponseTokens: number, configuredBudget?: number): number {
+    const available = Math.max(0, contextLength - maxResponseTokens);
+    return configuredBudget ? Math.min(available, configuredBudget) : available;
+}
+
+/**
+ * Pack the system prompt, context document and the newest history turns into
+ * the token budget. The system prompt and user message are always included;
+ * the context is truncated if it would take more than its share, and the
+ * oldest history turns are dropped first.
+ */
+export function assembleHistory(input: HistoryBudgetInput): AssembledHistory {
+    const { systemPrompt, history, userMessage, budget } = input;
+
+    let remaining = budget
+        - estimateTokens(systemPrompt) - MESSAGE_OVERHEAD_TOKENS
+        - estimateMessageTokens(userMessage);
+
+    // Fit the context document first, capped to its share of what's left
+    let contextText = input.contextText || "";
+    let contextTruncated = false;
+
+    if (contextText) {
+        const contextCap = Math.max(0, Math.floor(remaining * MAX_CONTEXT_SHARE));
+        if (estimateTokens(contextText) > contextCap) {
+            contextText = contextText.substring(0, contextCap * CHARS_PER_TOKEN)
+                + "\n\n[Context truncated to fit the model's context window]";
+            contextTruncated = true;
+        }
+        remaining -= estimateTokens(contextText);
+    }
+
+    // Walk history newest to oldest until the budget runs out
+    const included: ChatMessage[] = [];
+    for (let i = history.length - 1; i >= 0; i--) {
+        const message = toChatMessage(history[i]);
+        const tokens = estimateMessageTokens(message);
+        if (tokens > remaining) break;
+
+        remaining -= tokens;
+        included.unshift(message);
+    }
+
+    // Don't open the conversation with a dangling assistant reply
+    while (included.length > 0 && included[0].role === "assistant") {
+        remaining += estimateMessageTokens(included.shift()!);
+    }
+
+    const messages: ChatMessage[] = [
+        { role: "system", content: systemPrompt + contextText },
+        ...included,
+        userMessage,
+    ];
+
+    return {
+        messages,
+        includedTurns: included.length,
+        totalTurns: history.length,
+        contextTruncated,
+        estimatedTokens: budget - remaining,
+    };
+}
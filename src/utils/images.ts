@@ -0,0 +1,241 @@
+import { Attachment, ChatInputCommandInteraction } from "discord.js";
+import type { ImagePart } from "../api/nanogpt.ts";
+import { decodeGIFFirstFrame } from "./gif.ts";
+import { encodePNG, downscaleImage } from "./png.ts";
+import { supportsVision } from "./models.ts";
+
+export const VALID_IMAGE_TYPES = ["image/png", "image/jpeg", "image/jpg", "image/webp", "image/gif"];
+
+export const MAX_IMAGES_PER_MESSAGE = 4;
+
+// Attachment options on /chat and /memory chat, in the order images are sent
+export const IMAGE_OPTION_NAMES = ["image", "image2", "image3", "image4"];
+
+// Longest side sent to vision models; larger images are scaled down first
+const MAX_IMAGE_DIMENSION = Number(process.env.MAX_IMAGE_DIMENSION) || 2048;
+
+// Images above this size are scaled down even when their dimensions are within the limit
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024; // 5MB
+
+// Send Discord images to the API by URL instead of downloading and inlining them as base64
+const IMAGE_URL_PASSTHROUGH = process.env.IMAGE_URL_PASSTHROUGH === "true";
+
+// Message links look like https://discord.com/channels/<guild or @me>/<channel>/<message>
+const MESSAGE_LINK = /channels\/(?:\d+|@me)\/(\d+)\/(\d+)/;
+
+/**
+ * Image input problem with a message that is safe to show to users.
+ */
+export class ImageInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ImageInputError";
+    }
+}
+
+export function isValidImage(attachment: Attachment): boolean {
+    return !!attachment.contentType && VALID_IMAGE_TYPES.includes(attachment.contentType);
+}
+
+function toImagePart(url: string): ImagePart {
+    return { type: "image_url", image_url: { url } };
+}
+
+/**
+ * URL of an attachment scaled down by Discord's media proxy when it is larger
+ * than the limits, or null when it can be sent as is.
+ */
+function getResizedUrl(attachment: Attachment): string | null {
+    if (!attachment.width || !attachment.height) return null;
+
+    let scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(attachment.width, attachment.height));
+    if (attachment.size > MAX_IMAGE_BYTES) {
+        scale = Math.min(scale, Math.sqrt(MAX_IMAGE_BYTES / attachment.size));
+    }
+    if (scale >= 1) return null;
+
+    const url = new URL(attachment.proxyURL);
+    url.searchParams.set("width", String(Math.max(1, Math.floor(attachment.width * scale))));
+    url.searchParams.set("height", String(Math.max(1, Math.floor(attachment.height * scale))));
+    return url.toString();
+}
+
+/**
+ * Where an image sent to a model comes from, kept so a prompt can be sent
+ * again without storing the image itself. Inline sources are downloaded and
+ * sent as base64; the others are passed to the API by URL.
+ */
+export interface ImageSource {
+    url: string;
+    inline: boolean;
+}
+
+async function download(url: string): Promise<Response> {
+    const response = await fetch(url);
+    if (!response.ok) {
+        throw new Error(`Failed to download image: ${response.statusText}`);
+    }
+    return response;
+}
+
+/**
+ * Download an image and inline it as a base64 data URL. GIFs are reduced to
+ * their first frame as PNG.
+ */
+async function fetchImagePart(url: string, contentType: string | null): Promise<ImagePart> {
+    const response = await download(url);
+    const type = response.headers.get("content-type")?.split(";")[0] || contentType;
+    const buffer = Buffer.from(await response.arrayBuffer());
+
+    // Animated GIFs aren't accepted by most vision APIs, so only the first frame is sent
+    if (type === "image/gif") {
+        const frame = downscaleImage(decodeGIFFirstFrame(buffer), MAX_IMAGE_DIMENSION);
+        return toImagePart(`data:image/png;base64,${encodePNG(frame).toString("base64")}`);
+    }
+
+    return toImagePart(`data:${type};base64,${buffer.toString("base64")}`);
+}
+
+/**
+ * Source of a Discord image attachment: scaled down by the media proxy when
+ * oversized, and inlined unless IMAGE_URL_PASSTHROUGH is set. GIFs are always
+ * downloaded from the original so their first frame can be extracted.
+ */
+function getImageSource(attachment: Attachment): ImageSource {
+    if (attachment.contentType === "image/gif") {
+        return { url: attachment.url, inline: true };
+    }
+    return { url: getResizedUrl(attachment) ?? attachment.url, inline: !IMAGE_URL_PASSTHROUGH };
+}
+
+/**
+ * Turn an image source into the part sent to the model.
+ */
+export async function loadImageSource(source: ImageSource): Promise<ImagePart> {
+    return source.inline ? fetchImagePart(source.url, null) : toImagePart(source.url);
+}
+
+/**
+ * Prepare a Discord image attachment for a vision model. GIFs are reduced to
+ * their first frame as PNG, oversized images are scaled down, and the result
+ * is inlined as base64 (or passed by URL with IMAGE_URL_PASSTHROUGH).
+ * Returns null for unsupported formats or failed downloads.
+ */
+export async function processImageAttachment(attachment: Attachment): Promise<ImagePart | null> {
+    if (!isValidImage(attachment)) {
+        return null;
+    }
+
+    try {
+        const source = getImageSource(attachment);
+        return source.inline ? await fetchImagePart(source.url, attachment.contentType) : toImagePart(source.url);
+    } catch (error) {
+        console.error("[Images] Error processing image:", error);
+        return null;
+    }
+}
+
+/**
+ * Split an `imageurl` option into HTTPS URLs. Throws ImageInputError for
+ * anything that isn't one.
+ */
+export function parseImageUrls(value: string): string[] {
+    return value
+        .split(/[\s,]+/)
+        .filter(Boolean)
+        .map((entry) => {
+            let url: URL;
+            try {
+                url = new URL(entry);
+            } catch {
+                throw new ImageInputError(`"${entry.substring(0, 100)}" is not a valid image URL.`);
+            }
+            if (url.protocol !== "https:") {
+                throw new ImageInputError("Image URLs must start with https://.");
+            }
+            return url.toString();
+        });
+}
+
+/**
+ * Image attachments of a message in the interaction's channel, given by link or ID.
+ */
+async function getReferencedImages(interaction: ChatInputCommandInteraction, reference: string): Promise<Attachment[]> {
+    const link = reference.match(MESSAGE_LINK);
+    const messageId = link ? link[2] : reference.trim();
+
+    if (link && link[1] !== interaction.channelId) {
+        throw new ImageInputError("Images can only be taken from a message in this channel.");
+    }
+    if (!/^\d{17,20}$/.test(messageId)) {
+        throw new ImageInputError("`imagesfrom` must be a message link or ID.");
+    }
+
+    const message = await interaction.channel?.messages.fetch(messageId).catch(() => null);
+    if (!message) {
+        throw new ImageInputError("Couldn't find that message in this channel.");
+    }
+
+    const images = [...message.attachments.filter(isValidImage).values()];
+    if (images.length === 0) {
+        throw new ImageInputError(`That message has no images. Supported formats: ${VALID_IMAGE_TYPES.join(", ")}`);
+    }
+    return images;
+}
+
+export interface CollectedImages {
+    parts: ImagePart[]; // Sent to the model
+    sources: ImageSource[]; // Where each part came from, in the same order
+}
+
+/**
+ * Gather the images for a /chat or /memory chat message: the image attachment
+ * options, images from the message named by `imagesfrom`, and HTTPS URLs from
+ * `imageurl`, which are passed through without downloading. Checks the count
+ * and that the model accepts images before anything is downloaded. Throws
+ * ImageInputError with a message for the user.
+ */
+export async function collectImageInputs(interaction: ChatInputCommandInteraction, model: string): Promise<CollectedImages> {
+    const attachments = IMAGE_OPTION_NAMES
+        .map((name) => interaction.options.getAttachment(name))
+        .filter((attachment): attachment is Attachment => attachment !== null);
+    const reference = interaction.options.getString("imagesfrom");
+    const urlOption = interaction.options.getString("imageurl");
+
+    if (reference) {
+        attachments.push(...(await getReferencedImages(interaction, reference)));
+    }
+    const urls = urlOption ? parseImageUrls(urlOption) : [];
+
+    const total = attachments.length + urls.length;
+    if (total === 0) return { parts: [], sources: [] };
+
+    if (total > MAX_IMAGES_PER_MESSAGE) {
+        throw new ImageInputError(`Too many images (${total}). You can send up to ${MAX_IMAGES_PER_MESSAGE} per message.`);
+    }
+
+    if ((await supportsVision(model)) === false) {
+        throw new ImageInputError(`**${model}** doesn't accept images. Pick a vision model with the \`model\` option (see /models).`);
+    }
+
+    const parts: ImagePart[] = [];
+    for (const attachment of attachments) {
+        const part = await processImageAttachment(attachment);
+        if (!part) {
+            throw new ImageInputError(`Couldn't read image "${attachment.name}". Supported formats: ${VALID_IMAGE_TYPES.join(", ")}`);
+        }
+        parts.push(part);
+    }
+
+    return {
+        parts: [...parts, ...urls.map(toImagePart)],
+        sources: [...attachments.map(getImageSource), ...urls.map((url) => ({ url, inline: false }))],
+    };
+}
+
+/**
+ * Footer label for the images sent with a message.
+ */
+export function formatImageCount(count: number): string {
+    return count === 1 ? "Image" : `Images: ${count}`;
+}
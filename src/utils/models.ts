@@ -0,0 +1,48 @@
+import { nanogpt, type Model } from "../api/nanogpt.ts";
+
+// Cache for model metadata (refresh every 5 minutes)
+let cachedModels: Model[] = [];
+let cacheTimestamp = 0;
+const CACHE_TTL = 5 * 60 * 1000;
+
+// Used when the API doesn't report a context length for a model
+const DEFAULT_CONTEXT_LENGTH = Number(process.env.DEFAULT_CONTEXT_LENGTH) || 32768;
+
+export async function getModelsCached(): Promise<Model[]> {
+    const now = Date.now();
+    if (cachedModels.length === 0 || now - cacheTimestamp > CACHE_TTL) {
+        try {
+            const models = await nanogpt.getModels();
+            if (models && models.length > 0) {
+                cachedModels = models;
+                cacheTimestamp = now;
+            }
+        } catch (error) {
+            // Keep serving the stale cache if the API fails
+            console.error("[Models] Error fetching models:", error);
+        }
+    }
+    return cachedModels;
+}
+
+export async function getModelInfo(modelId: string): Promise<Model | undefined> {
+    const models = await getModelsCached();
+    const lower = modelId.toLowerCase();
+    return models.find((m) => (m.id || m.name || "").toLowerCase() === lower);
+}
+
+/**
+ * Context window of a model in tokens, falling back to DEFAULT_CONTEXT_LENGTH.
+ */
+export async function getContextLength(modelId: string): Promise<number> {
+    const model = await getModelInfo(modelId);
+    return model?.context_length || DEFAULT_CONTEXT_LENGTH;
+}
+
+/**
+ * Whether a model accepts image input, or null when the API doesn't say.
+ */
+export async function supportsVision(modelId: string): Promise<boolean | null> {
+    const model = await getModelInfo(modelId);
+    return model?.capabilities?.vision ?? null;
+}
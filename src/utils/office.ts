@@ -0,0 +1,531 @@
+import { ZipArchive, resolveEntryPath } from "./zip.ts";
+import { parseXml, localName, childElements, findAll, findFirst, textContent, type XmlElement } from "./xml.ts";
+import { toMarkdownTable, readRelationships } from "./spreadsheets.ts";
+
+const LIST_ITEM = /^\s*(?:- |\d+\. )/;
+
+// List levels deeper than this are indented as the deepest level
+const MAX_LIST_DEPTH = 9;
+
+/**
+ * Read a count or level attribute, clamped to [min, max] so crafted documents
+ * can't demand huge strings or negative repeats. Missing or invalid values
+ * give min.
+ */
+function readCount(value: string | undefined, min: number, max: number): number {
+    const count = parseInt(value ?? "", 10);
+    return Number.isNaN(count) ? min : Math.min(Math.max(count, min), max);
+}
+
+/**
+ * Join rendered blocks with blank lines, keeping consecutive list items together.
+ */
+function joinBlocks(blocks: string[]): string {
+    let result = "";
+    for (const block of blocks) {
+        if (!block.trim()) continue;
+        if (result) {
+            const previous = result.substring(result.lastIndexOf("\n") + 1);
+            result += LIST_ITEM.test(previous) && LIST_ITEM.test(block) ? "\n" : "\n\n";
+        }
+        result += block;
+    }
+    return result;
+}
+
+function heading(level: number, text: string): string {
+    return `${"#".repeat(Math.min(Math.max(level, 1), 6))} ${text.trim()}`;
+}
+
+function collapseWhitespace(text: string): string {
+    return text
+        .split("\n")
+        .map((line) => line.replace(/[ \t\r ]+/g, " ").trim())
+        .join("\n")
+        .trim();
+}
+
+function requirePart(zip: ZipArchive, path: string, format: string): XmlElement {
+    const xml = zip.readText(path);
+    if (!xml) {
+        throw new Error(`Not a valid ${format} file (missing ${path}).`);
+    }
+    return parseXml(xml);
+}
+
+// ---------------------------------------------------------------------------
+// DOCX
+// ---------------------------------------------------------------------------
+
+// Run properties, deleted revisions and field instructions hold no visible text
+const DOCX_SKIPPED = new Set(["w:pPr", "w:rPr", "w:del", "w:delText", "w:instrText", "mc:Fallback"]);
+
+/**
+ * Map paragraph style ids to heading levels, following "based on" chains so
+ * custom styles derived from a heading style count as headings too.
+ */
+function readDocxHeadingStyles(zip: ZipArchive): Map<string, number> {
+    const levels = new Map<string, number>();
+    const xml = zip.readText("word/styles.xml");
+    if (!xml) return levels;
+
+    const styles = new Map<string, { level: number | null; basedOn?: string }>();
+    for (const style of findAll(parseXml(xml), "w:style")) {
+        if (style.attributes["w:type"] !== "paragraph") continue;
+
+        const name = findFirst(style, "w:name")?.attributes["w:val"] ?? "";
+        const outline = findFirst(style, "w:outlineLvl")?.attributes["w:val"];
+        const headingMatch = name.match(/^heading\s*([1-9])$/i);
+
+        let level: number | null = null;
+        if (headingMatch) level = parseInt(headingMatch[1], 10);
+        else if (/^title$/i.test(name)) level = 1;
+        else if (outline !== undefined && parseInt(outline, 10) < 9) level = parseInt(outline, 10) + 1;
+
+        styles.set(style.attributes["w:styleId"], {
+            level,
+            basedOn: findFirst(style, "w:basedOn")?.attributes["w:val"],
+        });
+    }
+
+    for (const id of styles.keys()) {
+        let current = styles.get(id);
+        for (let depth = 0; current && depth < 10; depth++) {
+            if (current.level !== null) {
+                levels.set(id, current.level);
+                break;
+            }
+            current = current.basedOn ? styles.get(current.basedOn) : undefined;
+        }
+    }
+
+    return levels;
+}
+
+function docxText(element: XmlElement): string {
+    let text = "";
+    for (const child of element.children) {
+        // Whitespace between WordprocessingML tags is formatting, not content
+        if (typeof child === "string" || DOCX_SKIPPED.has(child.name)) continue;
+
+        switch (child.name) {
+            case "w:t":
+                text += textContent(child);
+                break;
+            case "w:tab":
+                text += "\t";
+                break;
+            case "w:br":
+            case "w:cr":
+                text += "\n";
+                break;
+            case "w:noBreakHyphen":
+                text += "-";
+                break;
+            default:
+                text += docxText(child);
+        }
+    }
+    return text;
+}
+
+function renderDocxParagraph(paragraph: XmlElement, headingStyles: Map<string, number>): string {
+    const text = collapseWhitespace(docxText(paragraph));
+    if (!text) return "";
+
+    const properties = childElements(paragraph, "w:pPr")[0];
+    if (!properties) return text;
+
+    const styleId = findFirst(properties, "w:pStyle")?.attributes["w:val"];
+    const outline = childElements(properties, "w:outlineLvl")[0]?.attributes["w:val"];
+    const level = outline !== undefined && parseInt(outline, 10) < 9
+        ? parseInt(outline, 10) + 1
+        : styleId ? headingStyles.get(styleId) : undefined;
+
+    if (level) return heading(level, text.replace(/\n/g, " "));
+
+    const numbering = childElements(properties, "w:numPr")[0];
+    if (numbering) {
+        const depth = readCount(findFirst(numbering, "w:ilvl")?.attributes["w:val"], 0, MAX_LIST_DEPTH);
+        return `${"  ".repeat(depth)}- ${text.replace(/\n/g, " ")}`;
+    }
+
+    return text;
+}
+
+function renderDocxTable(table: XmlElement): string {
+    const rows = childElements(table, "w:tr").map((row) =>
+        findAll(row, "w:tc").map((cell) =>
+            findAll(cell, "w:p").map((paragraph) => collapseWhitespace(docxText(paragraph))).join(" ")
+        )
+    );
+    return toMarkdownTable(rows);
+}
+
+function renderDocxBody(element: XmlElement, headingStyles: Map<string, number>, blocks: string[]): void {
+    for (const child of childElements(element)) {
+        if (child.name === "w:p") {
+            blocks.push(renderDocxParagraph(child, headingStyles));
+        } else if (child.name === "w:tbl") {
+            blocks.push(renderDocxTable(child));
+        } else if (child.name !== "w:sectPr") {
+            // Content controls and custom XML wrap ordinary paragraphs
+            renderDocxBody(child, headingStyles, blocks);
+        }
+    }
+}
+
+/**
+ * Convert a Word document to markdown. Heading styles become `#` headings,
+ * numbered and bulleted paragraphs become list items and tables are kept.
+ */
+export function parseDOCX(buffer: Buffer): string {
+    const zip = new ZipArchive(buffer);
+    const document = requirePart(zip, "word/document.xml", "DOCX");
+    const body = findFirst(document, "w:body");
+    if (!body) return "";
+
+    const blocks: string[] = [];
+    renderDocxBody(body, readDocxHeadingStyles(zip), blocks);
+    return joinBlocks(blocks);
+}
+
+// ---------------------------------------------------------------------------
+// PPTX
+// ---------------------------------------------------------------------------
+
+function drawingText(element: XmlElement): string {
+    let text = "";
+    for (const child of element.children) {
+        if (typeof child === "string" || child.name === "a:pPr" || child.name === "a:rPr") continue;
+        if (child.name === "a:t") text += textContent(child);
+        else if (child.name === "a:br") text += "\n";
+        else text += drawingText(child);
+    }
+    return text;
+}
+
+function renderSlide(slide: XmlElement, number: number): string {
+    let title = "";
+    const body: string[] = [];
+
+    for (const shape of findAll(slide, "p:sp")) {
+        const placeholder = findFirst(shape, "p:ph");
+        const isTitle = placeholder && ["title", "ctrTitle"].includes(placeholder.attributes.type);
+        const textBody = findFirst(shape, "p:txBody");
+        if (!textBody) continue;
+
+        const paragraphs = childElements(textBody, "a:p")
+            .map((paragraph) => ({
+                text: collapseWhitespace(drawingText(paragraph)),
+                depth: readCount(findFirst(paragraph, "a:pPr")?.attributes.lvl, 0, MAX_LIST_DEPTH),
+            }))
+            .filter((paragraph) => paragraph.text);
+
+        if (isTitle && !title) {
+            title = paragraphs.map((paragraph) => paragraph.text).join(" ").replace(/\n/g, " ");
+        } else {
+            body.push(...paragraphs.map((paragraph) =>
+                `${"  ".repeat(paragraph.depth)}- ${paragraph.text.replace(/\n/g, " ")}`
+            ));
+        }
+    }
+
+    for (const table of findAll(slide, "a:tbl")) {
+        body.push(toMarkdownTable(childElements(table, "a:tr").map((row) =>
+            childElements(row, "a:tc").map((cell) => collapseWhitespace(drawingText(cell)))
+        )));
+    }
+
+    return joinBlocks([heading(2, title ? `Slide ${number}: ${title}` : `Slide ${number}`), ...body]);
+}
+
+/**
+ * Convert a PowerPoint deck to markdown with one "## Slide N" section per
+ * slide, in presentation order.
+ */
+export function parsePPTX(buffer: Buffer): string {
+    const zip = new ZipArchive(buffer);
+    const presentation = requirePart(zip, "ppt/presentation.xml", "PPTX");
+    const targets = readRelationships(zip, "ppt/_rels/presentation.xml.rels");
+
+    let slidePaths = findAll(presentation, "p:sldId")
+        .map((slide) => targets.get(slide.attributes["r:id"]))
+        .filter((target): target is string => !!target)
+        .map((target) => resolveEntryPath("ppt/presentation.xml", target));
+
+    // Fall back to file order when the relationships are missing
+    if (slidePaths.length === 0) {
+        slidePaths = zip.entries
+            .map((entry) => entry.name)
+            .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+            .sort((a, b) => parseInt(a.match(/\d+/)![0], 10) - parseInt(b.match(/\d+/)![0], 10));
+    }
+
+    const slides = slidePaths
+        .map((path) => zip.readText(path))
+        .filter((xml): xml is string => xml !== null)
+        .map((xml, index) => renderSlide(parseXml(xml), index + 1));
+
+    return slides.join("\n\n");
+}
+
+// ---------------------------------------------------------------------------
+// ODT
+// ---------------------------------------------------------------------------
+
+// Tracked deletions, annotations and footnote bodies would interrupt the main text
+const ODT_SKIPPED = new Set([
+    "text:tracked-changes", "office:annotation", "text:note", "text:sequence-decls", "office:forms",
+]);
+
+// Cells repeated across the rest of a row are only formatting
+const MAX_REPEATED_CELLS = 30;
+
+// Runs of spaces longer than this are layout, not content
+const MAX_REPEATED_SPACES = 100;
+
+function odtText(element: XmlElement): string {
+    let text = "";
+    for (const child of element.children) {
+        if (typeof child === "string") {
+            text += child.replace(/[ \t\r\n]+/g, " ");
+            continue;
+        }
+        if (ODT_SKIPPED.has(child.name)) continue;
+
+        switch (child.name) {
+            case "text:s":
+                text += " ".repeat(readCount(child.attributes["text:c"], 1, MAX_REPEATED_SPACES));
+                break;
+            case "text:tab":
+                text += "\t";
+                break;
+            case "text:line-break":
+                text += "\n";
+                break;
+            default:
+                text += odtText(child);
+        }
+    }
+    return text;
+}
+
+function renderOdtList(list: XmlElement, depth: number, blocks: string[]): void {
+    for (const item of childElements(list)) {
+        for (const child of childElements(item)) {
+            if (child.name === "text:list") {
+                renderOdtList(child, depth + 1, blocks);
+            } else if (child.name === "text:p" || child.name === "text:h") {
+                const text = collapseWhitespace(odtText(child)).replace(/\n/g, " ");
+                if (text) blocks.push(`${"  ".repeat(depth)}- ${text}`);
+            }
+        }
+    }
+}
+
+function renderOdtTable(table: XmlElement): string {
+    const rows = findAll(table, "table:table-row").map((row) => {
+        const cells: string[] = [];
+        for (const cell of childElements(row)) {
+            if (cell.name !== "table:table-cell" && cell.name !== "table:covered-table-cell") continue;
+
+            const text = childElements(cell)
+                .map((paragraph) => collapseWhitespace(odtText(paragraph)))
+                .filter(Boolean)
+                .join(" ");
+            const repeat = readCount(cell.attributes["table:number-columns-repeated"], 1, MAX_REPEATED_CELLS);
+            cells.push(...Array(repeat).fill(text));
+        }
+        return cells;
+    });
+    return toMarkdownTable(rows);
+}
+
+function renderOdtBody(element: XmlElement, blocks: string[]): void {
+    for (const child of childElements(element)) {
+        if (ODT_SKIPPED.has(child.name)) continue;
+
+        switch (child.name) {
+            case "text:h": {
+                const level = parseInt(child.attributes["text:outline-level"] ?? "1", 10) || 1;
+                const text = collapseWhitespace(odtText(child));
+                if (text) blocks.push(heading(level, text.replace(/\n/g, " ")));
+                break;
+            }
+            case "text:p":
+                blocks.push(collapseWhitespace(odtText(child)));
+                break;
+            case "text:list":
+                renderOdtList(child, 0, blocks);
+                break;
+            case "table:table":
+                blocks.push(renderOdtTable(child));
+                break;
+            default:
+                // Sections, frames and indexes wrap ordinary paragraphs
+                renderOdtBody(child, blocks);
+        }
+    }
+}
+
+/**
+ * Convert an OpenDocument text file to markdown, keeping outline headings,
+ * lists and tables.
+ */
+export function parseODT(buffer: Buffer): string {
+    const zip = new ZipArchive(buffer);
+    const content = requirePart(zip, "content.xml", "ODT");
+    const text = findFirst(content, "office:text");
+    if (!text) return "";
+
+    const blocks: string[] = [];
+    renderOdtBody(text, blocks);
+    return joinBlocks(blocks);
+}
+
+// ---------------------------------------------------------------------------
+// EPUB
+// ---------------------------------------------------------------------------
+
+const HTML_SKIPPED = new Set(["head", "script", "style", "title", "svg", "math"]);
+const HTML_BLOCKS = new Set([
+    "p", "div", "section", "article", "main", "header", "footer", "aside", "nav",
+    "figure", "figcaption", "body", "html", "dl", "dt", "dd", "address", "center",
+]);
+
+function htmlInlineText(element: XmlElement): string {
+    let text = "";
+    for (const child of element.children) {
+        if (typeof child === "string") {
+            text += child.replace(/\s+/g, " ");
+            continue;
+        }
+
+        const name = localName(child).toLowerCase();
+        if (HTML_SKIPPED.has(name)) continue;
+        if (name === "br") text += "\n";
+        else if (HTML_BLOCKS.has(name)) text += ` ${htmlInlineText(child)} `;
+        else text += htmlInlineText(child);
+    }
+    return text;
+}
+
+function renderHtmlList(list: XmlElement, depth: number, blocks: string[]): void {
+    const ordered = localName(list).toLowerCase() === "ol";
+    let number = 1;
+
+    for (const item of childElements(list)) {
+        if (localName(item).toLowerCase() !== "li") continue;
+
+        const nested = childElements(item).filter((child) => ["ul", "ol"].includes(localName(child).toLowerCase()));
+        const text = collapseWhitespace(htmlInlineText({
+            ...item,
+            children: item.children.filter((child) => typeof child === "string" || !nested.includes(child)),
+        })).replace(/\n/g, " ");
+
+        if (text) blocks.push(`${"  ".repeat(depth)}${ordered ? `${number++}.` : "-"} ${text}`);
+        for (const child of nested) renderHtmlList(child, depth + 1, blocks);
+    }
+}
+
+function renderHtmlTable(table: XmlElement): string {
+    const rows = findAll(table, table.name.replace(/table$/, "tr")).map((row) =>
+        childElements(row)
+            .filter((cell) => ["td", "th"].includes(localName(cell).toLowerCase()))
+            .map((cell) => collapseWhitespace(htmlInlineText(cell)))
+    );
+    return toMarkdownTable(rows);
+}
+
+function renderHtml(element: XmlElement, blocks: string[]): void {
+    let inline = "";
+    const flush = () => {
+        const text = collapseWhitespace(inline);
+        if (text) blocks.push(text);
+        inline = "";
+    };
+
+    for (const child of element.children) {
+        if (typeof child === "string") {
+            inline += child.replace(/\s+/g, " ");
+            continue;
+        }
+
+        const name = localName(child).toLowerCase();
+        if (HTML_SKIPPED.has(name)) continue;
+
+        const headingMatch = name.match(/^h([1-6])$/);
+        if (headingMatch) {
+            flush();
+            const text = collapseWhitespace(htmlInlineText(child)).replace(/\n/g, " ");
+            if (text) blocks.push(heading(parseInt(headingMatch[1], 10), text));
+        } else if (name === "ul" || name === "ol") {
+            flush();
+            renderHtmlList(child, 0, blocks);
+        } else if (name === "table") {
+            flush();
+            blocks.push(renderHtmlTable(child));
+        } else if (name === "pre") {
+            flush();
+            blocks.push("```\n" + textContent(child).replace(/^\n|\n$/g, "") + "\n```");
+        } else if (name === "blockquote") {
+            flush();
+            const quoted: string[] = [];
+            renderHtml(child, quoted);
+            blocks.push(joinBlocks(quoted).split("\n").map((line) => `> ${line}`.trimEnd()).join("\n"));
+        } else if (name === "hr") {
+            flush();
+            blocks.push("---");
+        } else if (name === "br") {
+            inline += "\n";
+        } else if (HTML_BLOCKS.has(name)) {
+            flush();
+            renderHtml(child, blocks);
+        } else {
+            inline += htmlInlineText(child);
+        }
+    }
+
+    flush();
+}
+
+/**
+ * Convert an EPUB book to markdown by rendering its spine documents in
+ * reading order. The book title, when present, becomes the top heading.
+ */
+export function parseEPUB(buffer: Buffer): string {
+    const zip = new ZipArchive(buffer);
+    const container = requirePart(zip, "META-INF/container.xml", "EPUB");
+    const packagePath = findFirst(container, "rootfile")?.attributes["full-path"];
+    if (!packagePath) {
+        throw new Error("Not a valid EPUB file (no package document).");
+    }
+
+    const opf = requirePart(zip, packagePath, "EPUB");
+    const manifest = new Map<string, string>();
+    for (const item of findAll(opf, findFirst(opf, "opf:manifest") ? "opf:item" : "item")) {
+        manifest.set(item.attributes.id, item.attributes.href);
+    }
+
+    const blocks: string[] = [];
+    const title = findFirst(opf, "dc:title");
+    if (title && textContent(title).trim()) {
+        blocks.push(heading(1, collapseWhitespace(textContent(title))));
+    }
+
+    const spine = findAll(opf, findFirst(opf, "opf:spine") ? "opf:itemref" : "itemref");
+    for (const itemref of spine) {
+        const href = manifest.get(itemref.attributes.idref);
+        if (!href) continue;
+
+        const xml = zip.readText(resolveEntryPath(packagePath, href));
+        if (!xml) continue;
+
+        const document = parseXml(xml);
+        const body = findAll(document, "body")[0] ?? findAll(document, "html:body")[0] ?? document;
+        renderHtml(body, blocks);
+    }
+
+    return joinBlocks(blocks);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, test } from "bun:test";
+import { inflateSync } from "zlib";
+import { encodePNG, downscaleImage } from "./png.ts";
+
+function readChunks(png: Buffer): { type: string; data: Buffer }[] {
+    const chunks: { type: string; data: Buffer }[] = [];
+    for (let offset = 8; offset < png.length;) {
+        const length = png.readUInt32BE(offset);
+        const body = png.subarray(offset + 4, offset + 8 + length);
+        expect(png.readUInt32BE(offset + 8 + length)).toBe(Bun.hash.crc32(body));
+        chunks.push({ type: body.toString("latin1", 0, 4), data: body.subarray(4) });
+        offset += 12 + length;
+    }
+    return chunks;
+}
+
+describe("encodePNG", () => {
+    test("writes an RGBA image with valid chunks", () => {
+        const pixels = new Uint8Array([255, 0, 0, 255, 0, 255, 0, 128, 0, 0, 255, 0, 1, 2, 3, 4]);
+        const png = encodePNG({ width: 2, height: 2, pixels });
+
+        expect([...png.subarray(0, 8)]).toEqual([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+        const chunks = readChunks(png);
+        expect(chunks.map((chunk) => chunk.type)).toEqual(["IHDR", "IDAT", "IEND"]);
+
+        const header = chunks[0].data;
+        expect([header.readUInt32BE(0), header.readUInt32BE(4), header[8], header[9]]).toEqual([2, 2, 8, 6]);
+
+        const raw = inflateSync(chunks[1].data);
+        expect([...raw]).toEqual([0, ...pixels.subarray(0, 8), 0, ...pixels.subarray(8)]);
+    });
+});
+
+describe("downscaleImage", () => {
+    test("returns images within the limit unchanged", () => {
+        const image = { width: 4, height: 2, pixels: new Uint8Array(32) };
+        expect(downscaleImage(image, 4)).toBe(image);
+    });
+
+    test("averages source pixels into each target pixel", () => {
+        const pixels = new Uint8Array([0, 0, 0, 255, 100, 100, 100, 255, 200, 200, 200, 255, 100, 100, 100, 255]);
+        const result = downscaleImage({ width: 2, height: 2, pixels }, 1);
+
+        expect([result.width, result.height]).toEqual([1, 1]);
+        expect([...result.pixels]).toEqual([100, 100, 100, 255]);
+    });
+
+    test("keeps the aspect ratio and at least one pixel per side", () => {
+        const result = downscaleImage({ width: 1000, height: 10, pixels: new Uint8Array(1000 * 10 * 4) }, 100);
+        expect([result.width, result.height]).toEqual([100, 1]);
+        expect(result.pixels.length).toBe(400);
+    });
+});
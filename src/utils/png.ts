@@ -0,0 +1,109 @@
+import { deflateSync } from "zlib";
+
+export interface RGBAImage {
+    width: number;
+    height: number;
+    pixels: Uint8Array; // 4 bytes per pixel, row by row
+}
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Buffer): number {
+    let crc = 0xffffffff;
+    for (const byte of data) {
+        crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(data.length);
+
+    const body = Buffer.concat([Buffer.from(type, "latin1"), data]);
+    const crc = Buffer.alloc(4);
+    crc.writeUInt32BE(crc32(body));
+
+    return Buffer.concat([length, body, crc]);
+}
+
+/**
+ * Encode an RGBA bitmap as a truecolor-with-alpha PNG. Rows are stored
+ * unfiltered; deflate does the compression.
+ */
+export function encodePNG(image: RGBAImage): Buffer {
+    const { width, height, pixels } = image;
+    const rowSize = width * 4;
+
+    const raw = Buffer.alloc((rowSize + 1) * height);
+    for (let y = 0; y < height; y++) {
+        // Each row starts with its filter type, 0 (none)
+        raw.set(pixels.subarray(y * rowSize, (y + 1) * rowSize), y * (rowSize + 1) + 1);
+    }
+
+    const header = Buffer.alloc(13);
+    header.writeUInt32BE(width, 0);
+    header.writeUInt32BE(height, 4);
+    header[8] = 8; // Bit depth
+    header[9] = 6; // Color type: RGBA
+
+    return Buffer.concat([
+        SIGNATURE,
+        chunk("IHDR", header),
+        chunk("IDAT", deflateSync(raw)),
+        chunk("IEND", Buffer.alloc(0)),
+    ]);
+}
+
+/**
+ * Shrink a bitmap so its longest side is at most maxDimension, averaging the
+ * source pixels that fall into each target pixel.
+ */
+export function downscaleImage(image: RGBAImage, maxDimension: number): RGBAImage {
+    const scale = maxDimension / Math.max(image.width, image.height);
+    if (scale >= 1) return image;
+
+    const width = Math.max(1, Math.round(image.width * scale));
+    const height = Math.max(1, Math.round(image.height * scale));
+    const pixels = new Uint8Array(width * height * 4);
+
+    for (let y = 0; y < height; y++) {
+        const top = Math.floor((y * image.height) / height);
+        const bottom = Math.max(top + 1, Math.floor(((y + 1) * image.height) / height));
+
+        for (let x = 0; x < width; x++) {
+            const left = Math.floor((x * image.width) / width);
+            const right = Math.max(left + 1, Math.floor(((x + 1) * image.width) / width));
+
+            const sums = [0, 0, 0, 0];
+            for (let sy = top; sy < bottom; sy++) {
+                for (let sx = left; sx < right; sx++) {
+                    const offset = (sy * image.width + sx) * 4;
+                    for (let channel = 0; channel < 4; channel++) {
+                        sums[channel] += image.pixels[offset + channel];
+                    }
+                }
+            }
+
+            const count = (bottom - top) * (right - left);
+            const target = (y * width + x) * 4;
+            for (let channel = 0; channel < 4; channel++) {
+                pixels[target + channel] = Math.round(sums[channel] / count);
+            }
+        }
+    }
+
+    return { width, height, pixels };
+}
@@ -0,0 +1,297 @@
+import { nanogpt } from "../api/nanogpt.ts";
+import {
+    saveContextChunks,
+    countContextChunks,
+    getFirstContextChunks,
+    searchContextChunks,
+    getUnembeddedChunks,
+    saveChunkEmbeddings,
+    getChunkEmbeddings,
+} from "../db/index.ts";
+import { findPageMarkers } from "./documents.ts";
+
+// Chunks are packed from paragraphs up to this size
+const CHUNK_SIZE = 1500;
+
+// Number of passages injected per message
+const TOP_K = Number(process.env.CONTEXT_TOP_K) || 5;
+
+// Documents up to this size are small enough to send whole
+const FULL_TEXT_MAX_CHARS = Number(process.env.CONTEXT_FULL_TEXT_CHARS) || 6000;
+
+// Model used for semantic search; "none" limits retrieval to keyword search
+const EMBEDDING_MODEL = process.env.EMBEDDING_MODEL || "text-embedding-3-small";
+const EMBEDDINGS_ENABLED = EMBEDDING_MODEL !== "none";
+
+// Chunks embedded per API request
+const EMBEDDING_BATCH_SIZE = 64;
+
+// Common words that only add noise to a full-text query
+const STOPWORDS = new Set([
+    "a", "an", "and", "are", "as", "at", "be", "but", "by", "can", "do", "does", "for", "from",
+    "how", "i", "if", "in", "is", "it", "me", "my", "of", "on", "or", "so", "that", "the",
+    "this", "to", "was", "what", "when", "where", "which", "who", "why", "with", "you", "your",
+]);
+
+export interface ContextDocument {
+    id: number;
+    name: string;
+    content: string;
+    source_filename: string;
+}
+
+export interface RetrievedPassage {
+    chunkIndex: number;
+    content: string;
+    score?: number; // Cosine similarity, for semantic matches
+}
+
+export interface ContextSearchResult {
+    passages: RetrievedPassage[]; // Most relevant first
+    method: "semantic" | "keyword";
+}
+
+export interface PageRange {
+    first: number;
+    last: number;
+}
+
+export interface ContextPrompt {
+    text: string; // Block to append to the system prompt
+    citations: string | null; // e.g. "manual #2 (p. 4), #5 (pp. 9-10)", or null when the whole document was sent
+}
+
+/**
+ * Split a document into chunks of roughly CHUNK_SIZE characters, keeping
+ * paragraphs together where possible and breaking long ones on whitespace.
+ */
+export function chunkDocument(content: string): string[] {
+    const paragraphs = content
+        .split(/\n\s*\n/)
+        .map((paragraph) => paragraph.trim())
+        .filter(Boolean);
+
+    const chunks: string[] = [];
+    let current = "";
+
+    const flush = () => {
+        if (current) chunks.push(current);
+        current = "";
+    };
+
+    for (let paragraph of paragraphs) {
+        // Break oversized paragraphs into pieces on their own
+        while (paragraph.length > CHUNK_SIZE) {
+            flush();
+            let breakPoint = paragraph.lastIndexOf(" ", CHUNK_SIZE);
+            if (breakPoint < CHUNK_SIZE / 2) breakPoint = CHUNK_SIZE;
+            chunks.push(paragraph.substring(0, breakPoint).trim());
+            paragraph = paragraph.substring(breakPoint).trim();
+        }
+
+        if (current && current.length + paragraph.length + 2 > CHUNK_SIZE) {
+            flush();
+        }
+        current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+    flush();
+
+    return chunks;
+}
+
+/**
+ * Pages covered by each chunk of a paginated document (PDFs keep `[page N]`
+ * markers), keyed by chunk index. Chunks that start mid-page continue the
+ * previous chunk's last page. Empty for documents without page markers.
+ */
+export function getChunkPages(content: string): Map<number, PageRange> {
+    const pages = new Map<number, PageRange>();
+    let currentPage: number | null = null;
+
+    chunkDocument(content).forEach((chunk, index) => {
+        const markers = findPageMarkers(chunk);
+        const first = markers[0]?.index === 0 ? markers[0].page : currentPage ?? markers[0]?.page;
+        const last = markers[markers.length - 1]?.page ?? currentPage;
+        if (first === undefined || first === null || last === null) return;
+
+        pages.set(index, { first, last });
+        currentPage = last;
+    });
+
+    return pages;
+}
+
+export function formatPageRange(range: PageRange): string {
+    return range.first === range.last ? `p. ${range.first}` : `pp. ${range.first}-${range.last}`;
+}
+
+/**
+ * (Re)build the retrieval chunks for a context.
+ */
+export function indexContext(contextId: number, content: string): number {
+    const chunks = chunkDocument(content);
+    saveContextChunks(contextId, chunks);
+    return chunks.length;
+}
+
+/**
+ * Turn a user message into an FTS5 query that matches any of its keywords.
+ * Terms are quoted so punctuation in the message can't break the syntax.
+ */
+function buildFtsQuery(text: string): string | null {
+    const terms = new Set(
+        (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+            .filter((term) => term.length > 1 && !STOPWORDS.has(term))
+    );
+    if (terms.size === 0) return null;
+
+    return [...terms].map((term) => `"${term}"`).join(" OR ");
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+    if (a.length !== b.length) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+/**
+ * Embed any chunks of a context that lack a vector for the current model.
+ * Returns the number of chunks embedded.
+ */
+export async function embedContext(contextId: number): Promise<number> {
+    if (!EMBEDDINGS_ENABLED) return 0;
+
+    const pending = getUnembeddedChunks(contextId, EMBEDDING_MODEL);
+
+    for (let i = 0; i < pending.length; i += EMBEDDING_BATCH_SIZE) {
+        const batch = pending.slice(i, i + EMBEDDING_BATCH_SIZE);
+        const response = await nanogpt.embeddings(batch.map((chunk) => chunk.content), EMBEDDING_MODEL);
+
+        saveChunkEmbeddings(
+            batch.map((chunk, index) => ({ id: chunk.id, embedding: response.data[index].embedding })),
+            EMBEDDING_MODEL
+        );
+    }
+
+    return pending.length;
+}
+
+function keywordSearch(contextId: number, query: string, limit: number): RetrievedPassage[] {
+    const ftsQuery = buildFtsQuery(query);
+    if (!ftsQuery) return [];
+
+    try {
+        return searchContextChunks(contextId, ftsQuery, limit).map((row) => ({
+            chunkIndex: row.chunk_index,
+            content: row.content,
+        }));
+    } catch (error) {
+        console.error("[Retrieval] Keyword search failed:", error);
+        return [];
+    }
+}
+
+async function semanticSearch(contextId: number, query: string, limit: number): Promise<RetrievedPassage[]> {
+    // Contexts added before embeddings (or under another model) catch up here
+    await embedContext(contextId);
+
+    const response = await nanogpt.embeddings(query, EMBEDDING_MODEL);
+    const queryVector = response.data[0].embedding;
+
+    return getChunkEmbeddings(contextId, EMBEDDING_MODEL)
+        .map((chunk) => ({
+            chunkIndex: chunk.chunk_index,
+            content: chunk.content,
+            score: cosineSimilarity(queryVector, chunk.embedding),
+        }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
+
+/**
+ * Find the passages of a context most relevant to a query. Uses embeddings
+ * when available and falls back to full-text search if the embeddings API
+ * is unavailable.
+ */
+export async function searchContext(
+    context: ContextDocument,
+    query: string,
+    limit: number = TOP_K
+): Promise<ContextSearchResult> {
+    // Contexts saved before chunking existed are indexed on first use
+    if (countContextChunks(context.id) === 0) {
+        indexContext(context.id, context.content);
+    }
+
+    if (EMBEDDINGS_ENABLED) {
+        try {
+            const passages = await semanticSearch(context.id, query, limit);
+            if (passages.length > 0) {
+                return { passages, method: "semantic" };
+            }
+        } catch (error) {
+            console.warn("[Retrieval] Semantic search unavailable, using keyword search:", error instanceof Error ? error.message : error);
+        }
+    }
+
+    return { passages: keywordSearch(context.id, query, limit), method: "keyword" };
+}
+
+/**
+ * Build the context block for a prompt. Small documents are sent whole; larger
+ * ones are reduced to the TOP_K chunks most relevant to the query, falling
+ * back to the start of the document when nothing matches.
+ */
+export async function buildContextPrompt(context: ContextDocument, query: string): Promise<ContextPrompt> {
+    if (context.content.length <= FULL_TEXT_MAX_CHARS) {
+        return {
+            text: `\n\n--- CONTEXT: ${context.name} (${context.source_filename}) ---\n${context.content}`,
+            citations: null,
+        };
+    }
+
+    let { passages } = await searchContext(context, query);
+    if (passages.length === 0) {
+        passages = getFirstContextChunks(context.id, TOP_K).map((row) => ({
+            chunkIndex: row.chunk_index,
+            content: row.content,
+        }));
+    }
+
+    // Present passages in document order so they read naturally
+    passages.sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+    // Paginated documents (PDFs) also cite the pages each passage came from
+    const pages = getChunkPages(context.content);
+    const pageOf = (passage: RetrievedPassage) => {
+        const range = pages.get(passage.chunkIndex);
+        return range ? formatPageRange(range) : null;
+    };
+
+    const body = passages
+        .map((passage) => {
+            const page = pageOf(passage);
+            return `[${context.name} #${passage.chunkIndex + 1}${page ? `, ${page}` : ""}]\n${passage.content}`;
+        })
+        .join("\n\n");
+
+    const citations = passages.map((passage) => {
+        const page = pageOf(passage);
+        return `#${passage.chunkIndex + 1}${page ? ` (${page})` : ""}`;
+    });
+
+    return {
+        text: `\n\n--- CONTEXT: ${context.name} (${context.source_filename}), relevant excerpts ---\n${body}`,
+        citations: citations.length > 0 ? `${context.name} ${citations.join(", ")}` : null,
+    };
+}
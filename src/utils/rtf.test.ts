@@ -0,0 +1,41 @@
+import { describe, expect, test } from "bun:test";
+import { parseRTF } from "./rtf.ts";
+
+function rtf(source: string): string {
+    return parseRTF(Buffer.from(source, "latin1"));
+}
+
+describe("parseRTF", () => {
+    test("extracts paragraphs, headings and list items", () => {
+        const text = rtf(
+            "{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}" +
+            "\\pard\\outlinelevel0 Title\\par" +
+            "\\pard Body text with \\'e9 and \\u8364?.\\par" +
+            "\\pard\\ls1 First\\par\\pard\\ls1 Second\\par}"
+        );
+        expect(text).toBe("# Title\n\nBody text with é and €.\n\n- First\n- Second");
+    });
+
+    test("skips metadata destinations and ignorable groups", () => {
+        expect(rtf("{\\rtf1{\\info{\\title Hidden}}{\\*\\unknown gone}Visible\\par}")).toBe("Visible");
+    });
+
+    test("rejects files that aren't RTF", () => {
+        expect(() => rtf("hello")).toThrow("Not a valid RTF file.");
+    });
+
+    test("tolerates truncated input", () => {
+        expect(rtf("{\\rtf1 Cut off here\\")).toBe("Cut off here");
+        expect(rtf("{\\rtf1 Half a hex \\'e")).toBe("Half a hex");
+        expect(rtf("{\\rtf1 {{{ unclosed")).toBe("unclosed");
+    });
+
+    test("negative \\bin lengths don't rewind the reader", () => {
+        expect(rtf("{\\rtf1 hello \\bin-7 x}")).toBe("hello x");
+    });
+
+    test("\\bin skips its data, clamped to the end of the file", () => {
+        expect(rtf("{\\rtf1 before \\bin3 xyzafter}")).toBe("before after");
+        expect(rtf("{\\rtf1 before \\bin999999999 data}")).toBe("before");
+    });
+});
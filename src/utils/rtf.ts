@@ -0,0 +1,210 @@
+// Groups whose text is metadata or formatting rather than document content
+const SKIPPED_DESTINATIONS = new Set([
+    "fonttbl", "colortbl", "stylesheet", "info", "pict", "object", "themedata", "colorschememapping",
+    "latentstyles", "datastore", "listtable", "listoverridetable", "rsidtbl", "generator", "fldinst",
+    "header", "headerl", "headerr", "headerf", "footer", "footerl", "footerr", "footerf",
+    "footnote", "annotation", "xmlnstbl", "pgdsctbl", "listtext", "pntext", "pntxta", "pntxtb",
+]);
+
+const SYMBOLS: Record<string, string> = {
+    emdash: "—", endash: "–", bullet: "•", lquote: "‘", rquote: "’",
+    ldblquote: "“", rdblquote: "”", emspace: " ", enspace: " ", qmspace: " ",
+};
+
+interface GroupState {
+    skip: boolean;
+    unicodeSkip: number; // Fallback characters following each \u, set by \uc
+}
+
+/**
+ * Extract text from an RTF document. Paragraphs with an outline level become
+ * markdown headings and list paragraphs become list items; all other
+ * formatting is dropped.
+ */
+export function parseRTF(buffer: Buffer): string {
+    const source = buffer.toString("latin1");
+    if (!source.trimStart().startsWith("{\\rtf")) {
+        throw new Error("Not a valid RTF file.");
+    }
+
+    const blocks: string[] = [];
+    const stack: GroupState[] = [];
+    let state: GroupState = { skip: false, unicodeSkip: 1 };
+    let decoder = new TextDecoder("windows-1252");
+
+    let paragraph = "";
+    let outlineLevel: number | null = null;
+    let isListItem = false;
+    let pendingBytes: number[] = [];
+    let fallbackToSkip = 0;
+
+    // Hex escapes are collected so multi-byte code page sequences decode together
+    const flushBytes = () => {
+        if (pendingBytes.length > 0) {
+            paragraph += decoder.decode(new Uint8Array(pendingBytes));
+            pendingBytes = [];
+        }
+    };
+
+    const emit = (text: string) => {
+        if (state.skip) return;
+        flushBytes();
+        paragraph += text;
+    };
+
+    const endParagraph = () => {
+        flushBytes();
+        const text = paragraph.replace(/[ \t]+\n/g, "\n").replace(/[ \t]{2,}/g, " ").trim();
+        if (text) {
+            if (outlineLevel !== null && outlineLevel < 9) {
+                blocks.push(`${"#".repeat(Math.min(outlineLevel + 1, 6))} ${text.replace(/\n/g, " ")}`);
+            } else if (isListItem) {
+                blocks.push(`- ${text.replace(/\n/g, " ")}`);
+            } else {
+                blocks.push(text);
+            }
+        }
+        paragraph = "";
+    };
+
+    let i = source.indexOf("{");
+    while (i < source.length) {
+        const char = source[i];
+
+        if (char === "{") {
+            flushBytes();
+            stack.push(state);
+            state = { ...state };
+            i++;
+            continue;
+        }
+
+        if (char === "}") {
+            flushBytes();
+            state = stack.pop() ?? state;
+            i++;
+            continue;
+        }
+
+        if (char === "\r" || char === "\n") {
+            i++;
+            continue;
+        }
+
+        if (char !== "\\") {
+            if (fallbackToSkip > 0) fallbackToSkip--;
+            else emit(char);
+            i++;
+            continue;
+        }
+
+        // Control symbols: a backslash and one non-letter
+        const next = source[i + 1];
+        if (next === undefined) break;
+
+        if (next === "'") {
+            const hex = source.substring(i + 2, i + 4);
+            i += 4;
+            if (fallbackToSkip > 0) {
+                fallbackToSkip--;
+            } else if (!state.skip && /^[0-9a-f]{2}$/i.test(hex)) {
+                pendingBytes.push(parseInt(hex, 16));
+            }
+            continue;
+        }
+
+        if (!/[a-z]/i.test(next)) {
+            i += 2;
+            if (next === "*") {
+                // Ignorable destination unknown to this reader
+                state.skip = true;
+            } else if (next === "~") {
+                emit(" ");
+            } else if (next === "_") {
+                emit("-");
+            } else if (next === "\n" || next === "\r") {
+                endParagraph();
+            } else if (next !== "-" && next !== ":" && next !== "|") {
+                emit(next);
+            }
+            continue;
+        }
+
+        // Control words: letters, an optional signed number and an optional space
+        const match = source.substring(i + 1, i + 40).match(/^([a-z]+)(-?\d+)? ?/i)!;
+        const word = match[1];
+        const param = match[2] !== undefined ? parseInt(match[2], 10) : null;
+        i += 1 + match[0].length;
+
+        // Binary data follows; a negative or oversized length must not stall or rewind the reader
+        if (word === "bin") {
+            if (param !== null && param > 0) {
+                i = Math.min(source.length, i + param);
+            }
+            continue;
+        }
+
+        if (SKIPPED_DESTINATIONS.has(word)) {
+            state.skip = true;
+            continue;
+        }
+
+        switch (word) {
+            case "par":
+            case "sect":
+            case "page":
+                if (!state.skip) endParagraph();
+                break;
+            case "line":
+                emit("\n");
+                break;
+            case "tab":
+                emit("\t");
+                break;
+            case "cell":
+                emit(" | ");
+                break;
+            case "row":
+                if (!state.skip) endParagraph();
+                break;
+            case "pard":
+                outlineLevel = null;
+                isListItem = false;
+                break;
+            case "outlinelevel":
+                outlineLevel = param;
+                break;
+            case "ls":
+            case "pnlvlblt":
+            case "pnlvlbody":
+                isListItem = true;
+                break;
+            case "ansicpg":
+                try {
+                    decoder = new TextDecoder(`windows-${param}`);
+                } catch {
+                    // Unknown code pages keep the Windows-1252 default
+                }
+                break;
+            case "uc":
+                state.unicodeSkip = Math.max(0, param ?? 1);
+                break;
+            case "u":
+                if (param !== null) {
+                    emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+                    fallbackToSkip = state.unicodeSkip;
+                }
+                break;
+            default:
+                if (SYMBOLS[word]) emit(SYMBOLS[word]);
+        }
+    }
+
+    endParagraph();
+
+    // Consecutive list items stay on adjacent lines
+    return blocks
+        .map((block, index) => (index > 0 && block.startsWith("- ") && blocks[index - 1].startsWith("- ") ? "\n" : "\n\n") + block)
+        .join("")
+        .trim();
+}
@@ -0,0 +1,94 @@
+import { describe, expect, test } from "bun:test";
+import { toMarkdownTable, parseDelimited, parseCSV, parseXLSX } from "./spreadsheets.ts";
+import { buildZip } from "./test-fixtures.ts";
+
+describe("parseDelimited", () => {
+    test("handles quoted fields, escaped quotes and embedded newlines", () => {
+        expect(parseDelimited("a,b\n\"x, y\",\"say \"\"hi\"\"\"\n\"multi\nline\",z\n")).toEqual([
+            ["a", "b"],
+            ["x, y", "say \"hi\""],
+            ["multi\nline", "z"],
+        ]);
+    });
+
+    test("detects tab and semicolon delimiters", () => {
+        expect(parseDelimited("a\tb\n1\t2")).toEqual([["a", "b"], ["1", "2"]]);
+        expect(parseDelimited("a;b\n1;2")).toEqual([["a", "b"], ["1", "2"]]);
+    });
+
+    test("keeps an unterminated quote's text instead of failing", () => {
+        expect(parseDelimited("a,\"never closed")).toEqual([["a", "never closed"]]);
+    });
+});
+
+describe("toMarkdownTable", () => {
+    test("escapes pipes and flattens line breaks", () => {
+        expect(toMarkdownTable([["h|1", "h2"], ["a\nb"]])).toBe("| h\\|1 | h2 |\n| --- | --- |\n| a b |  |");
+    });
+
+    test("summarises rows and cuts columns past the limits", () => {
+        const rows = Array.from({ length: 600 }, (_, i) => Array.from({ length: 40 }, (_, j) => `${i}:${j}`));
+        const table = toMarkdownTable(rows);
+        const lines = table.split("\n");
+
+        expect(lines[0].split(" | ")).toHaveLength(30);
+        expect(lines.filter((line) => line.startsWith("|"))).toHaveLength(502);
+        expect(table.endsWith("_99 more rows not shown._")).toBe(true);
+    });
+
+    test("renders nothing for empty input", () => {
+        expect(toMarkdownTable([])).toBe("");
+        expect(toMarkdownTable([[]])).toBe("");
+    });
+});
+
+describe("parseCSV", () => {
+    test("rejects empty files", () => {
+        expect(() => parseCSV("")).toThrow("The file contains no rows.");
+    });
+});
+
+describe("parseXLSX", () => {
+    const workbook = `<workbook><sheets><sheet name="Data" r:id="rId1"/><sheet name="Blank" r:id="rId2"/></sheets></workbook>`;
+    const rels = `<Relationships>
+        <Relationship Id="rId1" Target="worksheets/sheet1.xml"/>
+        <Relationship Id="rId2" Target="/xl/worksheets/sheet2.xml"/>
+    </Relationships>`;
+    const sharedStrings = `<sst><si><t>Name</t></si><si><r><t>Ri</t></r><r><t>ch</t></r><rPh><t>x</t></rPh></si></sst>`;
+    const sheet = `<worksheet><sheetData>
+        <row><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>Flag</t></is></c></row>
+        <row><c r="A2" t="s"><v>1</v></c><c r="B2"><v>42</v></c><c r="C2" t="b"><v>1</v></c><c r="AZ2"><v>wide</v></c></row>
+        <row><c r="A3"/></row>
+    </sheetData></worksheet>`;
+
+    test("renders each sheet with shared strings and sparse cells", () => {
+        const buffer = buildZip({
+            "xl/workbook.xml": workbook,
+            "xl/_rels/workbook.xml.rels": rels,
+            "xl/sharedStrings.xml": sharedStrings,
+            "xl/worksheets/sheet1.xml": sheet,
+            "xl/worksheets/sheet2.xml": "<worksheet><sheetData/></worksheet>",
+        });
+
+        expect(parseXLSX(buffer)).toBe([
+            "## Sheet: Data",
+            "",
+            "| Name |  | Flag |",
+            "| --- | --- | --- |",
+            "| Rich | 42 | TRUE |",
+            "",
+            "## Sheet: Blank",
+            "",
+            "_Empty sheet._",
+        ].join("\n"));
+    });
+
+    test("rejects archives without a workbook or sheets", () => {
+        expect(() => parseXLSX(buildZip({ "other.xml": "<x/>" }))).toThrow("Not a valid XLSX file (missing workbook).");
+        expect(() => parseXLSX(buildZip({ "xl/workbook.xml": workbook }))).toThrow("The workbook contains no sheets.");
+    });
+
+    test("rejects data that isn't a zip", () => {
+        expect(() => parseXLSX(Buffer.from("a,b,c"))).toThrow("Not a valid zip archive.");
+    });
+});
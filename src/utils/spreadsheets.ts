@@ -0,0 +1,227 @@
+import { ZipArchive, resolveEntryPath } from "./zip.ts";
+import { parseXml, findAll, findFirst, childElements, textContent, type XmlElement } from "./xml.ts";
+
+// Rows beyond this are summarised rather than rendered, per sheet or file
+const MAX_TABLE_ROWS = 500;
+
+// Wide sheets are cut off at this many columns
+const MAX_TABLE_COLUMNS = 30;
+
+const RELATIONSHIP_ID = "r:id";
+
+/**
+ * Render rows as a markdown table, treating the first row as the header.
+ * Pipes are escaped and line breaks flattened so each row stays on one line.
+ */
+export function toMarkdownTable(rows: string[][]): string {
+    const width = Math.min(MAX_TABLE_COLUMNS, Math.max(0, ...rows.map((row) => row.length)));
+    if (rows.length === 0 || width === 0) return "";
+
+    const formatRow = (row: string[]) => {
+        const cells = Array.from({ length: width }, (_, i) =>
+            (row[i] ?? "").replace(/\|/g, "\\|").replace(/\s*\n\s*/g, " ").trim()
+        );
+        return `| ${cells.join(" | ")} |`;
+    };
+
+    const shown = rows.slice(0, MAX_TABLE_ROWS + 1);
+    const lines = [
+        formatRow(shown[0]),
+        `| ${Array(width).fill("---").join(" | ")} |`,
+        ...shown.slice(1).map(formatRow),
+    ];
+
+    if (rows.length > shown.length) {
+        lines.push("", `_${rows.length - shown.length} more rows not shown._`);
+    }
+
+    return lines.join("\n");
+}
+
+/**
+ * RFC 4180 CSV parsing with quoted fields. The delimiter is detected from the
+ * first line, so tab- and semicolon-separated files work too.
+ */
+export function parseDelimited(text: string, delimiter?: string): string[][] {
+    const source = text.replace(/^﻿/, "");
+    const separator = delimiter ?? detectDelimiter(source);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < source.length; i++) {
+        const char = source[i];
+
+        if (inQuotes) {
+            if (char === "\"" && source[i + 1] === "\"") {
+                field += "\"";
+                i++;
+            } else if (char === "\"") {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+        } else if (char === "\"" && field === "") {
+            inQuotes = true;
+        } else if (char === separator) {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && source[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== "" || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    // Blank lines carry no data
+    return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function detectDelimiter(text: string): string {
+    const firstLine = text.substring(0, text.search(/\r?\n|$/));
+    const candidates = [",", "\t", ";", "|"];
+    let best = ",";
+    let bestCount = 0;
+
+    for (const candidate of candidates) {
+        const count = firstLine.split(candidate).length - 1;
+        if (count > bestCount) {
+            best = candidate;
+            bestCount = count;
+        }
+    }
+
+    return best;
+}
+
+export function parseCSV(text: string, delimiter?: string): string {
+    const rows = parseDelimited(text, delimiter);
+    if (rows.length === 0) {
+        throw new Error("The file contains no rows.");
+    }
+    return toMarkdownTable(rows);
+}
+
+/**
+ * Convert each worksheet of an XLSX workbook into a markdown table under a
+ * "## Sheet" heading. Cached formula results are used; formulas are not evaluated.
+ */
+export function parseXLSX(buffer: Buffer): string {
+    const zip = new ZipArchive(buffer);
+    const workbookXml = zip.readText("xl/workbook.xml");
+    if (!workbookXml) {
+        throw new Error("Not a valid XLSX file (missing workbook).");
+    }
+
+    const sharedStrings = readSharedStrings(zip);
+    const targets = readRelationships(zip, "xl/_rels/workbook.xml.rels");
+    const sections: string[] = [];
+
+    for (const sheet of findAll(parseXml(workbookXml), "sheet")) {
+        const name = sheet.attributes.name || "Sheet";
+        const target = targets.get(sheet.attributes[RELATIONSHIP_ID]);
+        if (!target) continue;
+
+        const sheetXml = zip.readText(resolveEntryPath("xl/workbook.xml", target));
+        if (!sheetXml) continue;
+
+        const rows = readSheetRows(parseXml(sheetXml), sharedStrings);
+        const table = toMarkdownTable(rows);
+        sections.push(`## Sheet: ${name}\n\n${table || "_Empty sheet._"}`);
+    }
+
+    if (sections.length === 0) {
+        throw new Error("The workbook contains no sheets.");
+    }
+
+    return sections.join("\n\n");
+}
+
+/**
+ * Map relationship ids to their targets from a .rels part.
+ */
+export function readRelationships(zip: ZipArchive, path: string): Map<string, string> {
+    const xml = zip.readText(path);
+    const targets = new Map<string, string>();
+    if (!xml) return targets;
+
+    for (const relationship of findAll(parseXml(xml), "Relationship")) {
+        targets.set(relationship.attributes.Id, relationship.attributes.Target);
+    }
+    return targets;
+}
+
+function readSharedStrings(zip: ZipArchive): string[] {
+    const xml = zip.readText("xl/sharedStrings.xml");
+    if (!xml) return [];
+
+    // Rich text splits a string into runs; phonetic hints (rPh) are not part of the value
+    return findAll(parseXml(xml), "si").map((item) =>
+        childElements(item)
+            .filter((child) => child.name === "t" || child.name === "r")
+            .map(textContent)
+            .join("")
+    );
+}
+
+function readSheetRows(sheet: XmlElement, sharedStrings: string[]): string[][] {
+    const rows: string[][] = [];
+    const sheetData = findFirst(sheet, "sheetData");
+    if (!sheetData) return rows;
+
+    for (const row of childElements(sheetData, "row")) {
+        const cells: string[] = [];
+
+        for (const cell of childElements(row, "c")) {
+            // Cells can be sparse, so place each by its column letter
+            const column = columnIndex(cell.attributes.r) ?? cells.length;
+            if (column >= MAX_TABLE_COLUMNS) continue;
+            cells[column] = readCellValue(cell, sharedStrings);
+        }
+
+        rows.push(Array.from(cells, (value) => value ?? ""));
+    }
+
+    // Drop trailing empty rows left behind by formatting
+    while (rows.length > 0 && rows[rows.length - 1].every((cell) => cell === "")) rows.pop();
+    return rows;
+}
+
+function readCellValue(cell: XmlElement, sharedStrings: string[]): string {
+    const value = findFirst(cell, "v");
+    const raw = value ? textContent(value) : "";
+
+    switch (cell.attributes.t) {
+        case "s":
+            return sharedStrings[parseInt(raw, 10)] ?? "";
+        case "inlineStr": {
+            const inline = findFirst(cell, "is");
+            return inline ? findAll(inline, "t").map(textContent).join("") : "";
+        }
+        case "b":
+            return raw === "1" ? "TRUE" : "FALSE";
+        default:
+            return raw;
+    }
+}
+
+function columnIndex(reference: string | undefined): number | null {
+    const letters = reference?.match(/^[A-Z]+/i)?.[0];
+    if (!letters) return null;
+
+    let index = 0;
+    for (const letter of letters.toUpperCase()) {
+        index = index * 26 + (letter.charCodeAt(0) - 64);
+    }
+    return index - 1;
+}
@@ -0,0 +1,207 @@
+import {
+    AttachmentBuilder,
+    ChatInputCommandInteraction,
+    EmbedBuilder,
+    Message,
+    MessageComponentInteraction,
+} from "discord.js";
+import type { ChatCompletionChunk, ChatUsage } from "../api/nanogpt.ts";
+import { takeChunk, closeOpenFence, buildReplyFiles } from "./formatter.ts";
+
+const MAX_LENGTH = 4000; // Leave room for embed formatting
+const UPDATE_INTERVAL = 1000; // Discord rate limits edits, so batch deltas
+const CURSOR = " ▌";
+
+// Replies longer than this many messages end with the full response as a file
+const MAX_REPLY_MESSAGES = Number(process.env.MAX_REPLY_MESSAGES) || 5;
+const OVERFLOW_NOTE = "\n\n*The full response is in the attached file.*";
+
+export interface StreamedReply {
+    content: string;
+    finishReason: string | null;
+    usage?: ChatUsage;
+    messageCount: number;
+}
+
+/**
+ * Where a streamed reply is written. Messages are addressed by index in the
+ * order they were created; index 0 is the first message of the reply.
+ */
+export interface ReplyTarget {
+    edit(index: number, embed: EmbedBuilder, files?: AttachmentBuilder[]): Promise<void>;
+    create(embed: EmbedBuilder): Promise<void>;
+}
+
+export interface InteractionReplyTarget extends ReplyTarget {
+    followUpIds: string[]; // Messages created after the deferred reply, in order
+}
+
+/**
+ * Stream into a deferred interaction reply, overflowing into follow-ups.
+ */
+export function interactionTarget(
+    interaction: ChatInputCommandInteraction | MessageComponentInteraction
+): InteractionReplyTarget {
+    const followUpIds: string[] = [];
+
+    return {
+        followUpIds,
+        async edit(index, embed, files) {
+            // "@original" is the deferred reply
+            const message = index === 0 ? "@original" : followUpIds[index - 1];
+            await interaction.editReply({ message, embeds: [embed], files });
+        },
+        async create(embed) {
+            const followUp = await interaction.followUp({ embeds: [embed] });
+            followUpIds.push(followUp.id);
+        },
+    };
+}
+
+/**
+ * Stream as a reply to a channel message, overflowing into further channel
+ * messages. The first message is only sent once there is something to show.
+ */
+export function messageTarget(source: Message): ReplyTarget {
+    const messages: Message[] = [];
+
+    return {
+        async edit(index, embed, files) {
+            if (index === 0 && messages.length === 0) {
+                messages.push(await source.reply({ embeds: [embed], files, allowedMentions: { repliedUser: false } }));
+                return;
+            }
+            await messages[index].edit({ embeds: [embed], files });
+        },
+        async create(embed) {
+            if (!source.channel.isSendable()) {
+                throw new Error("Cannot send messages in this channel");
+            }
+            messages.push(await source.channel.send({ embeds: [embed] }));
+        },
+    };
+}
+
+function formatUsage(usage: ChatUsage): string {
+    return `Tokens: ${usage.prompt_tokens} in / ${usage.completion_tokens} out`;
+}
+
+/**
+ * Consume a chat completion stream and progressively edit the reply.
+ * When the text outgrows a single embed, the current message is frozen and
+ * the remainder continues in a follow-up message, split so code blocks and
+ * tables stay intact. After MAX_REPLY_MESSAGES messages the reply stops
+ * growing and the full response is attached as a file instead. Once the
+ * stream ends every message gets its final footer (part numbers and token
+ * usage), and the last one any files from buildReplyFiles.
+ */
+export async function streamChatReply(
+    target: ReplyTarget,
+    stream: AsyncIterable<ChatCompletionChunk>,
+    footerText: string
+): Promise<StreamedReply> {
+    const segments: string[] = [""];
+
+    let content = "";
+    let segmentStart = 0;
+    let carry = ""; // Reopened code fence or table header starting the open segment
+    let overflowed = false;
+    let finishReason: string | null = null;
+    let usage: ChatUsage | undefined;
+    let lastUpdate = 0;
+
+    const editMessage = async (index: number, text: string, footer: string, files?: AttachmentBuilder[]) => {
+        const embed = new EmbedBuilder()
+            .setDescription(text || "…")
+            .setFooter({ text: footer });
+
+        if (index === 0) {
+            embed.setTimestamp();
+        }
+
+        await target.edit(index, embed, files);
+    };
+
+    const flush = async (final: boolean) => {
+        // Roll over into follow-up messages while the open segment is too long
+        while (!overflowed && carry.length + content.length - segmentStart > MAX_LENGTH) {
+            const pending = carry + content.substring(segmentStart);
+            const index = segments.length - 1;
+
+            // The last message keeps what fits; the rest is only in the attached file
+            if (segments.length >= MAX_REPLY_MESSAGES) {
+                segments[index] = takeChunk(pending, MAX_LENGTH - OVERFLOW_NOTE.length).chunk + OVERFLOW_NOTE;
+                overflowed = true;
+                break;
+            }
+
+            const split = takeChunk(pending, MAX_LENGTH);
+            segments[index] = split.chunk;
+            await editMessage(index, segments[index], footerText);
+
+            segmentStart += split.consumed - carry.length;
+            carry = split.carry;
+
+            await target.create(new EmbedBuilder().setDescription("…").setFooter({ text: footerText }));
+            segments.push("");
+        }
+
+        const index = segments.length - 1;
+        if (!overflowed) {
+            segments[index] = closeOpenFence(carry + content.substring(segmentStart));
+        }
+
+        if (!final) {
+            await editMessage(index, segments[index] + (overflowed ? "" : CURSOR), `${footerText} | Generating...`);
+        }
+    };
+
+    for await (const chunk of stream) {
+        const choice = chunk.choices?.[0];
+
+        if (choice?.delta?.content) {
+            content += choice.delta.content;
+        }
+        if (choice?.finish_reason) {
+            finishReason = choice.finish_reason;
+        }
+        if (chunk.usage) {
+            usage = chunk.usage;
+        }
+
+        const now = Date.now();
+        if (content.length > 0 && now - lastUpdate >= UPDATE_INTERVAL) {
+            lastUpdate = now;
+            await flush(false);
+        }
+    }
+
+    if (content.trim().length === 0) {
+        content = "No response received.";
+    }
+
+    await flush(true);
+
+    // Finalize every message with part numbers and token usage
+    let finalFooter = footerText;
+    if (usage) {
+        finalFooter += ` | ${formatUsage(usage)}`;
+    }
+
+    const files = buildReplyFiles(content, overflowed);
+
+    for (let i = 0; i < segments.length; i++) {
+        const footer = segments.length > 1
+            ? `${finalFooter} (${i + 1}/${segments.length})`
+            : finalFooter;
+        const isLast = i === segments.length - 1;
+        await editMessage(i, segments[i], footer, isLast && files.length > 0 ? files : undefined);
+    }
+
+    return {
+        content,
+        finishReason,
+        usage,
+        messageCount: segments.length,
+    };
+}
@@ -0,0 +1,93 @@
+import { nanogpt } from "../api/nanogpt.ts";
+import {
+    getMemorySummary,
+    saveMemorySummary,
+    countMemoryAfter,
+    getMemoryHistory,
+    getMemoryRange,
+} from "../db/index.ts";
+
+// Summarize once this many turns sit outside the summary, keeping the newest ones verbatim
+const SUMMARY_THRESHOLD = Number(process.env.MEMORY_SUMMARY_THRESHOLD) || 40;
+const KEEP_RECENT_TURNS = Number(process.env.MEMORY_KEEP_RECENT) || 20;
+const SUMMARY_MODEL = process.env.SUMMARY_MODEL || process.env.DEFAULT_MODEL || "gpt-4o-mini";
+
+// Individual turns are clipped so one huge paste can't blow up the summary prompt
+const MAX_TURN_CHARS = 2000;
+
+const SUMMARY_INSTRUCTIONS = [
+    "You maintain a running summary of a conversation between a user and an AI assistant.",
+    "Merge the new messages into the existing summary.",
+    "Keep facts about the user, their preferences, decisions made, important details and open questions.",
+    "Drop small talk. Write in the third person, in under 400 words.",
+].join(" ");
+
+// Sessions with a summarization in flight, so overlapping chats don't race
+const inProgress = new Set<number>();
+
+/**
+ * Compress older memory turns into the session's rolling summary once the
+ * unsummarized transcript grows past the threshold. Safe to call after every
+ * turn; it returns quickly when there is nothing to do.
+ */
+export async function maybeSummarizeMemory(sessionId: number): Promise<void> {
+    if (inProgress.has(sessionId)) return;
+
+    const existing = getMemorySummary(sessionId);
+    const coveredUntilId = existing?.coveredUntilId ?? 0;
+
+    if (countMemoryAfter(sessionId, coveredUntilId) <= SUMMARY_THRESHOLD) return;
+
+    inProgress.add(sessionId);
+
+    try {
+        // Everything older than the newest KEEP_RECENT_TURNS rows gets summarized
+        const recent = getMemoryHistory(sessionId, KEEP_RECENT_TURNS, coveredUntilId);
+        const newCoveredUntilId = recent[0].id - 1;
+        const turns = getMemoryRange(sessionId, coveredUntilId, newCoveredUntilId);
+
+        if (turns.length === 0) return;
+
+        const transcript = turns
+            .map((turn) => {
+                const speaker = turn.role === "user" ? "User" : "Assistant";
+                const content = turn.content.length > MAX_TURN_CHARS
+                    ? turn.content.substring(0, MAX_TURN_CHARS) + "..."
+                    : turn.content;
+                return `${speaker}: ${content}`;
+            })
+            .join("\n\n");
+
+        const response = await nanogpt.chat(
+            [
+                { role: "system", content: SUMMARY_INSTRUCTIONS },
+                {
+                    role: "user",
+                    content: `Existing summary:\n${existing?.summary || "(none)"}\n\nNew messages:\n${transcript}`,
+                },
+            ],
+            SUMMARY_MODEL,
+            { temperature: 0.3, max_tokens: 800 }
+        );
+
+        const summary = response.choices[0]?.message?.content?.trim();
+        if (!summary) {
+            console.warn(`[Summarizer] Empty summary for session ${sessionId}, keeping the previous one`);
+            return;
+        }
+
+        saveMemorySummary(
+            sessionId,
+            summary,
+            turns[turns.length - 1].id,
+            (existing?.coveredCount ?? 0) + turns.length,
+            SUMMARY_MODEL
+        );
+
+        console.log(`[Summarizer] Summarized ${turns.length} turns for session ${sessionId}`);
+    } catch (error) {
+        console.error("[Summarizer] Error:", error);
+    } finally {
+        inProgress.delete(sessionId);
+    }
+}
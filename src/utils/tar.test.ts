@@ -0,0 +1,56 @@
+import { describe, expect, test } from "bun:test";
+import { TarArchive } from "./tar.ts";
+import { buildTar } from "./test-fixtures.ts";
+
+describe("TarArchive", () => {
+    test("reads plain and gzipped archives", () => {
+        for (const gzip of [false, true]) {
+            const tar = new TarArchive(buildTar({ "src/": "", "src/a.ts": "export {};\n", "README.md": "# Hi" }, gzip), gzip);
+
+            expect(tar.entries.map((entry) => entry.name)).toEqual(["src/", "src/a.ts", "README.md"]);
+            expect(tar.entries[0].isDirectory).toBe(true);
+            expect(tar.entries[1].isFile).toBe(true);
+            expect(tar.extract(tar.entries[1]).toString()).toBe("export {};\n");
+        }
+    });
+
+    test("applies GNU long names to the next entry", () => {
+        const longName = `${"deep/".repeat(30)}file.txt`;
+        const tar = new TarArchive(buildTar({ "L:././@LongLink": longName, "short": "content" }));
+        expect(tar.entries).toHaveLength(1);
+        expect(tar.entries[0].name).toBe(longName);
+    });
+
+    test("applies pax paths to the next entry", () => {
+        const record = "30 path=a/very/long/name.txt\n";
+        const tar = new TarArchive(buildTar({ "x:PaxHeader": record, "short": "content" }));
+        expect(tar.entries[0].name).toBe("a/very/long/name.txt");
+    });
+
+    test("rejects data that isn't a tar archive", () => {
+        expect(() => new TarArchive(Buffer.alloc(1024, 1))).toThrow("Not a valid tar archive.");
+    });
+
+    test("rejects entries that run past the end", () => {
+        const buffer = buildTar({ "a.txt": "x".repeat(2000) });
+        expect(() => new TarArchive(buffer.subarray(0, 1024))).toThrow("extends past the end");
+    });
+
+    test("rejects bad and negative size fields", () => {
+        const bad = buildTar({ "a.txt": "hello" });
+        bad.write("zzzzzzzzzzz\0", 124);
+        expect(() => new TarArchive(bad)).toThrow("bad size field");
+
+        const negative = buildTar({ "a.txt": "hello" });
+        negative.write("-0000000001\0", 124);
+        expect(() => new TarArchive(negative)).toThrow("bad size field");
+    });
+
+    test("rejects corrupt gzip data", () => {
+        expect(() => new TarArchive(Buffer.from("not gzip"), true)).toThrow();
+    });
+
+    test("treats an empty archive as having no entries", () => {
+        expect(new TarArchive(buildTar({})).entries).toEqual([]);
+    });
+});
@@ -0,0 +1,106 @@
+import { gunzipSync } from "zlib";
+
+// Guards against gzip bombs when inflating .tar.gz uploads
+const MAX_UNPACKED_SIZE = 100 * 1024 * 1024; // 100MB
+
+const BLOCK_SIZE = 512;
+
+export interface TarEntry {
+    name: string;
+    size: number;
+    isDirectory: boolean;
+    isFile: boolean; // False for links, devices and other special entries
+    dataOffset: number;
+}
+
+/**
+ * Minimal reader for ustar, GNU and pax tar archives, optionally gzip-compressed.
+ * Long names from GNU "L" and pax "path" records are applied to the next entry.
+ */
+export class TarArchive {
+    readonly entries: TarEntry[];
+    private buffer: Buffer;
+
+    constructor(buffer: Buffer, gzipped: boolean = false) {
+        this.buffer = gzipped ? gunzipSync(buffer, { maxOutputLength: MAX_UNPACKED_SIZE }) : buffer;
+        this.entries = readEntries(this.buffer);
+    }
+
+    extract(entry: TarEntry): Buffer {
+        return Buffer.from(this.buffer.subarray(entry.dataOffset, entry.dataOffset + entry.size));
+    }
+}
+
+function readString(buffer: Buffer, start: number, length: number): string {
+    const field = buffer.subarray(start, start + length);
+    const end = field.indexOf(0);
+    return field.toString("utf-8", 0, end === -1 ? field.length : end);
+}
+
+function readOctal(buffer: Buffer, start: number, length: number): number {
+    const value = parseInt(readString(buffer, start, length).trim() || "0", 8);
+    if (Number.isNaN(value) || value < 0) {
+        throw new Error("Corrupt archive: bad size field.");
+    }
+    return value;
+}
+
+function readPaxPath(data: Buffer): string | null {
+    // Records are "<length> <key>=<value>\n"
+    for (const record of data.toString("utf-8").split("\n")) {
+        const match = record.match(/^\d+ path=(.*)$/);
+        if (match) return match[1];
+    }
+    return null;
+}
+
+function readEntries(buffer: Buffer): TarEntry[] {
+    const entries: TarEntry[] = [];
+    let offset = 0;
+    let longName: string | null = null;
+
+    while (offset + BLOCK_SIZE <= buffer.length) {
+        const header = buffer.subarray(offset, offset + BLOCK_SIZE);
+
+        // Two zero blocks end the archive; one is enough to stop reading
+        if (header.every((byte) => byte === 0)) break;
+
+        if (!readString(header, 257, 6).startsWith("ustar")) {
+            throw new Error("Not a valid tar archive.");
+        }
+
+        const size = readOctal(header, 124, 12);
+        const type = String.fromCharCode(header[156] || 0x30);
+        const dataOffset = offset + BLOCK_SIZE;
+        offset = dataOffset + Math.ceil(size / BLOCK_SIZE) * BLOCK_SIZE;
+
+        if (dataOffset + size > buffer.length) {
+            throw new Error("Corrupt archive: entry extends past the end of the file.");
+        }
+
+        if (type === "L") {
+            longName = readString(buffer, dataOffset, size);
+            continue;
+        }
+        if (type === "x") {
+            longName = readPaxPath(buffer.subarray(dataOffset, dataOffset + size)) ?? longName;
+            continue;
+        }
+        if (type === "g") continue;
+
+        const prefix = readString(header, 345, 155);
+        const shortName = readString(header, 0, 100);
+        const name = longName ?? (prefix ? `${prefix}/${shortName}` : shortName);
+        longName = null;
+
+        entries.push({
+            name,
+            size,
+            isDirectory: type === "5" || name.endsWith("/"),
+            isFile: type === "0" || type === "7",
+            dataOffset,
+        });
+    }
+
+    return entries;
+}
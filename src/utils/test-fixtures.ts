@@ -0,0 +1,89 @@
+import { deflateRawSync, gzipSync } from "zlib";
+
+// In-memory archives for the parser tests
+
+/**
+ * Build a zip archive. Entries are deflated unless `stored` is set.
+ */
+export function buildZip(files: Record<string, string | Buffer>, stored: boolean = false): Buffer {
+    const locals: Buffer[] = [];
+    const centrals: Buffer[] = [];
+    let offset = 0;
+
+    for (const [name, content] of Object.entries(files)) {
+        const nameBytes = Buffer.from(name, "utf-8");
+        const data = Buffer.from(content);
+        const compressed = stored ? data : deflateRawSync(data);
+        const method = stored ? 0 : 8;
+        const crc = Bun.hash.crc32(data);
+
+        const local = Buffer.alloc(30);
+        local.writeUInt32LE(0x04034b50, 0);
+        local.writeUInt16LE(20, 4);
+        local.writeUInt16LE(method, 8);
+        local.writeUInt32LE(crc, 14);
+        local.writeUInt32LE(compressed.length, 18);
+        local.writeUInt32LE(data.length, 22);
+        local.writeUInt16LE(nameBytes.length, 26);
+        locals.push(local, nameBytes, compressed);
+
+        const central = Buffer.alloc(46);
+        central.writeUInt32LE(0x02014b50, 0);
+        central.writeUInt16LE(20, 4);
+        central.writeUInt16LE(20, 6);
+        central.writeUInt16LE(method, 10);
+        central.writeUInt32LE(crc, 16);
+        central.writeUInt32LE(compressed.length, 20);
+        central.writeUInt32LE(data.length, 24);
+        central.writeUInt16LE(nameBytes.length, 28);
+        central.writeUInt32LE(offset, 42);
+        centrals.push(central, nameBytes);
+
+        offset += local.length + nameBytes.length + compressed.length;
+    }
+
+    const directory = Buffer.concat(centrals);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(Object.keys(files).length, 8);
+    end.writeUInt16LE(Object.keys(files).length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(offset, 16);
+
+    return Buffer.concat([...locals, directory, end]);
+}
+
+/**
+ * Build a ustar archive, gzipped when `gzip` is set. Names ending in "/" are
+ * directories; a type can be given per entry as "<type>:<name>", e.g. "L:././@LongLink".
+ */
+export function buildTar(files: Record<string, string | Buffer>, gzip: boolean = false): Buffer {
+    const blocks: Buffer[] = [];
+
+    for (const [key, content] of Object.entries(files)) {
+        const typed = key.match(/^([0-9A-Za-z]):(.*)$/);
+        const name = typed ? typed[2] : key;
+        const type = typed ? typed[1] : name.endsWith("/") ? "5" : "0";
+        const data = Buffer.from(content);
+
+        const header = Buffer.alloc(512);
+        header.write(name.substring(0, 100), 0, "utf-8");
+        header.write("0000644\0", 100);
+        header.write(data.length.toString(8).padStart(11, "0") + "\0", 124);
+        header.write("00000000000\0", 136);
+        header.write(type, 156);
+        header.write("ustar\0", 257);
+        header.write("00", 263);
+
+        // Checksum: header bytes summed with the checksum field read as spaces
+        header.write("        ", 148);
+        const checksum = header.reduce((sum, byte) => sum + byte, 0);
+        header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148);
+
+        blocks.push(header, data, Buffer.alloc((512 - (data.length % 512)) % 512));
+    }
+
+    blocks.push(Buffer.alloc(1024));
+    const tar = Buffer.concat(blocks);
+    return gzip ? gzipSync(tar) : tar;
+}
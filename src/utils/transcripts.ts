@@ -0,0 +1,156 @@
+import type { ImportedMemoryMessage } from "../db/index.ts";
+
+// Import limits
+export const MAX_IMPORT_FILE_SIZE = 2 * 1024 * 1024; // 2MB
+const MAX_IMPORT_MESSAGES = 1000;
+const MAX_IMPORT_MESSAGE_LENGTH = 20000;
+
+export interface TranscriptRow {
+    role: string;
+    content: string;
+    model: string | null;
+    created_at: number;
+}
+
+export interface ParsedImport {
+    messages: ImportedMemoryMessage[];
+    skippedSystem: number;
+}
+
+/**
+ * Export a session as JSON. The `messages` array is OpenAI-style, so the file
+ * can be fed back into /memory import or other tools.
+ */
+export function formatTranscriptJSON(sessionName: string, rows: TranscriptRow[]): string {
+    return JSON.stringify(
+        {
+            session: sessionName,
+            exported_at: new Date().toISOString(),
+            messages: rows.map((row) => ({
+                role: row.role,
+                content: row.content,
+                model: row.model,
+                created_at: new Date(row.created_at * 1000).toISOString(),
+            })),
+        },
+        null,
+        2
+    );
+}
+
+export function formatTranscriptMarkdown(sessionName: string, rows: TranscriptRow[]): string {
+    const lines = [
+        `# Memory session: ${sessionName}`,
+        "",
+        `Exported ${new Date().toISOString()} - ${rows.length} message(s)`,
+    ];
+
+    for (const row of rows) {
+        const speaker = row.role === "user" ? "You" : "AI";
+        const model = row.model ? ` (${row.model})` : "";
+        lines.push("", `## ${speaker} - ${new Date(row.created_at * 1000).toISOString()}${model}`, "", row.content);
+    }
+
+    return lines.join("\n") + "\n";
+}
+
+/**
+ * Pull the text out of an OpenAI-style content value, which is either a
+ * string or an array of parts. Non-text parts are ignored.
+ */
+function extractText(content: unknown): string | null {
+    if (typeof content === "string") return content;
+
+    if (Array.isArray(content)) {
+        const text = content
+            .filter((part) => part?.type === "text" && typeof part.text === "string")
+            .map((part) => part.text as string)
+            .join("\n");
+        return text || null;
+    }
+
+    return null;
+}
+
+function parseTimestamp(value: unknown): number | undefined {
+    if (typeof value === "number" && Number.isFinite(value)) {
+        // Accept both seconds and milliseconds
+        return Math.floor(value > 1e12 ? value / 1000 : value);
+    }
+    if (typeof value === "string") {
+        const parsed = Date.parse(value);
+        if (!Number.isNaN(parsed)) return Math.floor(parsed / 1000);
+    }
+    return undefined;
+}
+
+/**
+ * Parse and validate an import file: either an array of messages or an
+ * object with a `messages` array (as produced by /memory export). Throws with
+ * a user-facing message when the file is invalid.
+ */
+export function parseTranscriptImport(text: string): ParsedImport {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new Error("The file is not valid JSON.");
+    }
+
+    const rawMessages = Array.isArray(parsed)
+        ? parsed
+        : (parsed as { messages?: unknown })?.messages;
+
+    if (!Array.isArray(rawMessages)) {
+        throw new Error("Expected a JSON array of messages or an object with a `messages` array.");
+    }
+
+    if (rawMessages.length > MAX_IMPORT_MESSAGES) {
+        throw new Error(`Too many messages (${rawMessages.length}). The limit is ${MAX_IMPORT_MESSAGES}.`);
+    }
+
+    const messages: ImportedMemoryMessage[] = [];
+    let skippedSystem = 0;
+
+    rawMessages.forEach((raw, index) => {
+        const position = `Message ${index + 1}`;
+
+        if (!raw || typeof raw !== "object") {
+            throw new Error(`${position} is not an object.`);
+        }
+
+        const { role, content, model, created_at: createdAt } = raw as Record<string, unknown>;
+
+        // System prompts come from the bot's configuration, not memory
+        if (role === "system") {
+            skippedSystem++;
+            return;
+        }
+
+        if (role !== "user" && role !== "assistant") {
+            throw new Error(`${position} has an unsupported role "${String(role)}". Use "user" or "assistant".`);
+        }
+
+        const textContent = extractText(content);
+        if (textContent === null || textContent.trim().length === 0) {
+            throw new Error(`${position} has no text content.`);
+        }
+
+        if (textContent.length > MAX_IMPORT_MESSAGE_LENGTH) {
+            throw new Error(`${position} is too long (${textContent.length} characters). The limit is ${MAX_IMPORT_MESSAGE_LENGTH}.`);
+        }
+
+        messages.push({
+            role,
+            content: textContent,
+            model: typeof model === "string" ? model : null,
+            createdAt: parseTimestamp(createdAt),
+        });
+    });
+
+    if (messages.length === 0) {
+        throw new Error("The file contains no user or assistant messages.");
+    }
+
+    return { messages, skippedSystem };
+}
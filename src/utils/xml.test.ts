@@ -0,0 +1,45 @@
+import { describe, expect, test } from "bun:test";
+import { parseXml, decodeEntities, findAll, findFirst, textContent, localName, childElements } from "./xml.ts";
+
+describe("parseXml", () => {
+    test("builds an element tree with attributes, entities and CDATA", () => {
+        const root = parseXml(
+            `<?xml version="1.0"?><!DOCTYPE doc><!-- note --><w:doc a="1" b='two' c=bare><w:p>A &amp; B</w:p><w:p><![CDATA[<raw>]]></w:p><br/></w:doc>`
+        );
+        const doc = findFirst(root, "w:doc")!;
+
+        expect(doc.attributes).toEqual({ a: "1", b: "two", c: "bare" });
+        expect(localName(doc)).toBe("doc");
+        expect(childElements(doc).map((child) => child.name)).toEqual(["w:p", "w:p", "br"]);
+        expect(findAll(root, "w:p").map(textContent)).toEqual(["A & B", "<raw>"]);
+    });
+
+    test("closes unclosed elements at the end of their parent", () => {
+        const root = parseXml("<a><b>one<c>two</a><d>three</d>");
+        const a = findFirst(root, "a")!;
+        expect(textContent(a)).toBe("onetwo");
+        expect(findFirst(root, "d")?.children).toEqual(["three"]);
+    });
+
+    test("keeps truncated input as text", () => {
+        const root = parseXml("<a>text<b attr=");
+        expect(textContent(root)).toBe("text<b attr=");
+    });
+
+    test("caps nesting depth so deep documents don't overflow the stack", () => {
+        const depth = 100_000;
+        const root = parseXml("<x>".repeat(depth) + "deep" + "</x>".repeat(depth));
+        expect(textContent(root)).toBe("deep");
+        expect(findAll(root, "x")).toHaveLength(depth);
+    });
+});
+
+describe("decodeEntities", () => {
+    test("decodes named, decimal and hex entities", () => {
+        expect(decodeEntities("&lt;&#65;&#x42;&hellip;&unknown;")).toBe("<AB…&unknown;");
+    });
+
+    test("leaves out-of-range code points alone", () => {
+        expect(decodeEntities("&#x110000;&#99999999999;")).toBe("&#x110000;&#99999999999;");
+    });
+});
@@ -0,0 +1,130 @@
+export interface XmlElement {
+    name: string; // Qualified name as written, e.g. "w:p"
+    attributes: Record<string, string>;
+    children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+// Elements nested deeper than this are attached to their ancestor at this depth,
+// which keeps the recursive helpers below from overflowing the stack
+const MAX_DEPTH = 256;
+
+// XHTML documents (EPUB chapters) commonly use these HTML entities
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: "&", lt: "<", gt: ">", quot: "\"", apos: "'",
+    nbsp: " ", ndash: "–", mdash: "—", hellip: "…",
+    lsquo: "‘", rsquo: "’", ldquo: "“", rdquo: "”",
+    copy: "©", reg: "®", trade: "™", bull: "•", middot: "·",
+};
+
+export function decodeEntities(text: string): string {
+    return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === "#") {
+            const code = entity[1].toLowerCase() === "x"
+                ? parseInt(entity.substring(2), 16)
+                : parseInt(entity.substring(1), 10);
+            return Number.isFinite(code) && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+}
+
+/**
+ * Lenient XML parser for document formats. Builds a simple element tree;
+ * declarations, comments and doctypes are skipped, and unclosed tags are
+ * closed at the end of their parent rather than rejected.
+ */
+export function parseXml(text: string): XmlElement {
+    const root: XmlElement = { name: "#document", attributes: {}, children: [] };
+    const stack: XmlElement[] = [root];
+    const tagPattern = /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<\?[\s\S]*?\?>|<\/\s*([^\s>]+)\s*>|<([^\s/>]+)((?:\s+[^\s=/>]+(?:\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+))?)*)\s*(\/?)>/g;
+    const attributePattern = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+    let lastIndex = 0;
+    let match: RegExpExecArray | null;
+
+    while ((match = tagPattern.exec(text)) !== null) {
+        const current = stack[stack.length - 1];
+
+        if (match.index > lastIndex) {
+            current.children.push(decodeEntities(text.substring(lastIndex, match.index)));
+        }
+        lastIndex = tagPattern.lastIndex;
+
+        const [, cdata, closingName, openingName, attributeText, selfClosing] = match;
+
+        if (cdata !== undefined) {
+            current.children.push(cdata);
+        } else if (closingName) {
+            // Pop to the matching element, tolerating unclosed children
+            const index = stack.findLastIndex((element) => element.name === closingName);
+            if (index > 0) stack.length = index;
+        } else if (openingName) {
+            const element: XmlElement = { name: openingName, attributes: {}, children: [] };
+
+            let attribute: RegExpExecArray | null;
+            attributePattern.lastIndex = 0;
+            while ((attribute = attributePattern.exec(attributeText)) !== null) {
+                element.attributes[attribute[1]] = decodeEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? "");
+            }
+
+            current.children.push(element);
+            if (!selfClosing && stack.length < MAX_DEPTH) stack.push(element);
+        }
+    }
+
+    if (lastIndex < text.length) {
+        stack[stack.length - 1].children.push(decodeEntities(text.substring(lastIndex)));
+    }
+
+    return root;
+}
+
+/**
+ * Local name without the namespace prefix, e.g. "w:p" -> "p".
+ */
+export function localName(element: XmlElement): string {
+    const colon = element.name.indexOf(":");
+    return colon === -1 ? element.name : element.name.substring(colon + 1);
+}
+
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+    return element.children.filter(
+        (child): child is XmlElement => typeof child !== "string" && (!name || child.name === name)
+    );
+}
+
+/**
+ * Depth-first search for all descendants with the given qualified name.
+ */
+export function findAll(element: XmlElement, name: string): XmlElement[] {
+    const results: XmlElement[] = [];
+    const visit = (node: XmlElement) => {
+        for (const child of node.children) {
+            if (typeof child === "string") continue;
+            if (child.name === name) results.push(child);
+            visit(child);
+        }
+    };
+    visit(element);
+    return results;
+}
+
+export function findFirst(element: XmlElement, name: string): XmlElement | null {
+    for (const child of element.children) {
+        if (typeof child === "string") continue;
+        if (child.name === name) return child;
+        const nested = findFirst(child, name);
+        if (nested) return nested;
+    }
+    return null;
+}
+
+/**
+ * Concatenated text of an element and its descendants.
+ */
+export function textContent(node: XmlNode): string {
+    if (typeof node === "string") return node;
+    return node.children.map(textContent).join("");
+}
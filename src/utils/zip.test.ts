@@ -0,0 +1,75 @@
+import { describe, expect, test } from "bun:test";
+import { ZipArchive, resolveEntryPath } from "./zip.ts";
+import { buildZip } from "./test-fixtures.ts";
+
+describe("ZipArchive", () => {
+    test("reads stored and deflated entries", () => {
+        for (const stored of [true, false]) {
+            const zip = new ZipArchive(buildZip({ "a.txt": "hello", "dir/": "", "dir/b.txt": "world".repeat(100) }, stored));
+
+            expect(zip.entries.map((entry) => entry.name)).toEqual(["a.txt", "dir/", "dir/b.txt"]);
+            expect(zip.entries[1].isDirectory).toBe(true);
+            expect(zip.readText("a.txt")).toBe("hello");
+            expect(zip.readText("dir/b.txt")).toBe("world".repeat(100));
+            expect(zip.readText("missing.txt")).toBeNull();
+            expect(zip.has("a.txt")).toBe(true);
+        }
+    });
+
+    test("rejects data that isn't a zip", () => {
+        expect(() => new ZipArchive(Buffer.from("definitely not a zip archive"))).toThrow("Not a valid zip archive.");
+        expect(() => new ZipArchive(Buffer.alloc(0))).toThrow("Not a valid zip archive.");
+    });
+
+    test("rejects a central directory that points past the data", () => {
+        const buffer = buildZip({ "a.txt": "hello" });
+        buffer.writeUInt32LE(buffer.length + 100, buffer.length - 6);
+        expect(() => new ZipArchive(buffer)).toThrow("Corrupt archive: bad central directory.");
+    });
+
+    test("rejects truncated entry data", () => {
+        const buffer = buildZip({ "a.txt": "hello world" }, true);
+        const centralOffset = buffer.readUInt32LE(buffer.length - 6);
+        // Claim a compressed size far beyond the file
+        buffer.writeUInt32LE(1_000_000, centralOffset + 20);
+        const zip = new ZipArchive(buffer);
+        expect(() => zip.readText("a.txt")).toThrow("extends past the end of the file");
+    });
+
+    test("rejects local headers outside the file", () => {
+        const buffer = buildZip({ "a.txt": "hello" }, true);
+        const centralOffset = buffer.readUInt32LE(buffer.length - 6);
+        buffer.writeUInt32LE(buffer.length, centralOffset + 42);
+        const zip = new ZipArchive(buffer);
+        expect(() => zip.read("a.txt")).toThrow("bad local header");
+    });
+
+    test("refuses to extract entries above the size limit", () => {
+        const buffer = buildZip({ "big.txt": "small really" });
+        const centralOffset = buffer.readUInt32LE(buffer.length - 6);
+        buffer.writeUInt32LE(60 * 1024 * 1024, centralOffset + 24);
+        const zip = new ZipArchive(buffer);
+        expect(() => zip.read("big.txt")).toThrow("too large to extract");
+    });
+
+    test("stops inflating at the size limit even when the header lies", () => {
+        const buffer = buildZip({ "bomb.txt": Buffer.alloc(51 * 1024 * 1024) });
+        const zip = new ZipArchive(buffer);
+        expect(() => zip.read("bomb.txt")).toThrow();
+    });
+
+    test("rejects encrypted entries", () => {
+        const buffer = buildZip({ "secret.txt": "x" });
+        const centralOffset = buffer.readUInt32LE(buffer.length - 6);
+        buffer.writeUInt16LE(1, centralOffset + 8);
+        expect(() => new ZipArchive(buffer)).toThrow("Encrypted archives are not supported.");
+    });
+});
+
+describe("resolveEntryPath", () => {
+    test("resolves relative, parent and absolute targets", () => {
+        expect(resolveEntryPath("ppt/presentation.xml", "slides/slide1.xml")).toBe("ppt/slides/slide1.xml");
+        expect(resolveEntryPath("OEBPS/text/ch1.xhtml", "../images/a.png")).toBe("OEBPS/images/a.png");
+        expect(resolveEntryPath("word/document.xml", "/word/media/a%20b.png#frag")).toBe("word/media/a b.png");
+    });
+});
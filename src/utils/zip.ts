@@ -0,0 +1,141 @@
+import { inflateRawSync } from "zlib";
+
+// Guards against zip bombs: no single entry may inflate beyond this
+const MAX_ENTRY_SIZE = 50 * 1024 * 1024; // 50MB
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+export interface ZipEntry {
+    name: string;
+    size: number; // Uncompressed size
+    compressedSize: number;
+    isDirectory: boolean;
+    method: number; // 0 = stored, 8 = deflate
+    localHeaderOffset: number;
+}
+
+/**
+ * Minimal reader for the zip container used by Office, OpenDocument and EPUB
+ * files. Supports stored and deflated entries; zip64 and encryption are not.
+ */
+export class ZipArchive {
+    readonly entries: ZipEntry[];
+    private byName: Map<string, ZipEntry>;
+
+    constructor(private buffer: Buffer) {
+        this.entries = readCentralDirectory(buffer);
+        this.byName = new Map(this.entries.map((entry) => [entry.name, entry]));
+    }
+
+    has(name: string): boolean {
+        return this.byName.has(name);
+    }
+
+    read(name: string): Buffer | null {
+        const entry = this.byName.get(name);
+        return entry ? this.extract(entry) : null;
+    }
+
+    readText(name: string): string | null {
+        return this.read(name)?.toString("utf-8") ?? null;
+    }
+
+    extract(entry: ZipEntry): Buffer {
+        if (entry.size > MAX_ENTRY_SIZE) {
+            throw new Error(`Archive entry ${entry.name} is too large to extract.`);
+        }
+
+        const offset = entry.localHeaderOffset;
+        if (offset + 30 > this.buffer.length || this.buffer.readUInt32LE(offset) !== LOCAL_FILE_HEADER) {
+            throw new Error(`Corrupt archive: bad local header for ${entry.name}.`);
+        }
+
+        // The local header repeats the name but may have a different extra field length
+        const nameLength = this.buffer.readUInt16LE(offset + 26);
+        const extraLength = this.buffer.readUInt16LE(offset + 28);
+        const start = offset + 30 + nameLength + extraLength;
+        if (start + entry.compressedSize > this.buffer.length) {
+            throw new Error(`Corrupt archive: ${entry.name} extends past the end of the file.`);
+        }
+        const data = this.buffer.subarray(start, start + entry.compressedSize);
+
+        switch (entry.method) {
+            case 0:
+                return Buffer.from(data);
+            case 8:
+                return inflateRawSync(data, { maxOutputLength: MAX_ENTRY_SIZE });
+            default:
+                throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}.`);
+        }
+    }
+}
+
+/**
+ * Resolve a relationship or manifest target against the part that references it,
+ * e.g. ("ppt/presentation.xml", "slides/slide1.xml") -> "ppt/slides/slide1.xml".
+ */
+export function resolveEntryPath(fromPath: string, target: string): string {
+    const decoded = decodeURIComponent(target.split("#")[0]);
+    const segments = decoded.startsWith("/") ? [] : fromPath.split("/").slice(0, -1);
+
+    for (const segment of decoded.split("/")) {
+        if (segment === "..") segments.pop();
+        else if (segment && segment !== ".") segments.push(segment);
+    }
+
+    return segments.join("/");
+}
+
+function readCentralDirectory(buffer: Buffer): ZipEntry[] {
+    // The end record sits in the last 22 bytes plus an optional comment of up to 64KB
+    let end = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+        if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+            end = i;
+            break;
+        }
+    }
+
+    if (end === -1) {
+        throw new Error("Not a valid zip archive.");
+    }
+
+    const count = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+
+    if (count === 0xffff || offset === 0xffffffff) {
+        throw new Error("Zip64 archives are not supported.");
+    }
+
+    const entries: ZipEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+            throw new Error("Corrupt archive: bad central directory.");
+        }
+
+        const flags = buffer.readUInt16LE(offset + 8);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const name = buffer.toString("utf-8", offset + 46, offset + 46 + nameLength);
+
+        if (flags & 0x1) {
+            throw new Error("Encrypted archives are not supported.");
+        }
+
+        entries.push({
+            name,
+            method: buffer.readUInt16LE(offset + 10),
+            compressedSize: buffer.readUInt32LE(offset + 20),
+            size: buffer.readUInt32LE(offset + 24),
+            isDirectory: name.endsWith("/"),
+            localHeaderOffset: buffer.readUInt32LE(offset + 42),
+        });
+
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+}